@@ -1,27 +1,56 @@
+import { useEffect } from "react";
 import { Switch, Route, useLocation } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
-import { AuthProvider } from "./context/AuthContext";
+import { AuthProvider, useAuth } from "./context/AuthContext";
 
 // Pages
 import Home from "@/pages/Home";
 import VideoPage from "@/pages/VideoPage";
+import VideoAnalytics from "@/pages/VideoAnalytics";
+import SharedVideo from "@/pages/SharedVideo";
+import Channel from "@/pages/Channel";
+import Liked from "@/pages/Liked";
+import Playlists from "@/pages/Playlists";
+import PlaylistPage from "@/pages/PlaylistPage";
+import History from "@/pages/History";
+import Search from "@/pages/Search";
+import TagPage from "@/pages/TagPage";
 import Admin from "@/pages/Admin";
 import Login from "@/pages/Login";
+import Register from "@/pages/Register";
 import ChangePassword from "@/pages/ChangePassword";
 import Customize from "@/pages/Customize";
 import NotFound from "@/pages/not-found";
 
 function Router() {
-  const [location] = useLocation();
+  const [location, navigate] = useLocation();
+  const { user } = useAuth();
+
+  // Users whose password was reset by an admin must choose a new one first
+  useEffect(() => {
+    if (user?.mustChangePassword && location !== "/change-password") {
+      navigate("/change-password");
+    }
+  }, [user, location, navigate]);
 
   return (
     <Switch>
       <Route path="/" component={Home} />
       <Route path="/video/:id" component={VideoPage} />
+      <Route path="/video/:id/analytics" component={VideoAnalytics} />
+      <Route path="/s/:token" component={SharedVideo} />
+      <Route path="/channel/:id" component={Channel} />
+      <Route path="/search" component={Search} />
+      <Route path="/tag/:name" component={TagPage} />
+      <Route path="/liked" component={Liked} />
+      <Route path="/playlists" component={Playlists} />
+      <Route path="/playlist/:id" component={PlaylistPage} />
+      <Route path="/history" component={History} />
       <Route path="/admin" component={Admin} />
       <Route path="/login" component={Login} />
+      <Route path="/register" component={Register} />
       <Route path="/change-password" component={ChangePassword} />
       <Route path="/customize" component={Customize} />
       <Route component={NotFound} />
@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Video, VideoVisibility, Playlist, PlaylistSummary } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import VisibilitySelect from "@/components/VisibilitySelect";
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plus } from "lucide-react";
+
+interface AddToPlaylistDialogProps {
+  video: Video;
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+}
+
+export default function AddToPlaylistDialog({ video, isOpen, setIsOpen }: AddToPlaylistDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState("");
+  const [visibility, setVisibility] = useState<VideoVisibility>("public");
+
+  const { data: playlists, isLoading } = useQuery<PlaylistSummary[]>({
+    queryKey: ["/api/playlists", { videoId: video.id }],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/playlists?videoId=${video.id}`);
+      return res.json();
+    },
+    enabled: isOpen,
+  });
+
+  const onPlaylistChanged = (playlistId: number) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/playlists"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/playlists/${playlistId}`] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "Failed to update playlist.",
+    });
+  };
+
+  // Check or uncheck a playlist to add or remove this video
+  const toggleMutation = useMutation({
+    mutationFn: ({ playlistId, add }: { playlistId: number; add: boolean }) => {
+      return add
+        ? apiRequest("POST", `/api/playlists/${playlistId}/videos`, { videoId: video.id })
+        : apiRequest("DELETE", `/api/playlists/${playlistId}/videos/${video.id}`);
+    },
+    onSuccess: (_, { playlistId }) => onPlaylistChanged(playlistId),
+    onError,
+  });
+
+  // New playlists start out holding this video
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/playlists", { title, visibility });
+      const playlist = await res.json() as Playlist;
+      await apiRequest("POST", `/api/playlists/${playlist.id}/videos`, { videoId: video.id });
+      return playlist;
+    },
+    onSuccess: (playlist) => {
+      onPlaylistChanged(playlist.id);
+      setTitle("");
+      setVisibility("public");
+      toast({
+        title: "Saved",
+        description: `Added to "${playlist.title}".`,
+      });
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Save to playlist</DialogTitle>
+          <DialogDescription>
+            Choose the playlists "{video.title}" belongs to.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2 max-h-64 overflow-y-auto">
+          {isLoading ? (
+            <p className="text-sm text-gray-500">Loading playlists...</p>
+          ) : playlists && playlists.length > 0 ? (
+            playlists.map((playlist) => (
+              <div key={playlist.id} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`playlist-${playlist.id}`}
+                  checked={playlist.containsVideo}
+                  disabled={toggleMutation.isPending}
+                  onCheckedChange={(checked) => toggleMutation.mutate({ playlistId: playlist.id, add: checked === true })}
+                />
+                <Label htmlFor={`playlist-${playlist.id}`} className="flex-1 font-normal">
+                  {playlist.title}
+                </Label>
+                <span className="text-xs text-gray-500 capitalize">{playlist.visibility}</span>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-gray-500">You don't have any playlists yet.</p>
+          )}
+        </div>
+
+        <div className="border-t pt-4 space-y-3">
+          <h4 className="text-sm font-medium">New playlist</h4>
+          <div className="space-y-2">
+            <Label htmlFor="playlist-title">Title</Label>
+            <Input
+              id="playlist-title"
+              value={title}
+              maxLength={100}
+              onChange={(e) => setTitle(e.target.value)}
+            />
+          </div>
+          <VisibilitySelect value={visibility} onChange={setVisibility} />
+          <div className="flex justify-between items-center">
+            <Link href="/playlists" className="text-sm text-brand-blue hover:underline">
+              Manage playlists
+            </Link>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !title.trim()}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              {createMutation.isPending ? "Creating..." : "Create"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,161 @@
+import { ReactNode } from "react";
+import { format, parseISO } from "date-fns";
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { RetentionPoint, ViewStats } from "@shared/schema";
+import { formatDuration } from "@/lib/media";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+export const ANALYTICS_PERIODS = [7, 28, 90, 365];
+
+const TRAFFIC_SOURCE_LABELS: Record<keyof ViewStats["trafficSources"], string> = {
+  direct: "Direct",
+  share: "Share links",
+  embed: "Embeds",
+  search: "Search",
+};
+
+const DEVICE_LABELS: Record<keyof ViewStats["devices"], string> = {
+  desktop: "Desktop",
+  mobile: "Mobile",
+  tablet: "Tablet",
+};
+
+const viewsConfig = {
+  views: { label: "Views", color: "var(--primary-color)" },
+} satisfies ChartConfig;
+
+const retentionConfig = {
+  viewers: { label: "Still watching", color: "var(--primary-color)" },
+} satisfies ChartConfig;
+
+export function PeriodSelect({ value, onChange }: { value: number; onChange: (days: number) => void }) {
+  return (
+    <Select value={value.toString()} onValueChange={(v) => onChange(parseInt(v))}>
+      <SelectTrigger className="w-40">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {ANALYTICS_PERIODS.map((days) => (
+          <SelectItem key={days} value={days.toString()}>
+            Last {days} days
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+export function StatCard({ label, value, hint }: { label: string; value: string | number; hint?: string }) {
+  return (
+    <div className="rounded-lg border bg-white p-4">
+      <p className="text-sm text-gray-500">{label}</p>
+      <p className="mt-1 text-2xl font-semibold text-gray-900">{value}</p>
+      {hint && <p className="mt-1 text-xs text-gray-500">{hint}</p>}
+    </div>
+  );
+}
+
+// Totals shared by the video and site-wide dashboards
+export function ViewTotals({ stats }: { stats: ViewStats }) {
+  return (
+    <>
+      <StatCard label="Views" value={stats.views} hint={`${stats.plays} plays started`} />
+      <StatCard label="Unique viewers" value={stats.uniqueViewers} />
+      <StatCard label="Average watch time" value={formatDuration(stats.averageWatchSeconds)} />
+    </>
+  );
+}
+
+function ChartCard({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="rounded-lg border bg-white p-4">
+      <h3 className="text-sm font-medium text-gray-900 mb-4">{title}</h3>
+      {children}
+    </div>
+  );
+}
+
+export function ViewsOverTimeChart({ data }: { data: ViewStats["viewsByDay"] }) {
+  return (
+    <ChartCard title="Views over time">
+      <ChartContainer config={viewsConfig} className="aspect-auto h-64 w-full">
+        <AreaChart data={data}>
+          <CartesianGrid vertical={false} />
+          <XAxis
+            dataKey="date"
+            tickLine={false}
+            axisLine={false}
+            minTickGap={24}
+            tickFormatter={(date: string) => format(parseISO(date), "MMM d")}
+          />
+          <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+          <ChartTooltip
+            content={<ChartTooltipContent labelFormatter={(date: string) => format(parseISO(date), "MMM d, yyyy")} />}
+          />
+          <Area dataKey="views" type="monotone" stroke="var(--color-views)" fill="var(--color-views)" fillOpacity={0.2} />
+        </AreaChart>
+      </ChartContainer>
+    </ChartCard>
+  );
+}
+
+export function RetentionChart({ data }: { data: RetentionPoint[] | null }) {
+  return (
+    <ChartCard title="Audience retention">
+      {data ? (
+        <ChartContainer config={retentionConfig} className="aspect-auto h-64 w-full">
+          <AreaChart data={data.map((point) => ({ ...point, viewers: Math.round(point.viewers * 100) }))}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="percent" tickLine={false} axisLine={false} tickFormatter={(percent: number) => `${percent}%`} />
+            <YAxis domain={[0, 100]} tickLine={false} axisLine={false} width={40} tickFormatter={(viewers: number) => `${viewers}%`} />
+            <ChartTooltip
+              content={
+                <ChartTooltipContent
+                  labelFormatter={(_label, payload) => `${payload[0]?.payload.percent}% into the video`}
+                  formatter={(value) => `${value}% still watching`}
+                />
+              }
+            />
+            <Area dataKey="viewers" type="stepAfter" stroke="var(--color-viewers)" fill="var(--color-viewers)" fillOpacity={0.2} />
+          </AreaChart>
+        </ChartContainer>
+      ) : (
+        <p className="py-12 text-center text-sm text-gray-500">
+          Retention needs the video's length, which isn't known for embedded videos.
+        </p>
+      )}
+    </ChartCard>
+  );
+}
+
+function BreakdownChart({ title, counts, labels }: { title: string; counts: Record<string, number>; labels: Record<string, string> }) {
+  const data = Object.keys(labels).map((key) => ({ name: labels[key], views: counts[key] ?? 0 }));
+
+  return (
+    <ChartCard title={title}>
+      <ChartContainer config={viewsConfig} className="aspect-auto h-48 w-full">
+        <BarChart data={data} layout="vertical" margin={{ left: 16 }}>
+          <XAxis type="number" allowDecimals={false} hide />
+          <YAxis type="category" dataKey="name" tickLine={false} axisLine={false} width={80} />
+          <ChartTooltip cursor={false} content={<ChartTooltipContent hideLabel />} />
+          <Bar dataKey="views" fill="var(--color-views)" radius={4} />
+        </BarChart>
+      </ChartContainer>
+    </ChartCard>
+  );
+}
+
+export function TrafficSourcesChart({ counts }: { counts: ViewStats["trafficSources"] }) {
+  return <BreakdownChart title="Traffic sources" counts={counts} labels={TRAFFIC_SOURCE_LABELS} />;
+}
+
+export function DevicesChart({ counts }: { counts: ViewStats["devices"] }) {
+  return <BreakdownChart title="Devices" counts={counts} labels={DEVICE_LABELS} />;
+}
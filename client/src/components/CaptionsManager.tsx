@@ -0,0 +1,147 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { CaptionTrack } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// UI Components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Trash2, Upload } from "lucide-react";
+
+interface CaptionsManagerProps {
+  videoId: number;
+}
+
+// Lists a video's subtitle tracks and uploads new ones. Uploading a file in a
+// language the video already has replaces that track.
+export default function CaptionsManager({ videoId }: CaptionsManagerProps) {
+  const { toast } = useToast();
+  const [file, setFile] = useState<File | null>(null);
+  const [language, setLanguage] = useState("");
+  const [label, setLabel] = useState("");
+  // Bumped to clear the file input after an upload
+  const [fileInputKey, setFileInputKey] = useState(0);
+
+  const captionsUrl = `/api/videos/${videoId}/captions`;
+
+  const { data: tracks, isLoading } = useQuery<CaptionTrack[]>({
+    queryKey: [captionsUrl],
+  });
+
+  // Upload caption mutation
+  const uploadCaptionMutation = useMutation({
+    mutationFn: async () => {
+      const formData = new FormData();
+      formData.append("label", label);
+      formData.append("file", file!);
+
+      const response = await fetch(`${captionsUrl}/${encodeURIComponent(language.trim())}`, {
+        method: "PUT",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to upload captions");
+      }
+
+      return await response.json() as CaptionTrack;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [captionsUrl] });
+      setFile(null);
+      setLanguage("");
+      setLabel("");
+      setFileInputKey((key) => key + 1);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to upload captions.",
+      });
+    },
+  });
+
+  // Delete caption mutation
+  const deleteCaptionMutation = useMutation({
+    mutationFn: (trackLanguage: string) => {
+      return apiRequest("DELETE", `${captionsUrl}/${encodeURIComponent(trackLanguage)}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [captionsUrl] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to delete captions.",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-2">
+      <Label>Subtitles</Label>
+
+      <div className="divide-y rounded-md border">
+        {isLoading ? (
+          <p className="p-3 text-sm text-gray-500">Loading subtitles...</p>
+        ) : tracks && tracks.length > 0 ? (
+          tracks.map((track) => (
+            <div key={track.language} className="flex items-center justify-between p-3 text-sm">
+              <div className="min-w-0 truncate">
+                {track.label} <span className="text-xs text-gray-500">({track.language})</span>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteCaptionMutation.mutate(track.language)}
+                disabled={deleteCaptionMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4 text-red-500" />
+                <span className="sr-only">Delete</span>
+              </Button>
+            </div>
+          ))
+        ) : (
+          <p className="p-3 text-sm text-gray-500">No subtitles yet</p>
+        )}
+      </div>
+
+      <Input
+        key={fileInputKey}
+        type="file"
+        accept=".vtt,.srt"
+        onChange={(e) => setFile(e.target.files?.[0] || null)}
+      />
+      <div className="flex space-x-2">
+        <Input
+          className="w-28"
+          placeholder="en"
+          value={language}
+          onChange={(e) => setLanguage(e.target.value)}
+        />
+        <Input
+          placeholder="English"
+          value={label}
+          onChange={(e) => setLabel(e.target.value)}
+        />
+        <Button
+          variant="outline"
+          onClick={() => uploadCaptionMutation.mutate()}
+          disabled={uploadCaptionMutation.isPending || !file || !language.trim() || !label.trim()}
+        >
+          <Upload className="mr-2 h-4 w-4" />
+          Upload
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        WebVTT or SRT, with a language code such as "en" or "pt-BR".
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,432 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useInfiniteQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Video, CommentView, CommentPage, CommentSort } from "@shared/schema";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// UI Components
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MoreVertical, Pin, ChevronDown, ChevronUp } from "lucide-react";
+
+interface CommentSectionProps {
+  video: Video;
+}
+
+const fetchCommentPage = async (url: string): Promise<CommentPage> => {
+  const res = await apiRequest("GET", url);
+  return res.json();
+};
+
+const withCursor = (url: string, cursor: string | null) => {
+  return cursor ? `${url}${url.includes("?") ? "&" : "?"}cursor=${encodeURIComponent(cursor)}` : url;
+};
+
+export default function CommentSection({ video }: CommentSectionProps) {
+  const { user } = useAuth();
+  const [sort, setSort] = useState<CommentSort>("newest");
+  // Every comment query for this video shares this prefix so one invalidation refreshes them all
+  const commentsKey = `/api/videos/${video.id}/comments`;
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [commentsKey, sort],
+    queryFn: ({ pageParam }) => fetchCommentPage(withCursor(`${commentsKey}?sort=${sort}`, pageParam)),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const comments = data?.pages.flatMap((page) => page.comments) ?? [];
+
+  return (
+    <section>
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-gray-900">Comments</h2>
+        <Select value={sort} onValueChange={(value) => setSort(value as CommentSort)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="newest">Newest first</SelectItem>
+            <SelectItem value="top">Top comments</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {user ? (
+        <CommentForm
+          video={video}
+          commentsKey={commentsKey}
+          placeholder="Add a comment..."
+          submitLabel="Comment"
+        />
+      ) : (
+        <p className="text-sm text-gray-500 mb-6">
+          <Link href={`/login?redirect=/video/${video.id}`} className="text-brand-blue hover:underline">
+            Log in
+          </Link>{" "}
+          to join the discussion.
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="space-y-4">
+          {Array(3).fill(0).map((_, i) => (
+            <div key={i} className="flex space-x-3">
+              <Skeleton className="h-8 w-8 rounded-full" />
+              <div className="flex-1 space-y-2">
+                <Skeleton className="h-4 w-1/4" />
+                <Skeleton className="h-4 w-3/4" />
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : error ? (
+        <p className="text-sm text-gray-500">Failed to load comments.</p>
+      ) : comments.length === 0 ? (
+        <p className="text-sm text-gray-500">No comments yet. Be the first to share your thoughts.</p>
+      ) : (
+        <div className="space-y-6">
+          {comments.map((comment) => (
+            <CommentItem key={comment.id} comment={comment} video={video} commentsKey={commentsKey} />
+          ))}
+        </div>
+      )}
+
+      {hasNextPage && (
+        <div className="mt-6 flex justify-center">
+          <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+            {isFetchingNextPage ? "Loading..." : "Load more comments"}
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+}
+
+interface CommentFormProps {
+  video: Video;
+  commentsKey: string;
+  parentId?: number;
+  placeholder: string;
+  submitLabel: string;
+  onDone?: () => void;
+}
+
+function CommentForm({ video, commentsKey, parentId, placeholder, submitLabel, onDone }: CommentFormProps) {
+  const { toast } = useToast();
+  const [body, setBody] = useState("");
+
+  // Post comment mutation
+  const postCommentMutation = useMutation({
+    mutationFn: () => {
+      return apiRequest("POST", `/api/videos/${video.id}/comments`, { body, parentId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [commentsKey] });
+      setBody("");
+      onDone?.();
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to post comment.",
+      });
+    },
+  });
+
+  return (
+    <form
+      className="mb-6 space-y-2"
+      onSubmit={(e) => {
+        e.preventDefault();
+        postCommentMutation.mutate();
+      }}
+    >
+      <Textarea
+        placeholder={placeholder}
+        value={body}
+        maxLength={2000}
+        rows={parentId ? 2 : 3}
+        onChange={(e) => setBody(e.target.value)}
+      />
+      <div className="flex justify-end space-x-2">
+        {onDone && (
+          <Button type="button" variant="ghost" size="sm" onClick={onDone}>
+            Cancel
+          </Button>
+        )}
+        <Button type="submit" size="sm" disabled={!body.trim() || postCommentMutation.isPending}>
+          {postCommentMutation.isPending ? "Posting..." : submitLabel}
+        </Button>
+      </div>
+    </form>
+  );
+}
+
+interface CommentItemProps {
+  comment: CommentView;
+  video: Video;
+  commentsKey: string;
+}
+
+function CommentItem({ comment, video, commentsKey }: CommentItemProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isReplying, setIsReplying] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [editBody, setEditBody] = useState(comment.body);
+  const [showReplies, setShowReplies] = useState(false);
+
+  const isTopLevel = comment.parentId === null;
+  const isAuthor = !!user && user.id === comment.userId;
+  const canModerate = !!user && (user.isAdmin || user.id === video.uploaderId);
+
+  const onError = (fallback: string) => (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || fallback,
+    });
+  };
+
+  // Edit comment mutation
+  const editCommentMutation = useMutation({
+    mutationFn: () => apiRequest("PATCH", `/api/comments/${comment.id}`, { body: editBody }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [commentsKey] });
+      setIsEditing(false);
+    },
+    onError: onError("Failed to edit comment."),
+  });
+
+  // Delete comment mutation
+  const deleteCommentMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/comments/${comment.id}`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [commentsKey] });
+    },
+    onError: onError("Failed to delete comment."),
+  });
+
+  // Pin comment mutation
+  const pinCommentMutation = useMutation({
+    mutationFn: (pinned: boolean) => apiRequest("PUT", `/api/comments/${comment.id}/pin`, { pinned }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [commentsKey] });
+    },
+    onError: onError("Failed to pin comment."),
+  });
+
+  const authorName = comment.author?.displayName || comment.author?.username || "User";
+
+  return (
+    <div className="flex space-x-3">
+      <Avatar className="h-8 w-8 flex-shrink-0">
+        {comment.author?.avatarUrl && <AvatarImage src={comment.author.avatarUrl} alt={comment.author.username} />}
+        <AvatarFallback>{comment.author ? comment.author.username.charAt(0).toUpperCase() : "?"}</AvatarFallback>
+      </Avatar>
+
+      <div className="flex-1 min-w-0">
+        {comment.pinned && (
+          <div className="flex items-center text-xs text-gray-500 mb-1">
+            <Pin className="h-3 w-3 mr-1" />
+            Pinned by the uploader
+          </div>
+        )}
+
+        <div className="flex items-start justify-between">
+          <div className="text-sm">
+            {comment.author ? (
+              <Link href={`/channel/${comment.author.id}`} className="font-medium text-gray-900 hover:underline">
+                {authorName}
+              </Link>
+            ) : (
+              <span className="font-medium text-gray-500">Deleted comment</span>
+            )}
+            <span className="ml-2 text-xs text-gray-500">
+              {formatDistanceToNow(new Date(comment.createdAt), { addSuffix: true })}
+              {comment.editedAt && !comment.deleted && " (edited)"}
+            </span>
+          </div>
+
+          {!comment.deleted && (isAuthor || canModerate) && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-6 w-6">
+                  <MoreVertical className="h-4 w-4" />
+                  <span className="sr-only">Comment actions</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                {isAuthor && (
+                  <DropdownMenuItem
+                    onClick={() => {
+                      setEditBody(comment.body);
+                      setIsEditing(true);
+                    }}
+                  >
+                    Edit
+                  </DropdownMenuItem>
+                )}
+                {canModerate && isTopLevel && (
+                  <DropdownMenuItem onClick={() => pinCommentMutation.mutate(!comment.pinned)}>
+                    {comment.pinned ? "Unpin" : "Pin"}
+                  </DropdownMenuItem>
+                )}
+                <DropdownMenuItem
+                  className="text-red-600"
+                  onClick={() => {
+                    if (window.confirm("Delete this comment?")) {
+                      deleteCommentMutation.mutate();
+                    }
+                  }}
+                >
+                  Delete
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+        </div>
+
+        {isEditing ? (
+          <form
+            className="mt-2 space-y-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              editCommentMutation.mutate();
+            }}
+          >
+            <Textarea value={editBody} maxLength={2000} rows={2} onChange={(e) => setEditBody(e.target.value)} />
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="ghost" size="sm" onClick={() => setIsEditing(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={!editBody.trim() || editCommentMutation.isPending}>
+                Save
+              </Button>
+            </div>
+          </form>
+        ) : comment.deleted ? (
+          <p className="mt-1 text-sm italic text-gray-400">This comment was deleted</p>
+        ) : (
+          <p className="mt-1 text-sm text-gray-800 whitespace-pre-wrap break-words">{comment.body}</p>
+        )}
+
+        {user && !comment.deleted && !isEditing && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 mt-1 text-xs text-gray-600"
+            onClick={() => setIsReplying(true)}
+          >
+            Reply
+          </Button>
+        )}
+
+        {isReplying && (
+          <div className="mt-2">
+            <CommentForm
+              video={video}
+              commentsKey={commentsKey}
+              parentId={comment.id}
+              placeholder={`Reply to ${authorName}...`}
+              submitLabel="Reply"
+              onDone={() => {
+                setIsReplying(false);
+                setShowReplies(true);
+              }}
+            />
+          </div>
+        )}
+
+        {isTopLevel && comment.replyCount > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 mt-1 text-xs text-brand-blue"
+            onClick={() => setShowReplies((shown) => !shown)}
+          >
+            {showReplies ? <ChevronUp className="h-4 w-4 mr-1" /> : <ChevronDown className="h-4 w-4 mr-1" />}
+            {comment.replyCount} {comment.replyCount === 1 ? "reply" : "replies"}
+          </Button>
+        )}
+
+        {isTopLevel && showReplies && (
+          <ReplyList parent={comment} video={video} commentsKey={commentsKey} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+interface ReplyListProps {
+  parent: CommentView;
+  video: Video;
+  commentsKey: string;
+}
+
+function ReplyList({ parent, video, commentsKey }: ReplyListProps) {
+  const {
+    data,
+    isLoading,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: [commentsKey, "replies", parent.id],
+    queryFn: ({ pageParam }) => fetchCommentPage(withCursor(`/api/comments/${parent.id}/replies`, pageParam)),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const replies = data?.pages.flatMap((page) => page.comments) ?? [];
+
+  if (isLoading) {
+    return <Skeleton className="mt-3 h-10 w-full" />;
+  }
+
+  return (
+    <div className="mt-3 space-y-4">
+      {replies.map((reply) => (
+        <CommentItem key={reply.id} comment={reply} video={video} commentsKey={commentsKey} />
+      ))}
+      {hasNextPage && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs text-brand-blue"
+          onClick={() => fetchNextPage()}
+          disabled={isFetchingNextPage}
+        >
+          Show more replies
+        </Button>
+      )}
+    </div>
+  );
+}
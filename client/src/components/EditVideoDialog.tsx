@@ -0,0 +1,245 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Video, VideoVisibility, Category } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import VisibilitySelect from "@/components/VisibilitySelect";
+import TagInput from "@/components/TagInput";
+import CaptionsManager from "@/components/CaptionsManager";
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+type ThumbnailMode = "keep" | "timestamp" | "image";
+
+interface EditVideoDialogProps {
+  video: Video;
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+}
+
+export default function EditVideoDialog({ video, isOpen, setIsOpen }: EditVideoDialogProps) {
+  const { toast } = useToast();
+  const [title, setTitle] = useState(video.title);
+  const [description, setDescription] = useState(video.description || "");
+  const [category, setCategory] = useState(video.category || "");
+  const [visibility, setVisibility] = useState<VideoVisibility>(video.visibility);
+  const [tags, setTags] = useState(video.tags);
+  const [thumbnailMode, setThumbnailMode] = useState<ThumbnailMode>("keep");
+  const [thumbnailTime, setThumbnailTime] = useState("2");
+  const [thumbnailFile, setThumbnailFile] = useState<File | null>(null);
+
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+  // Keep the video's current category selectable even if it has since been hidden
+  const categoryNames = (categories ?? []).map((c) => c.name);
+  if (video.category && !categoryNames.includes(video.category)) {
+    categoryNames.push(video.category);
+  }
+
+  // Reset the form whenever the dialog is reopened
+  useEffect(() => {
+    if (isOpen) {
+      setTitle(video.title);
+      setDescription(video.description || "");
+      setCategory(video.category || "");
+      setVisibility(video.visibility);
+      setTags(video.tags);
+      setThumbnailMode("keep");
+      setThumbnailTime("2");
+      setThumbnailFile(null);
+    }
+  }, [isOpen, video]);
+
+  // Update video mutation
+  const updateVideoMutation = useMutation({
+    mutationFn: async () => {
+      // Sent as multipart so a custom thumbnail image can ride along
+      const formData = new FormData();
+      formData.append("title", title);
+      formData.append("description", description);
+      if (category) {
+        formData.append("category", category);
+      }
+      formData.append("visibility", visibility);
+      // Tag names can't contain commas, so the list travels as one field
+      formData.append("tags", tags.join(","));
+      if (thumbnailMode === "timestamp") {
+        formData.append("thumbnailTime", thumbnailTime);
+      } else if (thumbnailMode === "image" && thumbnailFile) {
+        formData.append("thumbnail", thumbnailFile);
+      }
+
+      const response = await fetch(`/api/videos/${video.id}`, {
+        method: "PUT",
+        body: formData,
+        credentials: "include",
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.message || "Failed to update video");
+      }
+
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/videos/${video.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
+      setIsOpen(false);
+      toast({
+        title: "Success",
+        description: thumbnailMode === "timestamp"
+          ? "Video updated. The new thumbnail will appear shortly."
+          : "Video updated successfully.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Update failed",
+        description: error.message || "An error occurred while updating the video",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Video</DialogTitle>
+          <DialogDescription>
+            Update the details, thumbnail and subtitles of your video.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-title">Title</Label>
+            <Input id="edit-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-description">Description</Label>
+            <Textarea
+              id="edit-description"
+              rows={3}
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Category</Label>
+            <Select value={category || undefined} onValueChange={setCategory}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a category" />
+              </SelectTrigger>
+              <SelectContent>
+                {categoryNames.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Tags</Label>
+            <TagInput value={tags} onChange={setTags} />
+          </div>
+
+          <div className="space-y-2">
+            <Label>Visibility</Label>
+            <VisibilitySelect value={visibility} onChange={setVisibility} />
+          </div>
+
+          {!video.isEmbedded && (
+            <div className="space-y-2">
+              <Label>Thumbnail</Label>
+              <RadioGroup
+                value={thumbnailMode}
+                onValueChange={(value) => setThumbnailMode(value as ThumbnailMode)}
+                className="space-y-1"
+              >
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="keep" id="thumbnail-keep" />
+                  <Label htmlFor="thumbnail-keep">Keep current thumbnail</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="timestamp" id="thumbnail-timestamp" />
+                  <Label htmlFor="thumbnail-timestamp">Use a frame from the video</Label>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <RadioGroupItem value="image" id="thumbnail-image" />
+                  <Label htmlFor="thumbnail-image">Upload an image</Label>
+                </div>
+              </RadioGroup>
+
+              {thumbnailMode === "timestamp" && (
+                <div className="flex items-center space-x-2">
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.1}
+                    className="w-32"
+                    value={thumbnailTime}
+                    onChange={(e) => setThumbnailTime(e.target.value)}
+                  />
+                  <span className="text-sm text-gray-500">seconds into the video</span>
+                </div>
+              )}
+
+              {thumbnailMode === "image" && (
+                <Input
+                  type="file"
+                  accept="image/jpeg,image/png,image/webp"
+                  onChange={(e) => setThumbnailFile(e.target.files?.[0] || null)}
+                />
+              )}
+            </div>
+          )}
+
+          {!video.isEmbedded && <CaptionsManager videoId={video.id} />}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setIsOpen(false)}>
+            Cancel
+          </Button>
+          <Button
+            onClick={() => updateVideoMutation.mutate()}
+            disabled={
+              updateVideoMutation.isPending ||
+              !title.trim() ||
+              (thumbnailMode === "image" && !thumbnailFile)
+            }
+          >
+            {updateVideoMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
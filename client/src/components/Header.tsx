@@ -2,7 +2,6 @@ import { useState } from "react";
 import { Link, useLocation } from "wouter";
 import { useAuth } from "@/context/AuthContext";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import {
   DropdownMenu,
@@ -11,21 +10,15 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
-import { Upload, Search, Menu } from "lucide-react";
+import { Upload, Menu } from "lucide-react";
 import { Sheet, SheetContent, SheetTrigger } from "@/components/ui/sheet";
 import UploadModal from "./UploadModal";
+import SearchBox from "./SearchBox";
 
 export default function Header() {
   const [location, navigate] = useLocation();
   const { user, logout } = useAuth();
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
-  const [searchQuery, setSearchQuery] = useState("");
-
-  const handleSearch = (e: React.FormEvent) => {
-    e.preventDefault();
-    navigate(`/?search=${encodeURIComponent(searchQuery)}`);
-  };
-
   const handleLogout = async () => {
     await logout();
     navigate("/");
@@ -56,6 +49,12 @@ export default function Header() {
               >
                 Explore
               </Link>
+              <Link 
+                href="/history"
+                className={`${location === "/history" ? "border-brand-blue text-gray-900" : "border-transparent text-gray-500 hover:border-gray-300 hover:text-gray-700"} inline-flex items-center px-1 pt-1 border-b-2 text-sm font-medium`}
+              >
+                History
+              </Link>
               {user?.isAdmin && (
                 <Link 
                   href="/admin"
@@ -69,20 +68,9 @@ export default function Header() {
 
           {/* Search Bar */}
           <div className="flex-1 flex items-center justify-center px-2 lg:ml-6 lg:justify-end">
-            <form onSubmit={handleSearch} className="max-w-lg w-full lg:max-w-xs">
-              <div className="relative">
-                <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-                  <Search className="h-5 w-5 text-gray-400" />
-                </div>
-                <Input
-                  className="block w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-brand-blue focus:border-brand-blue sm:text-sm"
-                  placeholder="Search videos"
-                  type="search"
-                  value={searchQuery}
-                  onChange={(e) => setSearchQuery(e.target.value)}
-                />
-              </div>
-            </form>
+            <div className="max-w-lg w-full lg:max-w-xs">
+              <SearchBox />
+            </div>
           </div>
 
           {/* User Navigation */}
@@ -103,6 +91,9 @@ export default function Header() {
                   <Link href="/?category=All" className="text-lg font-medium">
                     Explore
                   </Link>
+                  <Link href="/history" className="text-lg font-medium">
+                    History
+                  </Link>
                   {user?.isAdmin && (
                     <>
                       <Link href="/admin" className="text-lg font-medium">
@@ -119,6 +110,21 @@ export default function Header() {
                         <Upload className="mr-2 h-4 w-4" />
                         Upload
                       </Button>
+                      <Link href={`/channel/${user.id}`}>
+                        <Button variant="secondary" className="w-full mb-2">
+                          My Channel
+                        </Button>
+                      </Link>
+                      <Link href="/liked">
+                        <Button variant="secondary" className="w-full mb-2">
+                          Liked Videos
+                        </Button>
+                      </Link>
+                      <Link href="/playlists">
+                        <Button variant="secondary" className="w-full mb-2">
+                          Playlists
+                        </Button>
+                      </Link>
                       <Link href="/change-password">
                         <Button variant="secondary" className="w-full mb-2">
                           Change Password
@@ -172,6 +178,21 @@ export default function Header() {
                           </DropdownMenuItem>
                         </>
                       )}
+                      <DropdownMenuItem asChild>
+                        <Link href={`/channel/${user.id}`}>
+                          My Channel
+                        </Link>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link href="/liked">
+                          Liked Videos
+                        </Link>
+                      </DropdownMenuItem>
+                      <DropdownMenuItem asChild>
+                        <Link href="/playlists">
+                          Playlists
+                        </Link>
+                      </DropdownMenuItem>
                       <DropdownMenuItem asChild>
                         <Link href="/change-password">
                           Change Password
@@ -0,0 +1,97 @@
+import { Link, useLocation } from "wouter";
+import { PlaylistWithVideos, Video } from "@shared/schema";
+import { getThumbnailUrl, formatDuration } from "@/lib/media";
+import { PlaybackOptions, playbackUrl, nextInOrder, newShuffleSeed } from "@/lib/playlistPlayback";
+import { Button } from "@/components/ui/button";
+import { Repeat, Shuffle, SkipForward } from "lucide-react";
+
+interface PlaylistQueueProps {
+  playlist: PlaylistWithVideos;
+  // The playlist's videos in playback order
+  order: Video[];
+  currentVideoId: number;
+  options: PlaybackOptions;
+}
+
+export default function PlaylistQueue({ playlist, order, currentVideoId, options }: PlaylistQueueProps) {
+  const [, navigate] = useLocation();
+  const position = order.findIndex((video) => video.id === currentVideoId);
+  const next = nextInOrder(order, currentVideoId, options.loop);
+
+  // Changing the options keeps the current video playing
+  const setOptions = (changes: Partial<PlaybackOptions>) => {
+    navigate(playbackUrl(currentVideoId, { ...options, ...changes }), { replace: true });
+  };
+
+  return (
+    <div className="bg-white shadow rounded-lg overflow-hidden">
+      <div className="p-4 border-b">
+        <Link href={`/playlist/${playlist.id}`} className="font-medium text-gray-900 hover:underline">
+          {playlist.title}
+        </Link>
+        <p className="text-xs text-gray-500 mt-1">
+          {position + 1} / {order.length}
+        </p>
+        <div className="flex items-center space-x-1 mt-2">
+          <Button
+            variant="ghost"
+            size="icon"
+            className={options.shuffleSeed !== null ? "text-brand-blue" : "text-gray-500"}
+            aria-pressed={options.shuffleSeed !== null}
+            onClick={() => setOptions({ shuffleSeed: options.shuffleSeed === null ? newShuffleSeed() : null })}
+          >
+            <Shuffle className="h-4 w-4" />
+            <span className="sr-only">Shuffle</span>
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={options.loop ? "text-brand-blue" : "text-gray-500"}
+            aria-pressed={options.loop}
+            onClick={() => setOptions({ loop: !options.loop })}
+          >
+            <Repeat className="h-4 w-4" />
+            <span className="sr-only">Loop</span>
+          </Button>
+          {next && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="text-gray-500"
+              onClick={() => navigate(playbackUrl(next.id, options))}
+            >
+              <SkipForward className="h-4 w-4" />
+              <span className="sr-only">Next video</span>
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <ol className="max-h-96 overflow-y-auto">
+        {order.map((video, index) => (
+          <li key={video.id}>
+            <Link
+              href={playbackUrl(video.id, options)}
+              className={`flex items-center gap-2 px-3 py-2 hover:bg-gray-50 ${video.id === currentVideoId ? "bg-gray-100" : ""}`}
+            >
+              <span className="w-5 text-xs text-gray-500 text-right">{index + 1}</span>
+              <div className="relative w-24 flex-shrink-0 aspect-video overflow-hidden rounded bg-gray-100">
+                <img
+                  className="object-cover w-full h-full"
+                  src={getThumbnailUrl(video) || `https://picsum.photos/seed/${video.id}/800/450`}
+                  alt=""
+                />
+                {video.duration ? (
+                  <div className="absolute bottom-1 right-1 bg-black/70 text-white text-[10px] px-1 rounded">
+                    {formatDuration(video.duration)}
+                  </div>
+                ) : null}
+              </div>
+              <span className="text-sm text-gray-900 line-clamp-2">{video.title}</span>
+            </Link>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
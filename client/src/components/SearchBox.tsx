@@ -0,0 +1,172 @@
+import { useEffect, useRef, useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { keepPreviousData, useQuery } from "@tanstack/react-query";
+import { Command as CommandPrimitive } from "cmdk";
+import { Suggestion, SuggestionType } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { getRecentSearches, addRecentSearch, removeRecentSearch } from "@/lib/recentSearches";
+import { Command, CommandGroup, CommandItem, CommandList } from "@/components/ui/command";
+import { Clock, Film, Search, Tag, User, X } from "lucide-react";
+
+// Wait for a pause in typing before asking for suggestions
+const SUGGEST_DELAY = 150;
+const MAX_MATCHING_RECENT = 3;
+
+const SUGGESTION_ICONS: Record<SuggestionType, typeof Search> = {
+  title: Film,
+  tag: Tag,
+  channel: User,
+};
+
+export default function SearchBox() {
+  const [location, navigate] = useLocation();
+  const search = useSearch();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState(() =>
+    location === "/search" ? new URLSearchParams(search).get("q") ?? "" : ""
+  );
+  const [debouncedQuery, setDebouncedQuery] = useState(query.trim());
+  const [open, setOpen] = useState(false);
+  const [recentSearches, setRecentSearches] = useState(getRecentSearches);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedQuery(query.trim()), SUGGEST_DELAY);
+    return () => clearTimeout(timer);
+  }, [query]);
+
+  const { data: suggestions } = useQuery<Suggestion[]>({
+    queryKey: ["/api/search/suggest", debouncedQuery],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/search/suggest?q=${encodeURIComponent(debouncedQuery)}`);
+      return res.json();
+    },
+    enabled: open && debouncedQuery.length > 0,
+    staleTime: 30 * 1000,
+    placeholderData: keepPreviousData,
+  });
+
+  const trimmed = query.trim();
+  // With an empty box every recent search is offered; otherwise only those it starts
+  const matchingRecent = trimmed
+    ? recentSearches
+        .filter(s => s.toLowerCase().startsWith(trimmed.toLowerCase()) && s !== trimmed)
+        .slice(0, MAX_MATCHING_RECENT)
+    : recentSearches;
+  const visibleSuggestions = trimmed && suggestions ? suggestions : [];
+
+  const close = () => {
+    setOpen(false);
+    inputRef.current?.blur();
+  };
+
+  const runSearch = (text: string) => {
+    const value = text.trim();
+    if (!value) return;
+    setRecentSearches(addRecentSearch(value));
+    setQuery(value);
+    close();
+    navigate(`/search?q=${encodeURIComponent(value)}`);
+  };
+
+  const selectSuggestion = (suggestion: Suggestion) => {
+    if (suggestion.type === "channel" && suggestion.channelId !== null) {
+      close();
+      navigate(`/channel/${suggestion.channelId}`);
+    } else if (suggestion.type === "tag") {
+      close();
+      navigate(`/tag/${encodeURIComponent(suggestion.text)}`);
+    } else {
+      runSearch(suggestion.text);
+    }
+  };
+
+  const hasItems = !!trimmed || matchingRecent.length > 0;
+
+  return (
+    <Command
+      shouldFilter={false}
+      loop
+      className="relative overflow-visible bg-transparent"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") {
+          close();
+        }
+      }}
+    >
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <Search className="h-5 w-5 text-gray-400" />
+        </div>
+        <CommandPrimitive.Input
+          ref={inputRef}
+          className="flex h-10 w-full pl-10 pr-3 py-2 border border-gray-300 rounded-md leading-5 bg-white placeholder-gray-500 focus:outline-none focus:placeholder-gray-400 focus:ring-1 focus:ring-brand-blue focus:border-brand-blue sm:text-sm"
+          placeholder="Search videos"
+          value={query}
+          onValueChange={(value) => {
+            setQuery(value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+        />
+      </div>
+
+      {open && hasItems && (
+        <CommandList
+          className="absolute top-full z-50 mt-1 w-full rounded-md border bg-popover shadow-md"
+          // Keep focus in the input so clicking an item doesn't close the list first
+          onMouseDown={(e) => e.preventDefault()}
+        >
+          {trimmed && (
+            <CommandGroup>
+              <CommandItem value={`search:${trimmed}`} onSelect={() => runSearch(trimmed)}>
+                <Search className="mr-2 h-4 w-4 text-gray-400" />
+                <span className="truncate">{trimmed}</span>
+              </CommandItem>
+            </CommandGroup>
+          )}
+
+          {matchingRecent.length > 0 && (
+            <CommandGroup heading={trimmed ? undefined : "Recent searches"}>
+              {matchingRecent.map((recent) => (
+                <CommandItem key={recent} value={`recent:${recent}`} onSelect={() => runSearch(recent)}>
+                  <Clock className="mr-2 h-4 w-4 text-gray-400" />
+                  <span className="flex-1 truncate">{recent}</span>
+                  <button
+                    type="button"
+                    className="ml-2 text-gray-400 hover:text-gray-700"
+                    aria-label={`Remove ${recent} from recent searches`}
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      setRecentSearches(removeRecentSearch(recent));
+                    }}
+                  >
+                    <X className="h-3 w-3" />
+                  </button>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+
+          {visibleSuggestions.length > 0 && (
+            <CommandGroup>
+              {visibleSuggestions.map((suggestion) => {
+                const Icon = SUGGESTION_ICONS[suggestion.type];
+                return (
+                  <CommandItem
+                    key={`${suggestion.type}:${suggestion.channelId ?? suggestion.text}`}
+                    value={`${suggestion.type}:${suggestion.channelId ?? suggestion.text}`}
+                    onSelect={() => selectSuggestion(suggestion)}
+                  >
+                    <Icon className="mr-2 h-4 w-4 text-gray-400" />
+                    <span className="truncate">{suggestion.text}</span>
+                  </CommandItem>
+                );
+              })}
+            </CommandGroup>
+          )}
+        </CommandList>
+      )}
+    </Command>
+  );
+}
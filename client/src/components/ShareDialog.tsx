@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Video, ShareLink } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+
+// UI Components
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Copy, Plus, Ban, Lock } from "lucide-react";
+
+interface ShareDialogProps {
+  video: Video;
+  // Uploaders and admins can manage share links
+  canManage: boolean;
+  isOpen: boolean;
+  setIsOpen: (open: boolean) => void;
+}
+
+const getShareStatus = (share: ShareLink) => {
+  if (share.revokedAt) return "Revoked";
+  if (share.expiresAt && new Date(share.expiresAt) < new Date()) return "Expired";
+  if (share.maxViews !== null && share.views >= share.maxViews) return "View limit reached";
+  return "Active";
+};
+
+export default function ShareDialog({ video, canManage, isOpen, setIsOpen }: ShareDialogProps) {
+  const { toast } = useToast();
+  const [expiresInDays, setExpiresInDays] = useState("");
+  const [password, setPassword] = useState("");
+  const [maxViews, setMaxViews] = useState("");
+  const sharesUrl = `/api/videos/${video.id}/shares`;
+
+  const { data: shares, isLoading: sharesLoading } = useQuery<ShareLink[]>({
+    queryKey: [sharesUrl],
+    enabled: isOpen && canManage,
+  });
+
+  const copyLink = (path: string) => {
+    navigator.clipboard.writeText(`${window.location.origin}${path}`).then(() => {
+      toast({
+        title: "Copied",
+        description: "Link copied to clipboard.",
+      });
+    });
+  };
+
+  // Create share link mutation
+  const createShareMutation = useMutation({
+    mutationFn: async () => {
+      const days = parseInt(expiresInDays);
+      const views = parseInt(maxViews);
+      const res = await apiRequest("POST", sharesUrl, {
+        ...(days > 0 ? { expiresInDays: days } : {}),
+        ...(views > 0 ? { maxViews: views } : {}),
+        ...(password ? { password } : {}),
+      });
+      return res.json() as Promise<ShareLink>;
+    },
+    onSuccess: (share) => {
+      queryClient.invalidateQueries({ queryKey: [sharesUrl] });
+      setExpiresInDays("");
+      setPassword("");
+      setMaxViews("");
+      copyLink(`/s/${share.token}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to create share link.",
+      });
+    },
+  });
+
+  // Revoke share link mutation
+  const revokeShareMutation = useMutation({
+    mutationFn: (shareId: number) => {
+      return apiRequest("DELETE", `${sharesUrl}/${shareId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [sharesUrl] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to revoke share link.",
+      });
+    },
+  });
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setIsOpen}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>Share</DialogTitle>
+          <DialogDescription>
+            {video.visibility === "private"
+              ? "This video is private. Create a share link to let others watch it."
+              : "Anyone with the link can watch this video."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {video.visibility !== "private" && (
+          <div className="flex space-x-2">
+            <Input readOnly value={`${window.location.origin}/video/${video.id}`} />
+            <Button variant="outline" onClick={() => copyLink(`/video/${video.id}`)}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+          </div>
+        )}
+
+        {canManage && (
+          <div className="space-y-4">
+            <h3 className="text-sm font-semibold">Shared links</h3>
+
+            <div className="grid grid-cols-3 gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="share-expiry" className="text-xs">Expires in days</Label>
+                <Input
+                  id="share-expiry"
+                  type="number"
+                  min={1}
+                  placeholder="Never"
+                  value={expiresInDays}
+                  onChange={(e) => setExpiresInDays(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="share-views" className="text-xs">View limit</Label>
+                <Input
+                  id="share-views"
+                  type="number"
+                  min={1}
+                  placeholder="Unlimited"
+                  value={maxViews}
+                  onChange={(e) => setMaxViews(e.target.value)}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="share-password" className="text-xs">Password</Label>
+                <Input
+                  id="share-password"
+                  type="password"
+                  placeholder="None"
+                  value={password}
+                  onChange={(e) => setPassword(e.target.value)}
+                />
+              </div>
+            </div>
+            <Button
+              onClick={() => createShareMutation.mutate()}
+              disabled={createShareMutation.isPending}
+            >
+              <Plus className="mr-2 h-4 w-4" />
+              Create Link
+            </Button>
+
+            <div className="max-h-64 overflow-y-auto divide-y rounded-md border">
+              {sharesLoading ? (
+                <p className="p-3 text-sm text-gray-500">Loading share links...</p>
+              ) : shares && shares.length > 0 ? (
+                shares.map((share) => {
+                  const status = getShareStatus(share);
+                  return (
+                    <div key={share.id} className="flex items-center justify-between p-3 text-sm">
+                      <div className="min-w-0">
+                        <div className="font-mono truncate flex items-center">
+                          {share.hasPassword && <Lock className="mr-1 h-3 w-3 flex-shrink-0" />}
+                          /s/{share.token}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {status} • {share.views}{share.maxViews !== null ? ` / ${share.maxViews}` : ""} views
+                          {share.expiresAt && ` • Expires ${format(new Date(share.expiresAt), "PP")}`}
+                        </div>
+                      </div>
+                      <div className="flex space-x-1 flex-shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => copyLink(`/s/${share.token}`)}
+                          disabled={status !== "Active"}
+                        >
+                          <Copy className="h-4 w-4" />
+                          <span className="sr-only">Copy link</span>
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => revokeShareMutation.mutate(share.id)}
+                          disabled={!!share.revokedAt || revokeShareMutation.isPending}
+                        >
+                          <Ban className="h-4 w-4 text-red-500" />
+                          <span className="sr-only">Revoke</span>
+                        </Button>
+                      </div>
+                    </div>
+                  );
+                })
+              ) : (
+                <p className="p-3 text-sm text-gray-500">No share links yet</p>
+              )}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
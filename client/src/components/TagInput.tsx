@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { MAX_TAGS_PER_VIDEO, tagNameSchema } from "@shared/schema";
+import { Badge } from "@/components/ui/badge";
+import { X } from "lucide-react";
+
+interface TagInputProps {
+  value: string[];
+  onChange: (tags: string[]) => void;
+}
+
+// Tags are added with Enter or a comma and removed with their x, or with
+// Backspace in an empty input
+export default function TagInput({ value, onChange }: TagInputProps) {
+  const [draft, setDraft] = useState("");
+  const [error, setError] = useState<string | null>(null);
+
+  const addTag = (text: string) => {
+    if (!text.trim()) return;
+    const parsed = tagNameSchema.safeParse(text);
+    if (!parsed.success) {
+      setError(parsed.error.errors[0].message);
+      return;
+    }
+    if (value.length >= MAX_TAGS_PER_VIDEO) {
+      setError(`A video can have at most ${MAX_TAGS_PER_VIDEO} tags`);
+      return;
+    }
+    if (!value.includes(parsed.data)) {
+      onChange([...value, parsed.data]);
+    }
+    setDraft("");
+    setError(null);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === "Backspace" && !draft && value.length > 0) {
+      onChange(value.slice(0, -1));
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-wrap items-center gap-1 rounded-md border border-input bg-background px-2 py-1.5 focus-within:ring-2 focus-within:ring-ring focus-within:ring-offset-2">
+        {value.map((tag) => (
+          <Badge key={tag} variant="secondary" className="gap-1">
+            {tag}
+            <button
+              type="button"
+              aria-label={`Remove tag ${tag}`}
+              onClick={() => onChange(value.filter((t) => t !== tag))}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+        <input
+          className="flex-1 min-w-[8rem] bg-transparent py-0.5 text-sm outline-none placeholder:text-muted-foreground"
+          placeholder={value.length === 0 ? "Add tags, separated by commas" : ""}
+          value={draft}
+          onChange={(e) => {
+            setDraft(e.target.value);
+            setError(null);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => addTag(draft)}
+        />
+      </div>
+      {error && <p className="mt-1 text-sm font-medium text-destructive">{error}</p>}
+    </div>
+  );
+}
@@ -1,12 +1,27 @@
-import { useState, useRef } from "react";
+import { useState, useRef, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
-import { insertVideoSchema, DEFAULT_CATEGORIES, embedVideoSchema } from "@shared/schema";
+import { insertVideoSchema, Category, embedVideoSchema, MAX_UPLOAD_SIZE, Upload as UploadSession } from "@shared/schema";
 import { useAuth } from "@/context/AuthContext";
+import VisibilitySelect from "@/components/VisibilitySelect";
+import TagInput from "@/components/TagInput";
+import { formatFileSize } from "@/lib/media";
+import {
+  PendingUpload,
+  getFileFingerprint,
+  getPendingUploads,
+  savePendingUpload,
+  removePendingUpload,
+  createUpload,
+  getUpload,
+  completeUpload,
+  cancelUpload,
+  uploadRemainingChunks,
+} from "@/lib/uploads";
 
 // UI Components
 import {
@@ -37,12 +52,12 @@ import {
 } from "@/components/ui/select";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { Upload, Link as LinkIcon } from "lucide-react";
+import { Upload, Link as LinkIcon, Pause, Play, X } from "lucide-react";
 
 // Form validation schemas
 const uploadFormSchema = insertVideoSchema.extend({
   file: z.instanceof(File, { message: "Please select a video file" })
-    .refine(file => file.size <= 500 * 1024 * 1024, {
+    .refine(file => file.size <= MAX_UPLOAD_SIZE, {
       message: "File size must be less than 500MB",
     })
     .refine(file => {
@@ -58,6 +73,9 @@ const embedFormSchema = embedVideoSchema;
 type UploadFormValues = z.infer<typeof uploadFormSchema>;
 type EmbedFormValues = z.infer<typeof embedFormSchema>;
 
+// Thrown when the user abandons a paused upload; not reported as a failure
+class UploadCancelledError extends Error {}
+
 interface UploadModalProps {
   isOpen: boolean;
   setIsOpen: (open: boolean) => void;
@@ -67,11 +85,23 @@ export default function UploadModal({ isOpen, setIsOpen }: UploadModalProps) {
   const { toast } = useToast();
   const { user } = useAuth();
   const [uploadProgress, setUploadProgress] = useState(0);
+  const [uploadedBytes, setUploadedBytes] = useState(0);
   const [isUploading, setIsUploading] = useState(false);
+  const [isPaused, setIsPaused] = useState(false);
+  const [pendingUploads, setPendingUploads] = useState<PendingUpload[]>([]);
+  // Server session of an unfinished upload matching the selected file
+  const [resumeSession, setResumeSession] = useState<UploadSession | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const resumeRef = useRef<(() => void) | null>(null);
+  const cancelledRef = useRef(false);
   const [activeTab, setActiveTab] = useState<"upload" | "embed">("upload");
   const [thumbnailPreview, setThumbnailPreview] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
   // Initialize upload form
   const uploadForm = useForm<UploadFormValues>({
     resolver: zodResolver(uploadFormSchema),
@@ -79,6 +109,8 @@ export default function UploadModal({ isOpen, setIsOpen }: UploadModalProps) {
       title: "",
       description: "",
       category: "",
+      visibility: "public",
+      tags: [],
       fileName: "",
       filePath: "",
       uploaderId: user?.id || 0,
@@ -92,89 +124,165 @@ export default function UploadModal({ isOpen, setIsOpen }: UploadModalProps) {
       title: "",
       description: "",
       category: "",
+      visibility: "public",
+      tags: [],
       embedUrl: "",
       isEmbedded: true,
       uploaderId: user?.id || 0,
     },
   });
 
+  // Unfinished uploads from earlier visits
+  useEffect(() => {
+    if (isOpen) {
+      setPendingUploads(getPendingUploads());
+    }
+  }, [isOpen]);
+
+  // Set the selected file, generate a preview and look for an unfinished
+  // upload of the same file to resume
+  const selectFile = async (file: File) => {
+    uploadForm.setValue("file", file, { shouldValidate: true });
+    uploadForm.setValue("fileName", file.name);
+
+    // Generate a thumbnail preview
+    const videoUrl = URL.createObjectURL(file);
+    const video = document.createElement("video");
+    video.src = videoUrl;
+    video.currentTime = 2; // Seek to 2 seconds
+    video.addEventListener("loadeddata", () => {
+      const canvas = document.createElement("canvas");
+      canvas.width = video.videoWidth;
+      canvas.height = video.videoHeight;
+      const ctx = canvas.getContext("2d");
+      ctx?.drawImage(video, 0, 0, canvas.width, canvas.height);
+      setThumbnailPreview(canvas.toDataURL());
+      URL.revokeObjectURL(videoUrl);
+    });
+
+    setResumeSession(null);
+    const pending = getPendingUploads().find(p => p.fingerprint === getFileFingerprint(file));
+    if (!pending) return;
+
+    try {
+      const session = await getUpload(pending.uploadId);
+      if (!session) {
+        removePendingUpload(pending.uploadId);
+        setPendingUploads(getPendingUploads());
+        return;
+      }
+
+      setResumeSession(session);
+      setUploadedBytes(session.offset);
+      setUploadProgress(Math.floor((session.offset / session.size) * 100));
+      uploadForm.setValue("title", pending.videoData.title, { shouldValidate: true });
+      uploadForm.setValue("description", pending.videoData.description ?? "");
+      uploadForm.setValue("category", pending.videoData.category ?? "");
+      uploadForm.setValue("visibility", pending.videoData.visibility ?? "public");
+      uploadForm.setValue("tags", pending.videoData.tags ?? []);
+    } catch {
+      // Start a fresh upload if the old session can't be checked
+    }
+  };
+
   // Handle file input change
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = e.target.files;
     if (files && files.length > 0) {
-      uploadForm.setValue("file", files[0], { shouldValidate: true });
-      uploadForm.setValue("fileName", files[0].name);
-      
-      // Generate a thumbnail preview
-      const videoUrl = URL.createObjectURL(files[0]);
-      const video = document.createElement("video");
-      video.src = videoUrl;
-      video.currentTime = 2; // Seek to 2 seconds
-      video.addEventListener("loadeddata", () => {
-        const canvas = document.createElement("canvas");
-        canvas.width = video.videoWidth;
-        canvas.height = video.videoHeight;
-        const ctx = canvas.getContext("2d");
-        ctx?.drawImage(video, 0, 0, canvas.width, canvas.height);
-        setThumbnailPreview(canvas.toDataURL());
-        URL.revokeObjectURL(videoUrl);
-      });
+      selectFile(files[0]);
     }
   };
 
-  // Upload file mutation
+  const discardPendingUpload = (pending: PendingUpload) => {
+    cancelUpload(pending.uploadId).catch(() => {});
+    removePendingUpload(pending.uploadId);
+    setPendingUploads(getPendingUploads());
+  };
+
+  const pauseUpload = () => {
+    abortRef.current?.abort();
+  };
+
+  const resumeUpload = () => {
+    resumeRef.current?.();
+  };
+
+  // Stop a paused upload and throw away what was sent so far
+  const abandonUpload = () => {
+    cancelledRef.current = true;
+    resumeRef.current?.();
+  };
+
+  // Upload file mutation. Chunks are sent to a resumable upload session, so
+  // pausing or a dropped connection only loses the chunk in flight.
   const uploadFileMutation = useMutation({
     mutationFn: async (data: UploadFormValues) => {
       setIsUploading(true);
-      setUploadProgress(0);
-      
-      const formData = new FormData();
-      formData.append("file", data.file);
+      setIsPaused(false);
+      cancelledRef.current = false;
 
-      // Add video metadata as JSON
+      const file = data.file;
       const videoData = {
         title: data.title,
         description: data.description,
         category: data.category,
-        fileName: data.fileName,
-        uploaderId: user?.id,
+        visibility: data.visibility,
+        tags: data.tags,
       };
-      formData.append("videoData", JSON.stringify(videoData));
-
-      // Simulate upload progress
-      const progressInterval = setInterval(() => {
-        setUploadProgress(prev => {
-          if (prev >= 95) {
-            clearInterval(progressInterval);
-            return 95;
-          }
-          return prev + 5;
-        });
-      }, 300);
 
       try {
-        const response = await fetch("/api/videos", {
-          method: "POST",
-          body: formData,
-          credentials: "include",
+        let session = resumeSession ?? await createUpload(file, videoData);
+        savePendingUpload({
+          uploadId: session.id,
+          fingerprint: getFileFingerprint(file),
+          fileName: file.name,
+          size: file.size,
+          videoData,
         });
 
-        clearInterval(progressInterval);
-        setUploadProgress(100);
+        const onProgress = (bytes: number) => {
+          setUploadedBytes(bytes);
+          setUploadProgress(Math.floor((bytes / file.size) * 100));
+        };
 
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.message || "Failed to upload video");
+        while (true) {
+          const controller = new AbortController();
+          abortRef.current = controller;
+
+          try {
+            await uploadRemainingChunks(session, file, controller.signal, onProgress);
+            break;
+          } catch (error) {
+            if (!controller.signal.aborted) throw error;
+          }
+
+          // Paused: wait for the user to resume or abandon the upload
+          setIsPaused(true);
+          await new Promise<void>(resolve => { resumeRef.current = resolve; });
+          setIsPaused(false);
+
+          if (cancelledRef.current) {
+            await cancelUpload(session.id);
+            removePendingUpload(session.id);
+            throw new UploadCancelledError();
+          }
+
+          const current = await getUpload(session.id);
+          if (!current) {
+            removePendingUpload(session.id);
+            throw new Error("The upload expired. Please start again.");
+          }
+          session = current;
         }
 
-        return await response.json();
-      } catch (error) {
-        clearInterval(progressInterval);
-        throw error;
+        const video = await completeUpload(session.id);
+        removePendingUpload(session.id);
+        return video;
       } finally {
-        setTimeout(() => {
-          setIsUploading(false);
-        }, 1000);
+        abortRef.current = null;
+        resumeRef.current = null;
+        setIsPaused(false);
+        setIsUploading(false);
       }
     },
     onSuccess: () => {
@@ -182,12 +290,22 @@ export default function UploadModal({ isOpen, setIsOpen }: UploadModalProps) {
       setIsOpen(false);
       uploadForm.reset();
       setThumbnailPreview("");
+      setResumeSession(null);
+      setUploadProgress(0);
+      setUploadedBytes(0);
       toast({
         title: "Success",
         description: "Video uploaded successfully",
       });
     },
     onError: (error: Error) => {
+      setResumeSession(null);
+      setUploadProgress(0);
+      setUploadedBytes(0);
+      setPendingUploads(getPendingUploads());
+      if (error instanceof UploadCancelledError) {
+        return;
+      }
       toast({
         variant: "destructive",
         title: "Upload failed",
@@ -287,23 +405,7 @@ export default function UploadModal({ isOpen, setIsOpen }: UploadModalProps) {
     if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
       const file = e.dataTransfer.files[0];
       if (file.type.startsWith('video/')) {
-        uploadForm.setValue("file", file, { shouldValidate: true });
-        uploadForm.setValue("fileName", file.name);
-        
-        // Generate thumbnail preview
-        const videoUrl = URL.createObjectURL(file);
-        const video = document.createElement("video");
-        video.src = videoUrl;
-        video.currentTime = 2; // Seek to 2 seconds
-        video.addEventListener("loadeddata", () => {
-          const canvas = document.createElement("canvas");
-          canvas.width = video.videoWidth;
-          canvas.height = video.videoHeight;
-          const ctx = canvas.getContext("2d");
-          ctx?.drawImage(video, 0, 0, canvas.width, canvas.height);
-          setThumbnailPreview(canvas.toDataURL());
-          URL.revokeObjectURL(videoUrl);
-        });
+        selectFile(file);
       }
     }
   };
@@ -315,7 +417,9 @@ export default function UploadModal({ isOpen, setIsOpen }: UploadModalProps) {
       uploadForm.reset();
       embedForm.reset();
       setThumbnailPreview("");
+      setResumeSession(null);
       setUploadProgress(0);
+      setUploadedBytes(0);
     }
   };
 
@@ -346,46 +450,104 @@ export default function UploadModal({ isOpen, setIsOpen }: UploadModalProps) {
             <Form {...uploadForm}>
               <form onSubmit={uploadForm.handleSubmit(onUploadSubmit)} className="space-y-6">
                 {!uploadForm.watch("file") ? (
-                  <div
-                    className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-300 border-dashed rounded-md cursor-pointer"
-                    onDragOver={handleDragOver}
-                    onDrop={handleDrop}
-                    onClick={() => fileInputRef.current?.click()}
-                  >
-                    <div className="space-y-1 text-center">
-                      <Upload className="mx-auto h-12 w-12 text-gray-400" />
-                      <div className="flex text-sm text-gray-600">
-                        <label
-                          htmlFor="file-upload"
-                          className="relative cursor-pointer bg-white rounded-md font-medium text-primary hover:text-primary/90 focus-within:outline-none"
-                        >
-                          <span>Upload a file</span>
-                          <input
-                            id="file-upload"
-                            name="file-upload"
-                            type="file"
-                            className="sr-only"
-                            ref={fileInputRef}
-                            onChange={handleFileChange}
-                            accept="video/mp4,video/webm,video/quicktime"
-                          />
-                        </label>
-                        <p className="pl-1">or drag and drop</p>
+                  <>
+                    {pendingUploads.length > 0 && (
+                      <div className="rounded-md border p-3 space-y-2">
+                        <p className="text-sm font-medium">Unfinished uploads</p>
+                        <p className="text-xs text-gray-500">
+                          Select the same file again to resume uploading it.
+                        </p>
+                        {pendingUploads.map((pending) => (
+                          <div key={pending.uploadId} className="flex items-center justify-between text-sm">
+                            <span className="truncate mr-2">
+                              {pending.fileName} ({formatFileSize(pending.size)})
+                            </span>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => discardPendingUpload(pending)}
+                            >
+                              <X className="h-4 w-4" />
+                              <span className="sr-only">Discard</span>
+                            </Button>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <div
+                      className="mt-1 flex justify-center px-6 pt-5 pb-6 border-2 border-gray-300 border-dashed rounded-md cursor-pointer"
+                      onDragOver={handleDragOver}
+                      onDrop={handleDrop}
+                      onClick={() => fileInputRef.current?.click()}
+                    >
+                      <div className="space-y-1 text-center">
+                        <Upload className="mx-auto h-12 w-12 text-gray-400" />
+                        <div className="flex text-sm text-gray-600">
+                          <label
+                            htmlFor="file-upload"
+                            className="relative cursor-pointer bg-white rounded-md font-medium text-primary hover:text-primary/90 focus-within:outline-none"
+                          >
+                            <span>Upload a file</span>
+                            <input
+                              id="file-upload"
+                              name="file-upload"
+                              type="file"
+                              className="sr-only"
+                              ref={fileInputRef}
+                              onChange={handleFileChange}
+                              accept="video/mp4,video/webm,video/quicktime"
+                            />
+                          </label>
+                          <p className="pl-1">or drag and drop</p>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          MP4, WebM, MOV up to 500MB
+                        </p>
                       </div>
-                      <p className="text-xs text-gray-500">
-                        MP4, WebM, MOV up to 500MB
-                      </p>
                     </div>
-                  </div>
+                  </>
                 ) : (
                   <>
                     {isUploading ? (
                       <div className="space-y-2">
                         <div className="flex justify-between text-sm">
-                          <span>Uploading {uploadForm.watch("fileName")}</span>
+                          <span className="truncate mr-2">
+                            {isPaused ? "Paused" : "Uploading"} {uploadForm.watch("fileName")}
+                          </span>
                           <span>{uploadProgress}%</span>
                         </div>
                         <Progress value={uploadProgress} className="h-2" />
+                        <div className="flex justify-between items-center">
+                          <span className="text-xs text-gray-500">
+                            {formatFileSize(uploadedBytes)} of {formatFileSize(uploadForm.watch("file")?.size ?? 0)}
+                          </span>
+                          <div className="flex space-x-2">
+                            {isPaused ? (
+                              <>
+                                <Button type="button" variant="outline" size="sm" onClick={abandonUpload}>
+                                  <X className="mr-1 h-4 w-4" />
+                                  Cancel
+                                </Button>
+                                <Button type="button" size="sm" onClick={resumeUpload}>
+                                  <Play className="mr-1 h-4 w-4" />
+                                  Resume
+                                </Button>
+                              </>
+                            ) : (
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={pauseUpload}
+                                disabled={uploadProgress >= 100}
+                              >
+                                <Pause className="mr-1 h-4 w-4" />
+                                Pause
+                              </Button>
+                            )}
+                          </div>
+                        </div>
                       </div>
                     ) : (
                       <div className="space-y-4">
@@ -414,12 +576,20 @@ export default function UploadModal({ isOpen, setIsOpen }: UploadModalProps) {
                                 uploadForm.setValue("file", undefined as any);
                                 uploadForm.setValue("fileName", "");
                                 setThumbnailPreview("");
+                                setResumeSession(null);
                               }}
                             >
                               Change file
                             </button>
                           </div>
                         </div>
+
+                        {resumeSession && (
+                          <p className="text-sm text-gray-600 bg-gray-50 rounded-md p-3">
+                            {formatFileSize(resumeSession.offset)} of this file was already uploaded.
+                            Publishing will continue where it left off.
+                          </p>
+                        )}
                         
                         <FormField
                           control={uploadForm.control}
@@ -470,9 +640,9 @@ export default function UploadModal({ isOpen, setIsOpen }: UploadModalProps) {
                                   </SelectTrigger>
                                 </FormControl>
                                 <SelectContent>
-                                  {DEFAULT_CATEGORIES.filter(cat => cat !== "All").map((category) => (
-                                    <SelectItem key={category} value={category}>
-                                      {category}
+                                  {categories?.map((category) => (
+                                    <SelectItem key={category.id} value={category.name}>
+                                      {category.name}
                                     </SelectItem>
                                   ))}
                                 </SelectContent>
@@ -481,6 +651,34 @@ export default function UploadModal({ isOpen, setIsOpen }: UploadModalProps) {
                             </FormItem>
                           )}
                         />
+
+                        <FormField
+                          control={uploadForm.control}
+                          name="tags"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Tags</FormLabel>
+                              <FormControl>
+                                <TagInput value={field.value ?? []} onChange={field.onChange} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+
+                        <FormField
+                          control={uploadForm.control}
+                          name="visibility"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Visibility</FormLabel>
+                              <FormControl>
+                                <VisibilitySelect value={field.value ?? "public"} onChange={field.onChange} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
                       </div>
                     )}
                   </>
@@ -580,9 +778,9 @@ export default function UploadModal({ isOpen, setIsOpen }: UploadModalProps) {
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {DEFAULT_CATEGORIES.filter(cat => cat !== "All").map((category) => (
-                            <SelectItem key={category} value={category}>
-                              {category}
+                          {categories?.map((category) => (
+                            <SelectItem key={category.id} value={category.name}>
+                              {category.name}
                             </SelectItem>
                           ))}
                         </SelectContent>
@@ -592,6 +790,34 @@ export default function UploadModal({ isOpen, setIsOpen }: UploadModalProps) {
                   )}
                 />
 
+                <FormField
+                  control={embedForm.control}
+                  name="tags"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Tags</FormLabel>
+                      <FormControl>
+                        <TagInput value={field.value ?? []} onChange={field.onChange} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={embedForm.control}
+                  name="visibility"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Visibility</FormLabel>
+                      <FormControl>
+                        <VisibilitySelect value={field.value ?? "public"} onChange={field.onChange} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <DialogFooter>
                   <Button
                     type="button"
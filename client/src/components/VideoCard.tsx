@@ -1,10 +1,13 @@
 import { Link } from "wouter";
 import { Video } from "@shared/schema";
 import { formatDistanceToNow } from "date-fns";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { useQuery } from "@tanstack/react-query";
-import { User } from "@shared/schema";
+import { PublicProfile } from "@shared/schema";
 import { Skeleton } from "@/components/ui/skeleton";
+import { getThumbnailUrl, formatDuration } from "@/lib/media";
+import { getWatchedFraction } from "@/lib/watchProgress";
+import { useWatchProgress } from "@/hooks/use-watch-progress";
 
 interface VideoCardProps {
   video: Video;
@@ -27,15 +30,18 @@ export default function VideoCard({ video }: VideoCardProps) {
   };
 
   // Get uploader info
-  const { data: uploader, isLoading: uploaderLoading } = useQuery<User>({
+  const { data: uploader, isLoading: uploaderLoading } = useQuery<PublicProfile>({
     queryKey: [`/api/users/${video.uploaderId}`],
     enabled: !!video.uploaderId,
   });
 
-  // Calculate video duration display (in a real app, this would come from the backend)
+  const getProgress = useWatchProgress();
+  const watched = getWatchedFraction(getProgress(video.id));
+
+  // Duration is probed from the file after upload, so it may not be known yet
   const videoDuration = video.duration 
-    ? new Date(video.duration * 1000).toISOString().substr(14, 5) // MM:SS format
-    : "00:00";
+    ? formatDuration(video.duration)
+    : "0:00";
 
   return (
     <Link href={`/video/${video.id}`}>
@@ -44,12 +50,17 @@ export default function VideoCard({ video }: VideoCardProps) {
           {/* Use a placeholder or video thumbnail */}
           <img 
             className="object-cover w-full h-full" 
-            src={video.thumbnailPath || `https://picsum.photos/seed/${video.id}/800/450`} 
+            src={getThumbnailUrl(video) || `https://picsum.photos/seed/${video.id}/800/450`} 
             alt={`${video.title} thumbnail`} 
           />
           <div className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-1 py-0.5 rounded">
             {videoDuration}
           </div>
+          {watched > 0 && (
+            <div className="absolute bottom-0 inset-x-0 h-1 bg-gray-300/70">
+              <div className="h-full bg-red-600" style={{ width: `${watched * 100}%` }} />
+            </div>
+          )}
         </div>
         <div className="mt-2">
           <div className="flex items-start">
@@ -58,6 +69,7 @@ export default function VideoCard({ video }: VideoCardProps) {
                 <Skeleton className="h-8 w-8 rounded-full" />
               ) : (
                 <Avatar className="h-8 w-8">
+                  {uploader?.avatarUrl && <AvatarImage src={uploader.avatarUrl} alt={uploader.username} />}
                   <AvatarFallback>
                     {uploader?.username.charAt(0).toUpperCase() || 'U'}
                   </AvatarFallback>
@@ -69,7 +81,7 @@ export default function VideoCard({ video }: VideoCardProps) {
                 {video.title}
               </h3>
               <p className="text-xs text-gray-500 mt-1">
-                {uploader?.username || "User"}
+                {uploader?.displayName || uploader?.username || "User"}
               </p>
               <p className="text-xs text-gray-500">
                 {formatViews(video.views)} views • {formatDate(video.uploadDate)}
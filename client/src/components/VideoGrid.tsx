@@ -1,40 +1,84 @@
-import { useState, useEffect } from "react";
-import { useQuery } from "@tanstack/react-query";
+import { useEffect, useRef } from "react";
+import { useInfiniteQuery } from "@tanstack/react-query";
 import VideoCard from "./VideoCard";
-import { Video } from "@shared/schema";
+import { TagMatch, VideoListPage, VideoSort } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 
 interface VideoGridProps {
   category?: string;
+  tags?: string[];
+  tagMatch?: TagMatch;
   searchQuery?: string;
+  uploaderId?: number;
+  sort?: VideoSort;
 }
 
-export default function VideoGrid({ category, searchQuery }: VideoGridProps) {
+const VIDEOS_PER_PAGE = 12;
+
+export default function VideoGrid({ category, tags, tagMatch, searchQuery, uploaderId, sort = "newest" }: VideoGridProps) {
   const { toast } = useToast();
-  const [page, setPage] = useState(1);
-  const videosPerPage = 8;
+  const loadMoreRef = useRef<HTMLDivElement>(null);
 
   // Build query string
   const queryString = new URLSearchParams();
   if (category && category !== "All") {
     queryString.append("category", category);
   }
+  if (tags?.length) {
+    queryString.append("tag", tags.join(","));
+  }
+  if (tagMatch) {
+    queryString.append("tagMatch", tagMatch);
+  }
   if (searchQuery) {
     queryString.append("search", searchQuery);
   }
-  
-  const apiUrl = `/api/videos${queryString.toString() ? `?${queryString.toString()}` : ''}`;
+  if (uploaderId) {
+    queryString.append("uploader", uploaderId.toString());
+  }
+  queryString.append("sort", sort);
+  queryString.append("limit", VIDEOS_PER_PAGE.toString());
 
-  const { data: videos, isLoading, error } = useQuery<Video[]>({
-    queryKey: [apiUrl],
+  // Keyed under "/api/videos" so invalidating that refreshes every listing
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/videos", queryString.toString()],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams(queryString);
+      if (pageParam) {
+        params.append("cursor", pageParam);
+      }
+      const res = await apiRequest("GET", `/api/videos?${params.toString()}`);
+      return res.json() as Promise<VideoListPage>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
   });
 
-  // Reset page when category or search changes
+  const videos = data?.pages.flatMap((page) => page.videos);
+
+  // Load the next page as soon as the end of the grid scrolls into view
   useEffect(() => {
-    setPage(1);
-  }, [category, searchQuery]);
+    const sentinel = loadMoreRef.current;
+    if (!sentinel || !hasNextPage) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting && !isFetchingNextPage) {
+        fetchNextPage();
+      }
+    }, { rootMargin: "400px" });
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasNextPage, isFetchingNextPage, fetchNextPage]);
 
   if (error) {
     toast({
@@ -44,10 +88,6 @@ export default function VideoGrid({ category, searchQuery }: VideoGridProps) {
     });
   }
 
-  // Paginate videos
-  const displayedVideos = videos ? videos.slice(0, page * videosPerPage) : [];
-  const hasMore = videos ? videos.length > page * videosPerPage : false;
-
   // Loading skeleton
   if (isLoading) {
     return (
@@ -75,10 +115,12 @@ export default function VideoGrid({ category, searchQuery }: VideoGridProps) {
         <h3 className="text-lg font-medium text-gray-900">No videos found</h3>
         <p className="mt-2 text-sm text-gray-500">
           {searchQuery 
-            ? `No videos matching "${searchQuery}"` 
+            ? `No videos matching "${searchQuery}"${category && category !== "All" ? ` in ${category}` : ""}` 
             : category 
               ? `No videos in the ${category} category` 
-              : "No videos uploaded yet"}
+              : uploaderId
+                ? "This channel hasn't uploaded any videos yet"
+                : "No videos uploaded yet"}
         </p>
       </div>
     );
@@ -87,19 +129,20 @@ export default function VideoGrid({ category, searchQuery }: VideoGridProps) {
   return (
     <>
       <div className="grid grid-cols-1 gap-y-8 gap-x-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
-        {displayedVideos.map((video) => (
+        {videos?.map((video) => (
           <VideoCard key={video.id} video={video} />
         ))}
       </div>
 
-      {hasMore && (
-        <div className="mt-12 flex justify-center">
+      {hasNextPage && (
+        <div ref={loadMoreRef} className="mt-12 flex justify-center">
           <Button
             variant="outline"
-            onClick={() => setPage((p) => p + 1)}
+            onClick={() => fetchNextPage()}
+            disabled={isFetchingNextPage}
             className="px-4 py-2 bg-slate-100 hover:bg-slate-200 rounded-md text-slate-800 font-medium"
           >
-            Load More
+            {isFetchingNextPage ? "Loading..." : "Load More"}
           </Button>
         </div>
       )}
@@ -1,17 +1,50 @@
-import { useState, useRef, useEffect } from "react";
-import { Video } from "@shared/schema";
-import { Play, Pause, Volume2, VolumeX, Maximize, X } from "lucide-react";
+import { useState, useRef, useEffect, useCallback } from "react";
+import { Video, StreamSource, TrafficSource, CaptionTrack } from "@shared/schema";
+import Hls from "hls.js";
+import { Play, Pause, Volume2, VolumeX, Maximize, X, Settings, Captions } from "lucide-react";
 import { Slider } from "@/components/ui/slider";
-import { apiRequest } from "@/lib/queryClient";
 import { useMutation, useQuery } from "@tanstack/react-query";
+import { getThumbnailUrl } from "@/lib/media";
+import { useViewHeartbeat } from "@/hooks/use-view-heartbeat";
+
+// Refresh signed stream URLs this long before they expire
+const STREAM_REFRESH_MARGIN_MS = 60 * 1000;
+// Report watch progress at most this often while playing
+const PROGRESS_INTERVAL_SECONDS = 10;
 
 interface VideoPlayerProps {
   video: Video;
+  // Signed URLs for uploaded videos; null for embedded ones
+  stream: StreamSource | null;
+  // Fetches freshly signed URLs before the current ones expire
+  refreshStream?: () => Promise<StreamSource | null | undefined>;
+  // Start playing as soon as the video loads, e.g. when a playlist advances
+  autoPlay?: boolean;
+  // Called when an uploaded video plays to the end. Embedded players don't report it.
+  onEnded?: () => void;
+  // Offer to pick up from this position instead of the start
+  resumeAt?: number | null;
+  // Called periodically with how far playback got. Embedded players can't
+  // be tracked, so they report (0, 0) once when they load.
+  onProgress?: (position: number, duration: number) => void;
+  // How the viewer reached the video, when the page knows better than the player
+  viewSource?: TrafficSource;
   onClose?: () => void;
 }
 
-export default function VideoPlayer({ video, onClose }: VideoPlayerProps) {
+// Swap the signed token in a stream URL for the current one
+const withToken = (url: string, source: StreamSource) => {
+  const token = new URL(source.url, window.location.origin).searchParams.get("token");
+  const target = new URL(url, window.location.origin);
+  if (token) {
+    target.searchParams.set("token", token);
+  }
+  return target.toString();
+};
+
+export default function VideoPlayer({ video, stream, refreshStream, autoPlay, onEnded, resumeAt, onProgress, viewSource, onClose }: VideoPlayerProps) {
   const [isPlaying, setIsPlaying] = useState(false);
+  const [hasStarted, setHasStarted] = useState(false);
   const [volume, setVolume] = useState(1);
   const [isMuted, setIsMuted] = useState(false);
   const [progress, setProgress] = useState(0);
@@ -20,9 +53,26 @@ export default function VideoPlayer({ video, onClose }: VideoPlayerProps) {
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [showControls, setShowControls] = useState(true);
   const [embedUrl, setEmbedUrl] = useState<string | null>(null);
+  const [qualities, setQualities] = useState<{ level: number; label: string }[]>([]);
+  const [currentQuality, setCurrentQuality] = useState(-1); // -1 = automatic
+  const [showQualityMenu, setShowQualityMenu] = useState(false);
+  // Language of the caption track being shown, null when captions are off
+  const [captionLanguage, setCaptionLanguage] = useState<string | null>(null);
+  const [showCaptionMenu, setShowCaptionMenu] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
+  const hlsRef = useRef<Hls | null>(null);
+  const streamRef = useRef(stream);
+  const [streamExpiresAt, setStreamExpiresAt] = useState(stream ? new Date(stream.expiresAt).getTime() : null);
+  // Which source the <video> element is playing when hls.js isn't driving it
+  const elementSourceRef = useRef<"original" | "hls" | null>(null);
   const playerRef = useRef<HTMLDivElement>(null);
   const controlsTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  useViewHeartbeat(video.id, video.isEmbedded ? !!embedUrl : isPlaying, viewSource);
+  const onProgressRef = useRef(onProgress);
+  onProgressRef.current = onProgress;
+  // Latest playback position, kept outside the element so it survives teardown
+  const positionRef = useRef({ position: 0, duration: 0, reported: 0 });
+  const hasStartedRef = useRef(false);
   
   // Fetch embed URL if this is an embedded video
   const { data: embedData } = useQuery({
@@ -41,19 +91,159 @@ export default function VideoPlayer({ video, onClose }: VideoPlayerProps) {
     refetchOnWindowFocus: false
   });
   
+  const { data: captionTracks = [] } = useQuery<CaptionTrack[]>({
+    queryKey: [`/api/videos/${video.id}/captions`],
+    enabled: !video.isEmbedded,
+  });
+
   // Handle successful embed URL fetch
   useEffect(() => {
     if (embedData?.embedUrl) {
       setEmbedUrl(embedData.embedUrl);
-      
-      // Update view count for embedded videos
-      if (!sessionStorage.getItem(`video-${video.id}-viewed`)) {
-        apiRequest('POST', `/api/videos/${video.id}/views`);
-        sessionStorage.setItem(`video-${video.id}-viewed`, 'true');
-      }
+      onProgressRef.current?.(0, 0);
     }
   }, [embedData, video.id]);
 
+  // Attach the adaptive HLS stream once transcoding is done, otherwise play the original upload
+  useEffect(() => {
+    const element = videoRef.current;
+    const source = streamRef.current;
+    if (!element || video.isEmbedded || !source) return;
+
+    const playOriginal = () => {
+      elementSourceRef.current = "original";
+      element.src = streamRef.current?.url ?? source.url;
+    };
+
+    setQualities([]);
+    setCurrentQuality(-1);
+
+    if (video.status !== "ready" || !source.hlsUrl) {
+      playOriginal();
+      return;
+    }
+
+    if (Hls.isSupported()) {
+      // Playlists and segments are fetched with whichever token is current,
+      // so refreshed URLs take effect without reloading the stream
+      const hls = new Hls({
+        xhrSetup: (xhr, url) => {
+          xhr.open("GET", streamRef.current ? withToken(url, streamRef.current) : url, true);
+        },
+      });
+      hlsRef.current = hls;
+      elementSourceRef.current = null;
+
+      hls.on(Hls.Events.MANIFEST_PARSED, (_event, data) => {
+        setQualities(data.levels.map((level, index) => ({ level: index, label: `${level.height}p` })));
+      });
+
+      // Fall back to the original file if the HLS stream can't be played
+      hls.on(Hls.Events.ERROR, (_event, data) => {
+        if (data.fatal) {
+          hls.destroy();
+          hlsRef.current = null;
+          setQualities([]);
+          playOriginal();
+        }
+      });
+
+      hls.loadSource(source.hlsUrl);
+      hls.attachMedia(element);
+
+      return () => {
+        hls.destroy();
+        hlsRef.current = null;
+      };
+    }
+
+    // Safari plays HLS natively but doesn't expose renditions for manual selection
+    if (element.canPlayType("application/vnd.apple.mpegurl")) {
+      elementSourceRef.current = "hls";
+      element.src = source.hlsUrl;
+    } else {
+      playOriginal();
+    }
+  }, [video.id, video.status, video.isEmbedded, !!stream]);
+
+  // Switch the <video> element to freshly signed URLs, keeping its position
+  const applyStream = useCallback((source: StreamSource) => {
+    streamRef.current = source;
+    setStreamExpiresAt(new Date(source.expiresAt).getTime());
+    const element = videoRef.current;
+    if (!element || hlsRef.current || !elementSourceRef.current) return;
+
+    const nextSrc = elementSourceRef.current === "hls" && source.hlsUrl ? source.hlsUrl : source.url;
+    const { currentTime, paused } = element;
+    element.src = nextSrc;
+    element.addEventListener("loadedmetadata", () => {
+      element.currentTime = currentTime;
+      if (!paused) {
+        element.play().catch(() => {});
+      }
+    }, { once: true });
+  }, []);
+
+  const renewStream = useCallback(async () => {
+    if (!refreshStream) return;
+    try {
+      const source = await refreshStream();
+      if (source) {
+        applyStream(source);
+      }
+    } catch (error) {
+      console.error("Failed to refresh stream URL", error);
+    }
+  }, [refreshStream, applyStream]);
+
+  // Pick up URLs the parent re-fetched on its own
+  useEffect(() => {
+    if (stream && stream.url !== streamRef.current?.url) {
+      applyStream(stream);
+    }
+  }, [stream, applyStream]);
+
+  // Refresh the signed URLs shortly before they expire
+  useEffect(() => {
+    if (streamExpiresAt === null || !refreshStream) return;
+
+    const delay = streamExpiresAt - Date.now() - STREAM_REFRESH_MARGIN_MS;
+    const timeout = setTimeout(renewStream, Math.max(delay, 5000));
+    return () => clearTimeout(timeout);
+  }, [streamExpiresAt, refreshStream, renewStream]);
+
+  // A timer delayed by a sleeping tab can let the URL lapse; renew it on playback errors
+  const handleError = () => {
+    const source = streamRef.current;
+    if (source && new Date(source.expiresAt).getTime() <= Date.now()) {
+      renewStream();
+    }
+  };
+
+  const selectQuality = (level: number) => {
+    if (hlsRef.current) {
+      hlsRef.current.currentLevel = level;
+    }
+    setCurrentQuality(level);
+    setShowQualityMenu(false);
+  };
+
+  // Show the chosen <track>; disabled tracks aren't even downloaded
+  useEffect(() => {
+    const element = videoRef.current;
+    if (!element) return;
+
+    const textTracks = element.textTracks;
+    for (let i = 0; i < textTracks.length; i++) {
+      textTracks[i].mode = textTracks[i].language === captionLanguage ? "showing" : "disabled";
+    }
+  }, [captionLanguage, captionTracks]);
+
+  const selectCaptions = (language: string | null) => {
+    setCaptionLanguage(language);
+    setShowCaptionMenu(false);
+  };
+
   // Format time as MM:SS
   const formatTime = (time: number) => {
     const minutes = Math.floor(time / 60);
@@ -61,18 +251,45 @@ export default function VideoPlayer({ video, onClose }: VideoPlayerProps) {
     return `${minutes}:${seconds < 10 ? '0' : ''}${seconds}`;
   };
 
-  // Update view count when video starts playing
+  // Only report once playback has begun, so merely opening a video
+  // doesn't overwrite where the viewer got to last time
+  const reportProgress = useCallback(() => {
+    if (!hasStartedRef.current) return;
+    const current = positionRef.current;
+    current.reported = current.position;
+    onProgressRef.current?.(current.position, current.duration);
+  }, []);
+
+  // Save progress when leaving the page or moving on to another video
+  useEffect(() => {
+    window.addEventListener("pagehide", reportProgress);
+    return () => {
+      window.removeEventListener("pagehide", reportProgress);
+      reportProgress();
+    };
+  }, [reportProgress]);
+
+  const startPlayback = (position: number) => {
+    if (videoRef.current) {
+      videoRef.current.currentTime = position;
+      videoRef.current.play();
+    }
+  };
+
   const handlePlay = () => {
     setIsPlaying(true);
-    // Only update view count once per session
-    if (!sessionStorage.getItem(`video-${video.id}-viewed`)) {
-      apiRequest('POST', `/api/videos/${video.id}/views`);
-      sessionStorage.setItem(`video-${video.id}-viewed`, 'true');
-    }
+    setHasStarted(true);
+    hasStartedRef.current = true;
   };
 
   const handlePause = () => {
     setIsPlaying(false);
+    reportProgress();
+  };
+
+  const handleEnded = () => {
+    setIsPlaying(false);
+    onEnded?.();
   };
 
   const togglePlay = () => {
@@ -105,6 +322,13 @@ export default function VideoPlayer({ video, onClose }: VideoPlayerProps) {
     if (videoRef.current) {
       setCurrentTime(videoRef.current.currentTime);
       setProgress((videoRef.current.currentTime / videoRef.current.duration) * 100);
+
+      const current = positionRef.current;
+      current.position = videoRef.current.currentTime;
+      current.duration = Number.isFinite(videoRef.current.duration) ? videoRef.current.duration : 0;
+      if (!videoRef.current.paused && Math.abs(current.position - current.reported) >= PROGRESS_INTERVAL_SECONDS) {
+        reportProgress();
+      }
     }
   };
 
@@ -218,14 +442,26 @@ export default function VideoPlayer({ video, onClose }: VideoPlayerProps) {
       <video
         ref={videoRef}
         className="w-full h-full"
-        src={`/api/stream/${video.id}`}
-        poster={video.thumbnailPath || undefined}
+        poster={getThumbnailUrl(video)}
+        autoPlay={autoPlay}
         onPlay={handlePlay}
         onPause={handlePause}
+        onEnded={handleEnded}
         onTimeUpdate={handleTimeUpdate}
         onLoadedMetadata={handleLoadedMetadata}
+        onError={handleError}
         onClick={togglePlay}
-      />
+      >
+        {captionTracks.map((track) => (
+          <track
+            key={track.language}
+            kind="subtitles"
+            src={`/api/videos/${video.id}/captions/${track.language}`}
+            srcLang={track.language}
+            label={track.label}
+          />
+        ))}
+      </video>
       
       {/* Custom Video Controls */}
       <div 
@@ -295,15 +531,93 @@ export default function VideoPlayer({ video, onClose }: VideoPlayerProps) {
               </div>
             </div>
             
-            <button
-              onClick={toggleFullscreen}
-              className="text-white p-1 hover:bg-white/20 rounded-full"
-            >
-              <Maximize className="h-5 w-5" />
-            </button>
+            <div className="flex items-center space-x-2">
+              {captionTracks.length > 0 && (
+                <div className="relative">
+                  <button
+                    onClick={() => {
+                      setShowCaptionMenu(!showCaptionMenu);
+                      setShowQualityMenu(false);
+                    }}
+                    className={`p-1 hover:bg-white/20 rounded-full ${captionLanguage ? "text-brand-blue" : "text-white"}`}
+                  >
+                    <Captions className="h-5 w-5" />
+                  </button>
+                  {showCaptionMenu && (
+                    <div className="absolute bottom-10 right-0 bg-black/90 rounded-md py-1 min-w-[7rem] text-sm">
+                      {[{ language: null, label: "Off" }, ...captionTracks].map((track) => (
+                        <button
+                          key={track.language ?? "off"}
+                          onClick={() => selectCaptions(track.language)}
+                          className={`block w-full text-left px-3 py-1 whitespace-nowrap hover:bg-white/20 ${captionLanguage === track.language ? "text-brand-blue font-medium" : "text-white"}`}
+                        >
+                          {track.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {qualities.length > 0 && (
+                <div className="relative">
+                  <button
+                    onClick={() => {
+                      setShowQualityMenu(!showQualityMenu);
+                      setShowCaptionMenu(false);
+                    }}
+                    className="text-white p-1 hover:bg-white/20 rounded-full"
+                  >
+                    <Settings className="h-5 w-5" />
+                  </button>
+                  {showQualityMenu && (
+                    <div className="absolute bottom-10 right-0 bg-black/90 rounded-md py-1 min-w-[7rem] text-sm">
+                      {[{ level: -1, label: "Auto" }, ...[...qualities].reverse()].map((quality) => (
+                        <button
+                          key={quality.level}
+                          onClick={() => selectQuality(quality.level)}
+                          className={`block w-full text-left px-3 py-1 hover:bg-white/20 ${currentQuality === quality.level ? "text-brand-blue font-medium" : "text-white"}`}
+                        >
+                          {quality.label}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+              
+              <button
+                onClick={toggleFullscreen}
+                className="text-white p-1 hover:bg-white/20 rounded-full"
+              >
+                <Maximize className="h-5 w-5" />
+              </button>
+            </div>
           </div>
         </div>
       </div>
+
+      {resumeAt != null && !hasStarted && (
+        <div className="absolute inset-0 flex items-center justify-center bg-black/50">
+          <div className="flex flex-col items-center space-y-3 text-white">
+            <p className="text-sm">You stopped at {formatTime(resumeAt)}</p>
+            <div className="flex space-x-2">
+              <button
+                onClick={() => startPlayback(resumeAt)}
+                className="px-3 py-1.5 rounded-md bg-white text-gray-900 text-sm font-medium hover:bg-gray-200"
+              >
+                Resume
+              </button>
+              <button
+                onClick={() => startPlayback(0)}
+                className="px-3 py-1.5 rounded-md border border-white/70 text-sm font-medium hover:bg-white/20"
+              >
+                Start over
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
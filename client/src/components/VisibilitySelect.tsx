@@ -0,0 +1,36 @@
+import { VideoVisibility } from "@shared/schema";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const VISIBILITY_OPTIONS: { value: VideoVisibility; label: string; description: string }[] = [
+  { value: "public", label: "Public", description: "Anyone can find and watch" },
+  { value: "unlisted", label: "Unlisted", description: "Anyone with the link can watch" },
+  { value: "private", label: "Private", description: "Only you can watch" },
+];
+
+interface VisibilitySelectProps {
+  value: VideoVisibility;
+  onChange: (value: VideoVisibility) => void;
+}
+
+export default function VisibilitySelect({ value, onChange }: VisibilitySelectProps) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as VideoVisibility)}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {VISIBILITY_OPTIONS.map((option) => (
+          <SelectItem key={option.value} value={option.value}>
+            {option.label} - {option.description}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -6,12 +6,22 @@ interface User {
   id: number;
   username: string;
   isAdmin: boolean;
+  mustChangePassword?: boolean;
+}
+
+interface RegisterData {
+  username: string;
+  password: string;
+  confirmPassword: string;
+  inviteCode?: string;
 }
 
 interface AuthContextType {
   user: User | null;
   login: (username: string, password: string) => Promise<boolean>;
+  register: (data: RegisterData) => Promise<boolean>;
   logout: () => Promise<void>;
+  refreshUser: () => Promise<void>;
   isLoading: boolean;
 }
 
@@ -22,27 +32,23 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [isLoading, setIsLoading] = useState(true);
   const { toast } = useToast();
 
+  // Reload the signed-in user from the server
+  const refreshUser = async (): Promise<void> => {
+    try {
+      const response = await fetch("/api/auth/me", {
+        credentials: "include"
+      });
+      
+      const data = await response.json();
+      setUser(data.authenticated && data.user ? data.user : null);
+    } catch (error) {
+      console.error("Auth check failed:", error);
+    }
+  };
+
   // Check if user is already logged in on mount
   useEffect(() => {
-    const checkAuth = async () => {
-      try {
-        const response = await fetch("/api/auth/me", {
-          credentials: "include"
-        });
-        
-        const data = await response.json();
-        
-        if (data.authenticated && data.user) {
-          setUser(data.user);
-        }
-      } catch (error) {
-        console.error("Auth check failed:", error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-    
-    checkAuth();
+    refreshUser().finally(() => setIsLoading(false));
   }, []);
 
   // Login function
@@ -81,6 +87,39 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Register function
+  const register = async (data: RegisterData): Promise<boolean> => {
+    setIsLoading(true);
+    
+    try {
+      const response = await apiRequest("POST", "/api/auth/register", data);
+      
+      const userData = await response.json();
+      setUser(userData);
+      
+      toast({
+        title: "Account created",
+        description: `Welcome, ${userData.username}!`,
+      });
+      
+      return true;
+    } catch (error) {
+      console.error("Registration failed:", error);
+      
+      toast({
+        variant: "destructive",
+        title: "Registration failed",
+        description: error instanceof Error 
+          ? error.message 
+          : "Could not create your account. Please try again.",
+      });
+      
+      return false;
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
   // Logout function
   const logout = async (): Promise<void> => {
     setIsLoading(true);
@@ -107,7 +146,7 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, login, logout, isLoading }}>
+    <AuthContext.Provider value={{ user, login, register, logout, refreshUser, isLoading }}>
       {children}
     </AuthContext.Provider>
   );
@@ -0,0 +1,68 @@
+import { useEffect, useRef, useState } from "react";
+import { TrafficSource, VideoWithStream, ViewHeartbeat } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { takeTrafficSource } from "@/lib/trafficSource";
+
+const HEARTBEAT_INTERVAL_MS = 10 * 1000;
+
+// Reports a play to the server, which decides when it has been watched long
+// enough to count as a view. Embedded players can't report playback, so for
+// them "watching" means the embed is on screen.
+export function useViewHeartbeat(videoId: number, isWatching: boolean, source?: TrafficSource) {
+  // Worked out once, when the player mounts
+  const [trafficSource] = useState(() => source ?? takeTrafficSource());
+  const viewRef = useRef({ viewId: null as number | null, watchedMs: 0, counted: false, failed: false });
+
+  useEffect(() => {
+    const view = viewRef.current;
+    if (!isWatching || view.counted || view.failed) return;
+
+    const send = () => {
+      apiRequest("POST", `/api/videos/${videoId}/views`, {
+        viewId: view.viewId ?? undefined,
+        watchedSeconds: view.watchedMs / 1000,
+        source: trafficSource,
+      })
+        .then((res) => res.json() as Promise<ViewHeartbeat>)
+        .then((heartbeat) => {
+          view.viewId = heartbeat.viewId;
+          if (heartbeat.counted && !view.counted) {
+            view.counted = true;
+            queryClient.setQueryData<VideoWithStream>([`/api/videos/${videoId}`], (video) =>
+              video && { ...video, views: heartbeat.views },
+            );
+          }
+        })
+        // Rate limited or the video went away; stop reporting this play
+        .catch(() => {
+          view.failed = true;
+        });
+    };
+
+    let lastTick = Date.now();
+    const tick = () => {
+      const now = Date.now();
+      view.watchedMs += now - lastTick;
+      lastTick = now;
+    };
+
+    if (view.viewId === null) {
+      send();
+    }
+    const interval = setInterval(() => {
+      tick();
+      if (view.viewId !== null && !view.counted && !view.failed) {
+        send();
+      }
+    }, HEARTBEAT_INTERVAL_MS);
+
+    // Report the time watched since the last heartbeat when playback stops
+    return () => {
+      clearInterval(interval);
+      tick();
+      if (view.viewId !== null && !view.counted && !view.failed) {
+        send();
+      }
+    };
+  }, [videoId, isWatching, trafficSource]);
+}
@@ -0,0 +1,43 @@
+import { useCallback } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { WatchProgress } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getLocalProgress, saveLocalProgress } from "@/lib/watchProgress";
+import { useAuth } from "@/context/AuthContext";
+
+const PROGRESS_URL = "/api/users/me/progress";
+
+// Looks up how far the viewer got in a video. Signed-in viewers' progress
+// comes from the server; everyone else's from this device.
+export function useWatchProgress() {
+  const { user } = useAuth();
+  const { data } = useQuery<WatchProgress[]>({
+    queryKey: [PROGRESS_URL],
+    enabled: !!user,
+  });
+
+  const entries = user ? data : getLocalProgress();
+  return (videoId: number) => entries?.find((entry) => entry.videoId === videoId);
+}
+
+export function useSaveWatchProgress() {
+  const { user } = useAuth();
+
+  return useCallback((videoId: number, position: number, duration: number) => {
+    if (!user) {
+      saveLocalProgress(videoId, position, duration);
+      return;
+    }
+
+    apiRequest("PUT", `/api/videos/${videoId}/progress`, { position, duration })
+      .then((res) => res.json() as Promise<WatchProgress>)
+      .then((progress) => {
+        queryClient.setQueryData<WatchProgress[]>([PROGRESS_URL], (entries) =>
+          entries && [progress, ...entries.filter((entry) => entry.videoId !== videoId)],
+        );
+        queryClient.invalidateQueries({ queryKey: ["/api/users/me/history"] });
+      })
+      // Losing one progress update isn't worth interrupting playback over
+      .catch(() => {});
+  }, [user]);
+}
@@ -0,0 +1,41 @@
+import { Video } from "@shared/schema";
+
+// Thumbnails are served by the API; the file name changes whenever a new one
+// is generated, so it doubles as a cache buster.
+export function getThumbnailUrl(video: Video): string | undefined {
+  if (!video.thumbnailPath) {
+    return undefined;
+  }
+  const version = video.thumbnailPath.split(/[\\/]/).pop();
+  return `/api/thumbnails/${video.id}?v=${encodeURIComponent(version || "")}`;
+}
+
+// Format seconds as M:SS, or H:MM:SS for videos an hour or longer
+export function formatDuration(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = Math.floor(totalSeconds % 60);
+  const paddedSeconds = seconds.toString().padStart(2, "0");
+
+  if (hours > 0) {
+    return `${hours}:${minutes.toString().padStart(2, "0")}:${paddedSeconds}`;
+  }
+  return `${minutes}:${paddedSeconds}`;
+}
+
+export function formatBitrate(bitsPerSecond: number): string {
+  if (bitsPerSecond >= 1000000) {
+    return `${(bitsPerSecond / 1000000).toFixed(1)} Mbps`;
+  }
+  return `${Math.round(bitsPerSecond / 1000)} kbps`;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes >= 1024 * 1024 * 1024) {
+    return `${(bytes / (1024 * 1024 * 1024)).toFixed(1)} GB`;
+  }
+  if (bytes >= 1024 * 1024) {
+    return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  }
+  return `${Math.round(bytes / 1024)} KB`;
+}
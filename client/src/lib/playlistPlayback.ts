@@ -0,0 +1,72 @@
+import { Video } from "@shared/schema";
+
+// Playing a playlist is described entirely by the video URL,
+// e.g. /video/12?list=3&shuffle=81234&loop=1, so it survives moving
+// from one video to the next and can be shared.
+export interface PlaybackOptions {
+  playlistId: number;
+  // Seeds the shuffled order so it stays the same from video to video
+  shuffleSeed: number | null;
+  loop: boolean;
+}
+
+export function parsePlaybackOptions(search: string): PlaybackOptions | null {
+  const params = new URLSearchParams(search);
+  const playlistId = parseInt(params.get("list") ?? "");
+  if (!(playlistId > 0)) return null;
+
+  const shuffleSeed = parseInt(params.get("shuffle") ?? "");
+  return {
+    playlistId,
+    shuffleSeed: Number.isNaN(shuffleSeed) ? null : shuffleSeed,
+    loop: params.get("loop") === "1",
+  };
+}
+
+export function playbackUrl(videoId: number, options: PlaybackOptions): string {
+  const params = new URLSearchParams({ list: options.playlistId.toString() });
+  if (options.shuffleSeed !== null) {
+    params.set("shuffle", options.shuffleSeed.toString());
+  }
+  if (options.loop) {
+    params.set("loop", "1");
+  }
+  return `/video/${videoId}?${params.toString()}`;
+}
+
+export function newShuffleSeed(): number {
+  return Math.floor(Math.random() * 1000000);
+}
+
+// Small seeded PRNG (mulberry32); Math.random can't replay an order
+function seededRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// The playlist's videos in the order they will play
+export function playbackOrder(videos: Video[], shuffleSeed: number | null): Video[] {
+  if (shuffleSeed === null) return videos;
+
+  const random = seededRandom(shuffleSeed);
+  const order = [...videos];
+  for (let i = order.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [order[i], order[j]] = [order[j], order[i]];
+  }
+  return order;
+}
+
+// What plays after the current video: null at the end unless looping
+export function nextInOrder(order: Video[], currentId: number, loop: boolean): Video | null {
+  const index = order.findIndex((video) => video.id === currentId);
+  if (index === -1) return order[0] ?? null;
+  if (index < order.length - 1) return order[index + 1];
+  return loop && order.length > 0 ? order[0] : null;
+}
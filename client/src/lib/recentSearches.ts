@@ -0,0 +1,30 @@
+const RECENT_SEARCHES_KEY = "videoshare:recent-searches";
+const MAX_RECENT_SEARCHES = 8;
+
+// Most recent first. Kept in localStorage, so they stay on this device.
+export function getRecentSearches(): string[] {
+  try {
+    const searches = JSON.parse(localStorage.getItem(RECENT_SEARCHES_KEY) || "[]");
+    return Array.isArray(searches) ? searches.filter((s): s is string => typeof s === "string") : [];
+  } catch {
+    return [];
+  }
+}
+
+export function addRecentSearch(query: string): string[] {
+  const trimmed = query.trim();
+  const others = getRecentSearches().filter(s => s.toLowerCase() !== trimmed.toLowerCase());
+  const searches = trimmed ? [trimmed, ...others].slice(0, MAX_RECENT_SEARCHES) : others;
+  localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(searches));
+  return searches;
+}
+
+export function removeRecentSearch(query: string): string[] {
+  const searches = getRecentSearches().filter(s => s !== query);
+  localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(searches));
+  return searches;
+}
+
+export function clearRecentSearches(): void {
+  localStorage.removeItem(RECENT_SEARCHES_KEY);
+}
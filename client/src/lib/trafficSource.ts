@@ -0,0 +1,17 @@
+import { TrafficSource } from "@shared/schema";
+
+// Set by links that lead to a video, e.g. search results, and picked up by the
+// next player that mounts
+let nextSource: TrafficSource | null = null;
+
+export function markTrafficSource(source: TrafficSource) {
+  nextSource = source;
+}
+
+// How the viewer reached the video now being played. A player framed by
+// another site is always an embed.
+export function takeTrafficSource(): TrafficSource {
+  const source = window.self !== window.top ? "embed" : nextSource ?? "direct";
+  nextSource = null;
+  return source;
+}
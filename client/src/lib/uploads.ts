@@ -0,0 +1,166 @@
+import { Upload, UploadVideoData, Video } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+export const CHUNK_SIZE = 5 * 1024 * 1024;
+
+const PENDING_UPLOADS_KEY = "videoshare:pending-uploads";
+
+// Remembered in localStorage so an upload can be resumed after a reload,
+// once the user picks the same file again
+export interface PendingUpload {
+  uploadId: string;
+  fingerprint: string;
+  fileName: string;
+  size: number;
+  videoData: UploadVideoData;
+}
+
+// Identifies a local file well enough to match it to an unfinished upload
+export function getFileFingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+export function getPendingUploads(): PendingUpload[] {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_UPLOADS_KEY) || "[]");
+  } catch {
+    return [];
+  }
+}
+
+export function savePendingUpload(pending: PendingUpload): void {
+  const others = getPendingUploads().filter(p => p.uploadId !== pending.uploadId);
+  localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify([...others, pending]));
+}
+
+export function removePendingUpload(uploadId: string): void {
+  const remaining = getPendingUploads().filter(p => p.uploadId !== uploadId);
+  localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(remaining));
+}
+
+export async function createUpload(file: File, video: UploadVideoData): Promise<Upload> {
+  const res = await apiRequest("POST", "/api/uploads", {
+    fileName: file.name,
+    mimeType: file.type,
+    size: file.size,
+    video,
+  });
+  return res.json();
+}
+
+// Returns undefined when the session has expired or was cancelled
+export async function getUpload(uploadId: string): Promise<Upload | undefined> {
+  const res = await fetch(`/api/uploads/${uploadId}`, { credentials: "include" });
+  if (res.status === 404) return undefined;
+  if (!res.ok) throw new Error(`${res.status}: ${await res.text()}`);
+  return res.json();
+}
+
+export async function completeUpload(uploadId: string): Promise<Video> {
+  const res = await apiRequest("POST", `/api/uploads/${uploadId}/complete`);
+  return res.json();
+}
+
+export async function cancelUpload(uploadId: string): Promise<void> {
+  await apiRequest("DELETE", `/api/uploads/${uploadId}`);
+}
+
+// Checksums need SubtleCrypto, which browsers only expose on secure origins.
+// The server verifies the header when present.
+async function getChecksumHeader(chunk: Blob): Promise<Record<string, string>> {
+  if (!window.crypto?.subtle) return {};
+  const digest = await window.crypto.subtle.digest("SHA-256", await chunk.arrayBuffer());
+  const base64 = btoa(String.fromCharCode(...Array.from(new Uint8Array(digest))));
+  return { "Upload-Checksum": `sha256 ${base64}` };
+}
+
+export class UploadChunkError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+// Send one chunk with XHR so byte-level progress is reported while it is in flight
+function sendChunk(
+  uploadId: string,
+  offset: number,
+  chunk: Blob,
+  headers: Record<string, string>,
+  signal: AbortSignal,
+  onProgress: (loaded: number) => void,
+): Promise<Upload> {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PATCH", `/api/uploads/${uploadId}`);
+    xhr.withCredentials = true;
+    xhr.setRequestHeader("Content-Type", "application/offset+octet-stream");
+    xhr.setRequestHeader("Upload-Offset", offset.toString());
+    for (const [name, value] of Object.entries(headers)) {
+      xhr.setRequestHeader(name, value);
+    }
+
+    xhr.upload.onprogress = (event) => onProgress(event.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(JSON.parse(xhr.responseText));
+      } else {
+        let message = xhr.statusText;
+        try {
+          message = JSON.parse(xhr.responseText).message || message;
+        } catch {}
+        reject(new UploadChunkError(xhr.status, message));
+      }
+    };
+    xhr.onerror = () => reject(new UploadChunkError(0, "Network error"));
+    xhr.onabort = () => reject(new DOMException("Upload paused", "AbortError"));
+
+    signal.addEventListener("abort", () => xhr.abort(), { once: true });
+    xhr.send(chunk);
+  });
+}
+
+const MAX_CHUNK_RETRIES = 5;
+
+// Upload the rest of the file starting at the server's offset. Network errors
+// and checksum mismatches are retried with backoff; aborting the signal pauses.
+export async function uploadRemainingChunks(
+  upload: Upload,
+  file: File,
+  signal: AbortSignal,
+  onProgress: (bytesUploaded: number) => void,
+): Promise<void> {
+  let offset = upload.offset;
+  let failures = 0;
+  onProgress(offset);
+
+  while (offset < file.size) {
+    if (signal.aborted) {
+      throw new DOMException("Upload paused", "AbortError");
+    }
+    const chunk = file.slice(offset, offset + CHUNK_SIZE);
+
+    try {
+      const headers = await getChecksumHeader(chunk);
+      const updated = await sendChunk(upload.id, offset, chunk, headers, signal, (loaded) => {
+        onProgress(offset + loaded);
+      });
+      offset = updated.offset;
+      failures = 0;
+      onProgress(offset);
+    } catch (error) {
+      if (signal.aborted) throw error;
+
+      const retryable = !(error instanceof UploadChunkError) || error.status === 0 ||
+        error.status === 409 || error.status === 460 || error.status >= 500;
+      if (!retryable || ++failures > MAX_CHUNK_RETRIES) throw error;
+
+      await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** (failures - 1)));
+
+      // Resync with the server in case the chunk landed but the response was lost
+      const current = await getUpload(upload.id);
+      if (!current) throw new Error("Upload session expired");
+      offset = current.offset;
+      onProgress(offset);
+    }
+  }
+}
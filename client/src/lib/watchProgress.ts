@@ -0,0 +1,53 @@
+import { WatchProgress } from "@shared/schema";
+
+const WATCH_PROGRESS_KEY = "videoshare:watch-progress";
+const MAX_LOCAL_PROGRESS = 50;
+
+// Positions this close to either end aren't worth offering to resume from
+const RESUME_MIN_SECONDS = 10;
+const RESUME_END_MARGIN_SECONDS = 10;
+
+// Anonymous viewers' watch history, most recent first. Kept in localStorage,
+// so it stays on this device.
+export function getLocalProgress(): WatchProgress[] {
+  try {
+    const entries = JSON.parse(localStorage.getItem(WATCH_PROGRESS_KEY) || "[]");
+    return Array.isArray(entries)
+      ? entries.filter((e): e is WatchProgress =>
+          typeof e?.videoId === "number" && typeof e.position === "number" && typeof e.duration === "number")
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveLocalProgress(videoId: number, position: number, duration: number): WatchProgress[] {
+  const entry: WatchProgress = { videoId, position, duration, watchedAt: new Date() };
+  const entries = [entry, ...getLocalProgress().filter(e => e.videoId !== videoId)].slice(0, MAX_LOCAL_PROGRESS);
+  localStorage.setItem(WATCH_PROGRESS_KEY, JSON.stringify(entries));
+  return entries;
+}
+
+export function removeLocalProgress(videoId: number): WatchProgress[] {
+  const entries = getLocalProgress().filter(e => e.videoId !== videoId);
+  localStorage.setItem(WATCH_PROGRESS_KEY, JSON.stringify(entries));
+  return entries;
+}
+
+export function clearLocalProgress(): void {
+  localStorage.removeItem(WATCH_PROGRESS_KEY);
+}
+
+// Where to offer to pick up from, or null to start at the beginning
+export function getResumePosition(progress: Pick<WatchProgress, "position" | "duration"> | undefined): number | null {
+  if (!progress || progress.duration <= 0) return null;
+  if (progress.position < RESUME_MIN_SECONDS) return null;
+  if (progress.position > progress.duration - RESUME_END_MARGIN_SECONDS) return null;
+  return progress.position;
+}
+
+// How much of the video has been watched, from 0 to 1
+export function getWatchedFraction(progress: Pick<WatchProgress, "position" | "duration"> | undefined): number {
+  if (!progress || progress.duration <= 0) return 0;
+  return Math.min(progress.position / progress.duration, 1);
+}
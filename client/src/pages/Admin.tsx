@@ -1,17 +1,20 @@
 import { useState, useEffect } from "react";
-import { useLocation } from "wouter";
-import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useLocation } from "wouter";
+import { useQuery, useMutation, useInfiniteQuery } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
 import { queryClient } from "@/lib/queryClient";
-import { Video, User } from "@shared/schema";
+import { Video, SafeUser, Invite, SiteSettings, SignupPolicy, Job, JobStatus, JOB_STATUSES, ModeratedCommentPage, TagWithCount, Category, SiteAnalytics } from "@shared/schema";
 import { useAuth } from "@/context/AuthContext";
 import { apiRequest } from "@/lib/queryClient";
+import { formatDuration, formatBitrate } from "@/lib/media";
 import Header from "@/components/Header";
 import Footer from "@/components/Footer";
+import { PeriodSelect, ViewTotals, ViewsOverTimeChart, TrafficSourcesChart, DevicesChart } from "@/components/AnalyticsCharts";
 
 // UI Components
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import {
   Table,
   TableBody,
@@ -34,7 +37,18 @@ import {
   TabsList,
   TabsTrigger,
 } from "@/components/ui/tabs";
-import { Trash2, Edit, Eye, Search } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Switch } from "@/components/ui/switch";
+import { Trash2, Edit, Eye, Search, Copy, Plus, UserPlus, Shield, ShieldOff, Ban, UserCheck, KeyRound, RotateCcw, XCircle, GitMerge, ArrowUp, ArrowDown, FolderPlus, BarChart3 } from "lucide-react";
 
 export default function Admin() {
   const [location, navigate] = useLocation();
@@ -43,6 +57,27 @@ export default function Admin() {
   const [videoToDelete, setVideoToDelete] = useState<Video | null>(null);
   const [searchQuery, setSearchQuery] = useState("");
   const [filteredVideos, setFilteredVideos] = useState<Video[]>([]);
+  const [inviteExpiryDays, setInviteExpiryDays] = useState("");
+  const [jobStatusFilter, setJobStatusFilter] = useState<JobStatus | "all">("all");
+  const [commentStatusFilter, setCommentStatusFilter] = useState<"all" | "active" | "deleted">("all");
+  const [isCreateUserOpen, setIsCreateUserOpen] = useState(false);
+  const [newUser, setNewUser] = useState({ username: "", password: "", isAdmin: false });
+  const [userToReset, setUserToReset] = useState<SafeUser | null>(null);
+  const [temporaryPassword, setTemporaryPassword] = useState("");
+  const [userToDelete, setUserToDelete] = useState<SafeUser | null>(null);
+  const [videoHandling, setVideoHandling] = useState<"reassign" | "delete">("reassign");
+  const [reassignTo, setReassignTo] = useState("");
+  // Category being edited, or "new" while creating one
+  const [categoryToEdit, setCategoryToEdit] = useState<Category | "new" | null>(null);
+  const [categoryForm, setCategoryForm] = useState({ name: "", slug: "", description: "" });
+  const [categoryToDelete, setCategoryToDelete] = useState<Category | null>(null);
+  const [categoryReassignTo, setCategoryReassignTo] = useState("none");
+  const [tagToRename, setTagToRename] = useState<TagWithCount | null>(null);
+  const [newTagName, setNewTagName] = useState("");
+  const [tagToMerge, setTagToMerge] = useState<TagWithCount | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState("");
+  const [analyticsDays, setAnalyticsDays] = useState(28);
+  const [isRecountOpen, setIsRecountOpen] = useState(false);
 
   // Redirect if not logged in or not admin
   useEffect(() => {
@@ -71,11 +106,428 @@ export default function Admin() {
   const { 
     data: users, 
     isLoading: usersLoading 
-  } = useQuery<User[]>({
+  } = useQuery<SafeUser[]>({
     queryKey: ["/api/admin/users"],
     enabled: !!user?.isAdmin,
   });
 
+  // Shared error handler for user management mutations
+  const onUserMutationError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "User update failed.",
+    });
+  };
+
+  // Create user mutation
+  const createUserMutation = useMutation({
+    mutationFn: (data: typeof newUser) => {
+      return apiRequest("POST", "/api/admin/users", data);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      setIsCreateUserOpen(false);
+      setNewUser({ username: "", password: "", isAdmin: false });
+      toast({
+        title: "Success",
+        description: "User created successfully.",
+      });
+    },
+    onError: onUserMutationError,
+  });
+
+  // Promote, demote, disable or enable a user
+  const updateUserMutation = useMutation({
+    mutationFn: ({ id, updates }: { id: number; updates: { isAdmin?: boolean; isDisabled?: boolean } }) => {
+      return apiRequest("PATCH", `/api/admin/users/${id}`, updates);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+    },
+    onError: onUserMutationError,
+  });
+
+  // Force password reset mutation
+  const resetPasswordMutation = useMutation({
+    mutationFn: ({ id, password }: { id: number; password: string }) => {
+      return apiRequest("POST", `/api/admin/users/${id}/reset-password`, { temporaryPassword: password });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      setUserToReset(null);
+      setTemporaryPassword("");
+      toast({
+        title: "Success",
+        description: "The user must choose a new password at next login.",
+      });
+    },
+    onError: onUserMutationError,
+  });
+
+  // Delete user mutation
+  const deleteUserMutation = useMutation({
+    mutationFn: (id: number) => {
+      const params = new URLSearchParams({ videos: videoHandling });
+      if (videoHandling === "reassign") {
+        params.append("reassignTo", reassignTo);
+      }
+      return apiRequest("DELETE", `/api/admin/users/${id}?${params.toString()}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/videos"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
+      setUserToDelete(null);
+      setReassignTo("");
+      toast({
+        title: "Success",
+        description: "User deleted successfully.",
+      });
+    },
+    onError: onUserMutationError,
+  });
+
+  // Fetch site settings and invites
+  const { data: siteSettings } = useQuery<SiteSettings>({
+    queryKey: ["/api/admin/settings"],
+    enabled: !!user?.isAdmin,
+  });
+
+  const { 
+    data: invites, 
+    isLoading: invitesLoading 
+  } = useQuery<Invite[]>({
+    queryKey: ["/api/admin/invites"],
+    enabled: !!user?.isAdmin,
+  });
+
+  // Update sign-up policy mutation
+  const updateSettingsMutation = useMutation({
+    mutationFn: (settings: Partial<SiteSettings>) => {
+      return apiRequest("PUT", "/api/admin/settings", settings);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/settings"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/auth/registration"] });
+      toast({
+        title: "Success",
+        description: "Registration policy updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update settings.",
+      });
+    },
+  });
+
+  // Create invite mutation
+  const createInviteMutation = useMutation({
+    mutationFn: () => {
+      const days = parseInt(inviteExpiryDays);
+      return apiRequest("POST", "/api/admin/invites", days > 0 ? { expiresInDays: days } : {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invites"] });
+      setInviteExpiryDays("");
+      toast({
+        title: "Success",
+        description: "Invite created.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to create invite.",
+      });
+    },
+  });
+
+  // Delete invite mutation
+  const deleteInviteMutation = useMutation({
+    mutationFn: (inviteId: number) => {
+      return apiRequest("DELETE", `/api/admin/invites/${inviteId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invites"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to delete invite.",
+      });
+    },
+  });
+
+  // Fetch background jobs; polled so progress shows without reloading
+  const jobsUrl = jobStatusFilter === "all" ? "/api/admin/jobs" : `/api/admin/jobs?status=${jobStatusFilter}`;
+  const {
+    data: jobs,
+    isLoading: jobsLoading
+  } = useQuery<Job[]>({
+    queryKey: [jobsUrl],
+    enabled: !!user?.isAdmin,
+    refetchInterval: 5000,
+  });
+
+  // Retry or cancel job mutation
+  const jobActionMutation = useMutation({
+    mutationFn: ({ jobId, action }: { jobId: number; action: "retry" | "cancel" }) => {
+      return apiRequest("POST", `/api/admin/jobs/${jobId}/${action}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [jobsUrl] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update job.",
+      });
+    },
+  });
+
+  // Fetch the comment moderation queue a page at a time
+  const commentsUrl = commentStatusFilter === "all" ? "/api/admin/comments" : `/api/admin/comments?status=${commentStatusFilter}`;
+  const {
+    data: commentPages,
+    isLoading: commentsLoading,
+    fetchNextPage: fetchMoreComments,
+    hasNextPage: hasMoreComments,
+    isFetchingNextPage: fetchingMoreComments,
+  } = useInfiniteQuery({
+    queryKey: ["/api/admin/comments", commentStatusFilter],
+    queryFn: async ({ pageParam }) => {
+      const url = pageParam
+        ? `${commentsUrl}${commentsUrl.includes("?") ? "&" : "?"}cursor=${encodeURIComponent(pageParam)}`
+        : commentsUrl;
+      const res = await apiRequest("GET", url);
+      return res.json() as Promise<ModeratedCommentPage>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!user?.isAdmin,
+  });
+  const moderatedComments = commentPages?.pages.flatMap((page) => page.comments) ?? [];
+
+  // Delete or restore comment mutation
+  const commentActionMutation = useMutation({
+    mutationFn: ({ commentId, action }: { commentId: number; action: "delete" | "restore" }) => {
+      return action === "delete"
+        ? apiRequest("DELETE", `/api/comments/${commentId}`)
+        : apiRequest("POST", `/api/admin/comments/${commentId}/restore`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/comments"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update comment.",
+      });
+    },
+  });
+
+  // Fetch every category, hidden ones included
+  const {
+    data: adminCategories,
+    isLoading: categoriesLoading
+  } = useQuery<Category[]>({
+    queryKey: ["/api/admin/categories"],
+    enabled: !!user?.isAdmin,
+  });
+
+  const onCategoryMutationSuccess = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/categories"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/categories"] });
+  };
+
+  const onCategoryMutationError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "Category update failed.",
+    });
+  };
+
+  // Creates a category, or updates one when given its id. Blank slugs are
+  // left out so the server derives one from the name.
+  const saveCategoryMutation = useMutation({
+    mutationFn: ({ id, form }: { id?: number; form: typeof categoryForm }) => {
+      const data = {
+        name: form.name,
+        slug: form.slug.trim() || undefined,
+        description: id ? form.description.trim() || null : form.description.trim() || undefined,
+      };
+      return id
+        ? apiRequest("PATCH", `/api/admin/categories/${id}`, data)
+        : apiRequest("POST", "/api/admin/categories", data);
+    },
+    onSuccess: (_, { id }) => {
+      onCategoryMutationSuccess();
+      // A rename carries over to the category's videos
+      queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
+      setCategoryToEdit(null);
+      toast({
+        title: "Success",
+        description: id ? "Category updated successfully." : "Category created successfully.",
+      });
+    },
+    onError: onCategoryMutationError,
+  });
+
+  const setCategoryHiddenMutation = useMutation({
+    mutationFn: ({ id, hidden }: { id: number; hidden: boolean }) => {
+      return apiRequest("PATCH", `/api/admin/categories/${id}`, { hidden });
+    },
+    onSuccess: onCategoryMutationSuccess,
+    onError: onCategoryMutationError,
+  });
+
+  const reorderCategoriesMutation = useMutation({
+    mutationFn: (ids: number[]) => {
+      return apiRequest("PUT", "/api/admin/categories/order", { ids });
+    },
+    onSuccess: onCategoryMutationSuccess,
+    onError: onCategoryMutationError,
+  });
+
+  const deleteCategoryMutation = useMutation({
+    mutationFn: ({ id, reassignTo }: { id: number; reassignTo: string }) => {
+      const query = reassignTo === "none" ? "" : `?reassignTo=${reassignTo}`;
+      return apiRequest("DELETE", `/api/admin/categories/${id}${query}`);
+    },
+    onSuccess: () => {
+      onCategoryMutationSuccess();
+      queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
+      setCategoryToDelete(null);
+      toast({
+        title: "Success",
+        description: "Category deleted successfully.",
+      });
+    },
+    onError: onCategoryMutationError,
+  });
+
+  const openCategoryForm = (category: Category | "new") => {
+    setCategoryToEdit(category);
+    setCategoryForm(category === "new"
+      ? { name: "", slug: "", description: "" }
+      : { name: category.name, slug: category.slug, description: category.description || "" });
+  };
+
+  // Swap a category with its neighbour above (-1) or below (1)
+  const moveCategory = (index: number, offset: number) => {
+    if (!adminCategories) return;
+    const ids = adminCategories.map((category) => category.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderCategoriesMutation.mutate(ids);
+  };
+
+  // Fetch tags with their video counts
+  const {
+    data: tags,
+    isLoading: tagsLoading
+  } = useQuery<TagWithCount[]>({
+    queryKey: ["/api/admin/tags"],
+    enabled: !!user?.isAdmin,
+  });
+
+  const renameTagMutation = useMutation({
+    mutationFn: ({ id, name }: { id: number; name: string }) => {
+      return apiRequest("PATCH", `/api/admin/tags/${id}`, { name });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
+      toast({
+        title: "Success",
+        description: "Tag renamed successfully.",
+      });
+      setTagToRename(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to rename tag.",
+      });
+    },
+  });
+
+  const mergeTagMutation = useMutation({
+    mutationFn: ({ sourceId, targetId }: { sourceId: number; targetId: number }) => {
+      return apiRequest("POST", `/api/admin/tags/${sourceId}/merge`, { targetId });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/tags"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
+      toast({
+        title: "Success",
+        description: "Tags merged successfully.",
+      });
+      setTagToMerge(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to merge tags.",
+      });
+    },
+  });
+
+  // Site-wide view analytics for the selected period
+  const {
+    data: analytics,
+    isLoading: analyticsLoading
+  } = useQuery({
+    queryKey: ["/api/admin/analytics", { days: analyticsDays }],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/admin/analytics?days=${analyticsDays}`);
+      return res.json() as Promise<SiteAnalytics>;
+    },
+    enabled: !!user?.isAdmin,
+  });
+
+  const recountViewsMutation = useMutation({
+    mutationFn: () => {
+      return apiRequest("POST", "/api/admin/views/recount");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/videos"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/videos"] });
+      toast({
+        title: "Success",
+        description: "View counts recomputed successfully.",
+      });
+      setIsRecountOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to recompute view counts.",
+      });
+    },
+  });
+
+  const copyInviteLink = (invite: Invite) => {
+    const link = `${window.location.origin}/register?invite=${invite.code}`;
+    navigator.clipboard.writeText(link).then(() => {
+      toast({
+        title: "Copied",
+        description: "Invite link copied to clipboard.",
+      });
+    });
+  };
+
   // Delete video mutation
   const deleteVideoMutation = useMutation({
     mutationFn: (videoId: number) => {
@@ -143,6 +595,12 @@ export default function Admin() {
             <TabsList>
               <TabsTrigger value="videos">Videos</TabsTrigger>
               <TabsTrigger value="users">Users</TabsTrigger>
+              <TabsTrigger value="registration">Registration</TabsTrigger>
+              <TabsTrigger value="jobs">Jobs</TabsTrigger>
+              <TabsTrigger value="comments">Comments</TabsTrigger>
+              <TabsTrigger value="categories">Categories</TabsTrigger>
+              <TabsTrigger value="tags">Tags</TabsTrigger>
+              <TabsTrigger value="analytics">Analytics</TabsTrigger>
             </TabsList>
             
             <TabsContent value="videos" className="space-y-4">
@@ -171,6 +629,8 @@ export default function Admin() {
                       <TableHead>Category</TableHead>
                       <TableHead>Uploader ID</TableHead>
                       <TableHead>Upload Date</TableHead>
+                      <TableHead>Duration</TableHead>
+                      <TableHead>Media</TableHead>
                       <TableHead>Views</TableHead>
                       <TableHead>Actions</TableHead>
                     </TableRow>
@@ -178,7 +638,7 @@ export default function Admin() {
                   <TableBody>
                     {videosLoading ? (
                       <TableRow>
-                        <TableCell colSpan={7} className="text-center py-4">
+                        <TableCell colSpan={9} className="text-center py-4">
                           Loading videos...
                         </TableCell>
                       </TableRow>
@@ -188,10 +648,37 @@ export default function Admin() {
                           <TableCell>{video.id}</TableCell>
                           <TableCell className="max-w-xs truncate">
                             {video.title}
+                            {video.visibility !== "public" && (
+                              <span className="ml-2 text-xs text-gray-500 capitalize">({video.visibility})</span>
+                            )}
                           </TableCell>
                           <TableCell>{video.category || "Uncategorized"}</TableCell>
                           <TableCell>{video.uploaderId}</TableCell>
                           <TableCell>{formatDate(video.uploadDate)}</TableCell>
+                          <TableCell>{video.duration ? formatDuration(video.duration) : "-"}</TableCell>
+                          <TableCell className="text-xs text-gray-600">
+                            {video.isEmbedded ? (
+                              "Embedded"
+                            ) : video.container ? (
+                              <>
+                                <div>
+                                  {video.width && video.height ? `${video.width}×${video.height}` : "?"}
+                                  {video.frameRate ? ` @ ${video.frameRate}fps` : ""}
+                                </div>
+                                <div>
+                                  {[video.container, video.videoCodec, video.audioCodec].filter(Boolean).join(" / ")}
+                                  {video.bitrate ? ` • ${formatBitrate(video.bitrate)}` : ""}
+                                </div>
+                              </>
+                            ) : (
+                              "Not probed"
+                            )}
+                            {video.status !== "ready" && (
+                              <div className={video.status === "failed" ? "text-red-500" : "text-amber-600"}>
+                                {video.status === "failed" ? "Transcode failed" : "Processing"}
+                              </div>
+                            )}
+                          </TableCell>
                           <TableCell>{video.views}</TableCell>
                           <TableCell>
                             <div className="flex space-x-2">
@@ -217,7 +704,7 @@ export default function Admin() {
                       ))
                     ) : (
                       <TableRow>
-                        <TableCell colSpan={7} className="text-center py-4">
+                        <TableCell colSpan={9} className="text-center py-4">
                           No videos found
                         </TableCell>
                       </TableRow>
@@ -228,7 +715,13 @@ export default function Admin() {
             </TabsContent>
             
             <TabsContent value="users" className="space-y-4">
-              <h2 className="text-xl font-semibold">User Management</h2>
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold">User Management</h2>
+                <Button onClick={() => setIsCreateUserOpen(true)}>
+                  <UserPlus className="mr-2 h-4 w-4" />
+                  New User
+                </Button>
+              </div>
               <div className="rounded-md border">
                 <Table>
                   <TableHeader>
@@ -236,28 +729,79 @@ export default function Admin() {
                       <TableHead>ID</TableHead>
                       <TableHead>Username</TableHead>
                       <TableHead>Admin</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {usersLoading ? (
                       <TableRow>
-                        <TableCell colSpan={3} className="text-center py-4">
+                        <TableCell colSpan={5} className="text-center py-4">
                           Loading users...
                         </TableCell>
                       </TableRow>
                     ) : users && users.length > 0 ? (
-                      users.map((user) => (
-                        <TableRow key={user.id}>
-                          <TableCell>{user.id}</TableCell>
-                          <TableCell>{user.username}</TableCell>
+                      users.map((account) => (
+                        <TableRow key={account.id}>
+                          <TableCell>{account.id}</TableCell>
+                          <TableCell>{account.username}</TableCell>
+                          <TableCell>
+                            {account.isAdmin ? "Yes" : "No"}
+                          </TableCell>
+                          <TableCell>
+                            {account.isDisabled
+                              ? "Disabled"
+                              : account.mustChangePassword
+                                ? "Password reset pending"
+                                : "Active"}
+                          </TableCell>
                           <TableCell>
-                            {user.isAdmin ? "Yes" : "No"}
+                            <div className="flex space-x-2">
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={account.isAdmin ? "Demote to user" : "Promote to admin"}
+                                onClick={() => updateUserMutation.mutate({ id: account.id, updates: { isAdmin: !account.isAdmin } })}
+                              >
+                                {account.isAdmin ? <ShieldOff className="h-4 w-4" /> : <Shield className="h-4 w-4" />}
+                                <span className="sr-only">{account.isAdmin ? "Demote" : "Promote"}</span>
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title={account.isDisabled ? "Enable account" : "Disable account"}
+                                disabled={account.id === user.id}
+                                onClick={() => updateUserMutation.mutate({ id: account.id, updates: { isDisabled: !account.isDisabled } })}
+                              >
+                                {account.isDisabled ? <UserCheck className="h-4 w-4" /> : <Ban className="h-4 w-4" />}
+                                <span className="sr-only">{account.isDisabled ? "Enable" : "Disable"}</span>
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Reset password"
+                                onClick={() => setUserToReset(account)}
+                              >
+                                <KeyRound className="h-4 w-4" />
+                                <span className="sr-only">Reset password</span>
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Delete user"
+                                disabled={account.id === user.id}
+                                onClick={() => setUserToDelete(account)}
+                              >
+                                <Trash2 className="h-4 w-4 text-red-500" />
+                                <span className="sr-only">Delete</span>
+                              </Button>
+                            </div>
                           </TableCell>
                         </TableRow>
                       ))
                     ) : (
                       <TableRow>
-                        <TableCell colSpan={3} className="text-center py-4">
+                        <TableCell colSpan={5} className="text-center py-4">
                           No users found
                         </TableCell>
                       </TableRow>
@@ -266,12 +810,888 @@ export default function Admin() {
                 </Table>
               </div>
             </TabsContent>
-          </Tabs>
-        </div>
-      </main>
-      
-      <Footer />
-      
+            
+            <TabsContent value="registration" className="space-y-6">
+              <div className="space-y-2">
+                <h2 className="text-xl font-semibold">Sign-up Policy</h2>
+                <p className="text-sm text-gray-600">
+                  Control whether visitors can create their own accounts.
+                </p>
+                <div className="w-72">
+                  <Select
+                    value={siteSettings?.signupPolicy}
+                    onValueChange={(value) => updateSettingsMutation.mutate({ signupPolicy: value as SignupPolicy })}
+                    disabled={!siteSettings || updateSettingsMutation.isPending}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a policy" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="open">Open - anyone can sign up</SelectItem>
+                      <SelectItem value="invite">Invite only</SelectItem>
+                      <SelectItem value="closed">Closed</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="space-y-4">
+                <div className="flex justify-between items-center">
+                  <h2 className="text-xl font-semibold">Invites</h2>
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      type="number"
+                      min={1}
+                      placeholder="Expires in days (optional)"
+                      className="w-56"
+                      value={inviteExpiryDays}
+                      onChange={(e) => setInviteExpiryDays(e.target.value)}
+                    />
+                    <Button
+                      onClick={() => createInviteMutation.mutate()}
+                      disabled={createInviteMutation.isPending}
+                    >
+                      <Plus className="mr-2 h-4 w-4" />
+                      New Invite
+                    </Button>
+                  </div>
+                </div>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Code</TableHead>
+                        <TableHead>Created</TableHead>
+                        <TableHead>Expires</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Actions</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {invitesLoading ? (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center py-4">
+                            Loading invites...
+                          </TableCell>
+                        </TableRow>
+                      ) : invites && invites.length > 0 ? (
+                        invites.map((invite) => (
+                          <TableRow key={invite.id}>
+                            <TableCell className="font-mono">{invite.code}</TableCell>
+                            <TableCell>{formatDate(invite.createdAt)}</TableCell>
+                            <TableCell>{invite.expiresAt ? formatDate(invite.expiresAt) : "Never"}</TableCell>
+                            <TableCell>
+                              {invite.usedBy
+                                ? `Used by user ${invite.usedBy}`
+                                : invite.expiresAt && new Date(invite.expiresAt) < new Date()
+                                  ? "Expired"
+                                  : "Available"}
+                            </TableCell>
+                            <TableCell>
+                              <div className="flex space-x-2">
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => copyInviteLink(invite)}
+                                  disabled={!!invite.usedBy}
+                                >
+                                  <Copy className="h-4 w-4" />
+                                  <span className="sr-only">Copy link</span>
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => deleteInviteMutation.mutate(invite.id)}
+                                >
+                                  <Trash2 className="h-4 w-4 text-red-500" />
+                                  <span className="sr-only">Delete</span>
+                                </Button>
+                              </div>
+                            </TableCell>
+                          </TableRow>
+                        ))
+                      ) : (
+                        <TableRow>
+                          <TableCell colSpan={5} className="text-center py-4">
+                            No invites yet
+                          </TableCell>
+                        </TableRow>
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="jobs" className="space-y-4">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold">Background Jobs</h2>
+                <div className="w-48">
+                  <Select
+                    value={jobStatusFilter}
+                    onValueChange={(value) => setJobStatusFilter(value as JobStatus | "all")}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All statuses</SelectItem>
+                      {JOB_STATUSES.map((status) => (
+                        <SelectItem key={status} value={status} className="capitalize">
+                          {status}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>ID</TableHead>
+                      <TableHead>Kind</TableHead>
+                      <TableHead>Video</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Attempts</TableHead>
+                      <TableHead>Next Run</TableHead>
+                      <TableHead>Last Error</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {jobsLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center py-4">
+                          Loading jobs...
+                        </TableCell>
+                      </TableRow>
+                    ) : jobs && jobs.length > 0 ? (
+                      jobs.map((job) => (
+                        <TableRow key={job.id}>
+                          <TableCell>{job.id}</TableCell>
+                          <TableCell className="capitalize">{job.kind}</TableCell>
+                          <TableCell>
+                            <Button
+                              variant="link"
+                              className="p-0 h-auto"
+                              onClick={() => navigate(`/video/${job.payload.videoId}`)}
+                            >
+                              #{job.payload.videoId}
+                            </Button>
+                          </TableCell>
+                          <TableCell className="capitalize">{job.status}</TableCell>
+                          <TableCell>{job.attempts} / {job.maxAttempts}</TableCell>
+                          <TableCell>
+                            {job.status === "queued" ? new Date(job.runAt).toLocaleString() : "-"}
+                          </TableCell>
+                          <TableCell className="max-w-xs truncate text-xs text-gray-500" title={job.lastError || undefined}>
+                            {job.lastError || "-"}
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex space-x-2">
+                              {(job.status === "failed" || job.status === "cancelled") && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => jobActionMutation.mutate({ jobId: job.id, action: "retry" })}
+                                  disabled={jobActionMutation.isPending}
+                                >
+                                  <RotateCcw className="h-4 w-4" />
+                                  <span className="sr-only">Retry</span>
+                                </Button>
+                              )}
+                              {(job.status === "queued" || job.status === "running") && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => jobActionMutation.mutate({ jobId: job.id, action: "cancel" })}
+                                  disabled={jobActionMutation.isPending}
+                                >
+                                  <XCircle className="h-4 w-4 text-red-500" />
+                                  <span className="sr-only">Cancel</span>
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={8} className="text-center py-4">
+                          No jobs found
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="comments" className="space-y-4">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold">Comments</h2>
+                <div className="w-48">
+                  <Select
+                    value={commentStatusFilter}
+                    onValueChange={(value) => setCommentStatusFilter(value as "all" | "active" | "deleted")}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All comments</SelectItem>
+                      <SelectItem value="active">Active</SelectItem>
+                      <SelectItem value="deleted">Deleted</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Author</TableHead>
+                      <TableHead>Comment</TableHead>
+                      <TableHead>Video</TableHead>
+                      <TableHead>Posted</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {commentsLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-4">
+                          Loading comments...
+                        </TableCell>
+                      </TableRow>
+                    ) : moderatedComments.length > 0 ? (
+                      moderatedComments.map((comment) => (
+                        <TableRow key={comment.id}>
+                          <TableCell>{comment.author?.username || `#${comment.userId}`}</TableCell>
+                          <TableCell className="max-w-sm truncate" title={comment.body}>
+                            {comment.parentId !== null && <span className="text-gray-500">Reply: </span>}
+                            {comment.body}
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              variant="link"
+                              className="p-0 h-auto max-w-[12rem] truncate"
+                              onClick={() => navigate(`/video/${comment.videoId}`)}
+                            >
+                              {comment.videoTitle || `#${comment.videoId}`}
+                            </Button>
+                          </TableCell>
+                          <TableCell>{new Date(comment.createdAt).toLocaleString()}</TableCell>
+                          <TableCell>
+                            {comment.deleted ? "Deleted" : comment.pinned ? "Pinned" : "Active"}
+                            {comment.editedAt && !comment.deleted && " (edited)"}
+                          </TableCell>
+                          <TableCell>
+                            {comment.deleted ? (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => commentActionMutation.mutate({ commentId: comment.id, action: "restore" })}
+                                disabled={commentActionMutation.isPending}
+                              >
+                                <RotateCcw className="h-4 w-4" />
+                                <span className="sr-only">Restore</span>
+                              </Button>
+                            ) : (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => commentActionMutation.mutate({ commentId: comment.id, action: "delete" })}
+                                disabled={commentActionMutation.isPending}
+                              >
+                                <Trash2 className="h-4 w-4 text-red-500" />
+                                <span className="sr-only">Delete</span>
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-4">
+                          No comments found
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {hasMoreComments && (
+                <div className="flex justify-center">
+                  <Button variant="outline" onClick={() => fetchMoreComments()} disabled={fetchingMoreComments}>
+                    {fetchingMoreComments ? "Loading..." : "Load more"}
+                  </Button>
+                </div>
+              )}
+            </TabsContent>
+
+            <TabsContent value="categories" className="space-y-4">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold">Categories</h2>
+                <Button onClick={() => openCategoryForm("new")}>
+                  <FolderPlus className="mr-2 h-4 w-4" />
+                  New Category
+                </Button>
+              </div>
+
+              <div className="bg-white shadow rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-24">Order</TableHead>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Slug</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead>Visible</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {categoriesLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-4">
+                          Loading categories...
+                        </TableCell>
+                      </TableRow>
+                    ) : adminCategories && adminCategories.length > 0 ? (
+                      adminCategories.map((category, index) => (
+                        <TableRow key={category.id}>
+                          <TableCell>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => moveCategory(index, -1)}
+                              disabled={index === 0 || reorderCategoriesMutation.isPending}
+                            >
+                              <ArrowUp className="h-4 w-4" />
+                              <span className="sr-only">Move up</span>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => moveCategory(index, 1)}
+                              disabled={index === adminCategories.length - 1 || reorderCategoriesMutation.isPending}
+                            >
+                              <ArrowDown className="h-4 w-4" />
+                              <span className="sr-only">Move down</span>
+                            </Button>
+                          </TableCell>
+                          <TableCell className="font-medium">{category.name}</TableCell>
+                          <TableCell className="text-gray-500">{category.slug}</TableCell>
+                          <TableCell className="max-w-xs truncate">{category.description}</TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={!category.hidden}
+                              onCheckedChange={(checked) => setCategoryHiddenMutation.mutate({ id: category.id, hidden: !checked })}
+                              aria-label={`Show ${category.name} to viewers`}
+                            />
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="icon" onClick={() => openCategoryForm(category)}>
+                              <Edit className="h-4 w-4" />
+                              <span className="sr-only">Edit</span>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => {
+                                setCategoryToDelete(category);
+                                setCategoryReassignTo("none");
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                              <span className="sr-only">Delete</span>
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={6} className="text-center py-4">
+                          No categories yet
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="tags" className="space-y-4">
+              <h2 className="text-xl font-semibold">Tags</h2>
+
+              <div className="bg-white shadow rounded-lg overflow-hidden">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Videos</TableHead>
+                      <TableHead>Created</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {tagsLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-4">
+                          Loading tags...
+                        </TableCell>
+                      </TableRow>
+                    ) : tags && tags.length > 0 ? (
+                      tags.map((tag) => (
+                        <TableRow key={tag.id}>
+                          <TableCell className="font-medium">
+                            <Link href={`/tag/${encodeURIComponent(tag.name)}`} className="hover:underline">
+                              {tag.name}
+                            </Link>
+                          </TableCell>
+                          <TableCell>{tag.videoCount}</TableCell>
+                          <TableCell>{formatDate(tag.createdAt)}</TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => {
+                                setTagToRename(tag);
+                                setNewTagName(tag.name);
+                              }}
+                            >
+                              <Edit className="h-4 w-4" />
+                              <span className="sr-only">Rename</span>
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => {
+                                setTagToMerge(tag);
+                                setMergeTargetId("");
+                              }}
+                              disabled={tags.length < 2}
+                            >
+                              <GitMerge className="h-4 w-4" />
+                              <span className="sr-only">Merge</span>
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={4} className="text-center py-4">
+                          No tags yet
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="analytics" className="space-y-4">
+              <div className="flex flex-wrap justify-between items-center gap-4">
+                <h2 className="text-xl font-semibold">Analytics</h2>
+                <div className="flex items-center gap-2">
+                  <PeriodSelect value={analyticsDays} onChange={setAnalyticsDays} />
+                  <Button variant="outline" onClick={() => setIsRecountOpen(true)}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Recompute Views
+                  </Button>
+                </div>
+              </div>
+
+              {analyticsLoading || !analytics ? (
+                <p className="text-center py-12 text-sm text-gray-500">Loading analytics...</p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+                    <ViewTotals stats={analytics} />
+                  </div>
+                  <ViewsOverTimeChart data={analytics.viewsByDay} />
+                  <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                    <TrafficSourcesChart counts={analytics.trafficSources} />
+                    <DevicesChart counts={analytics.devices} />
+                  </div>
+
+                  <h3 className="text-lg font-semibold">Top Videos</h3>
+                  <div className="bg-white shadow rounded-lg overflow-hidden">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Title</TableHead>
+                          <TableHead>Views</TableHead>
+                          <TableHead>Lifetime Views</TableHead>
+                          <TableHead className="text-right">Actions</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {analytics.topVideos.length > 0 ? (
+                          analytics.topVideos.map(({ video, views }) => (
+                            <TableRow key={video.id}>
+                              <TableCell className="font-medium">
+                                <Link href={`/video/${video.id}`} className="hover:underline">
+                                  {video.title}
+                                </Link>
+                              </TableCell>
+                              <TableCell>{views}</TableCell>
+                              <TableCell>{video.views}</TableCell>
+                              <TableCell className="text-right">
+                                <Link href={`/video/${video.id}/analytics`}>
+                                  <Button variant="ghost" size="icon">
+                                    <BarChart3 className="h-4 w-4" />
+                                    <span className="sr-only">Video analytics</span>
+                                  </Button>
+                                </Link>
+                              </TableCell>
+                            </TableRow>
+                          ))
+                        ) : (
+                          <TableRow>
+                            <TableCell colSpan={4} className="text-center py-4">
+                              No views in this period
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </>
+              )}
+            </TabsContent>
+          </Tabs>
+        </div>
+      </main>
+      
+      <Footer />
+      
+      {/* Create User Dialog */}
+      <Dialog open={isCreateUserOpen} onOpenChange={setIsCreateUserOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Create User</DialogTitle>
+            <DialogDescription>
+              Add a new account. Share the password with the user securely.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-username">Username</Label>
+              <Input
+                id="new-username"
+                value={newUser.username}
+                onChange={(e) => setNewUser({ ...newUser, username: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="new-password">Password</Label>
+              <Input
+                id="new-password"
+                type="password"
+                value={newUser.password}
+                onChange={(e) => setNewUser({ ...newUser, password: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="new-is-admin"
+                checked={newUser.isAdmin}
+                onCheckedChange={(checked) => setNewUser({ ...newUser, isAdmin: checked === true })}
+              />
+              <Label htmlFor="new-is-admin">Administrator</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateUserOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createUserMutation.mutate(newUser)}
+              disabled={createUserMutation.isPending}
+            >
+              {createUserMutation.isPending ? "Creating..." : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Reset Password Dialog */}
+      <Dialog open={!!userToReset} onOpenChange={() => setUserToReset(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Reset Password</DialogTitle>
+            <DialogDescription>
+              Set a temporary password for "{userToReset?.username}". They will have to choose a new one after logging in.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="temporary-password">Temporary Password</Label>
+            <Input
+              id="temporary-password"
+              type="password"
+              value={temporaryPassword}
+              onChange={(e) => setTemporaryPassword(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUserToReset(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => userToReset && resetPasswordMutation.mutate({ id: userToReset.id, password: temporaryPassword })}
+              disabled={resetPasswordMutation.isPending}
+            >
+              {resetPasswordMutation.isPending ? "Resetting..." : "Reset Password"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete User Dialog */}
+      <Dialog open={!!userToDelete} onOpenChange={() => setUserToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete User</DialogTitle>
+            <DialogDescription>
+              Delete "{userToDelete?.username}"? Choose what happens to their videos. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <RadioGroup
+            value={videoHandling}
+            onValueChange={(value) => setVideoHandling(value as "reassign" | "delete")}
+            className="space-y-2"
+          >
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="reassign" id="videos-reassign" />
+              <Label htmlFor="videos-reassign">Reassign their videos to another user</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <RadioGroupItem value="delete" id="videos-delete" />
+              <Label htmlFor="videos-delete">Delete their videos</Label>
+            </div>
+          </RadioGroup>
+          {videoHandling === "reassign" && (
+            <Select value={reassignTo} onValueChange={setReassignTo}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a user" />
+              </SelectTrigger>
+              <SelectContent>
+                {users?.filter((account) => account.id !== userToDelete?.id).map((account) => (
+                  <SelectItem key={account.id} value={String(account.id)}>
+                    {account.username}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setUserToDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => userToDelete && deleteUserMutation.mutate(userToDelete.id)}
+              disabled={deleteUserMutation.isPending || (videoHandling === "reassign" && !reassignTo)}
+            >
+              {deleteUserMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Create / Edit Category Dialog */}
+      <Dialog open={!!categoryToEdit} onOpenChange={() => setCategoryToEdit(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{categoryToEdit === "new" ? "Create Category" : "Edit Category"}</DialogTitle>
+            <DialogDescription>
+              {categoryToEdit === "new"
+                ? "New categories are added after the existing ones."
+                : "Renaming a category also renames it on its videos."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Name</Label>
+              <Input
+                id="category-name"
+                value={categoryForm.name}
+                onChange={(e) => setCategoryForm({ ...categoryForm, name: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-slug">Slug</Label>
+              <Input
+                id="category-slug"
+                placeholder="Generated from the name if left blank"
+                value={categoryForm.slug}
+                onChange={(e) => setCategoryForm({ ...categoryForm, slug: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="category-description">Description</Label>
+              <Textarea
+                id="category-description"
+                value={categoryForm.description}
+                onChange={(e) => setCategoryForm({ ...categoryForm, description: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCategoryToEdit(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => categoryToEdit && saveCategoryMutation.mutate({
+                id: categoryToEdit === "new" ? undefined : categoryToEdit.id,
+                form: categoryForm,
+              })}
+              disabled={saveCategoryMutation.isPending || !categoryForm.name.trim()}
+            >
+              {saveCategoryMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Category Dialog */}
+      <Dialog open={!!categoryToDelete} onOpenChange={() => setCategoryToDelete(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Category</DialogTitle>
+            <DialogDescription>
+              Delete "{categoryToDelete?.name}" and choose where its videos go. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label>Move its videos to</Label>
+            <Select value={categoryReassignTo} onValueChange={setCategoryReassignTo}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">Uncategorized</SelectItem>
+                {adminCategories?.filter((category) => category.id !== categoryToDelete?.id).map((category) => (
+                  <SelectItem key={category.id} value={String(category.id)}>
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCategoryToDelete(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => categoryToDelete && deleteCategoryMutation.mutate({ id: categoryToDelete.id, reassignTo: categoryReassignTo })}
+              disabled={deleteCategoryMutation.isPending}
+            >
+              {deleteCategoryMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Rename Tag Dialog */}
+      <Dialog open={!!tagToRename} onOpenChange={() => setTagToRename(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Rename Tag</DialogTitle>
+            <DialogDescription>
+              Rename "{tagToRename?.name}" on all {tagToRename?.videoCount} of its videos. To combine it with an existing tag, merge them instead.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="tag-name">Name</Label>
+            <Input
+              id="tag-name"
+              value={newTagName}
+              onChange={(e) => setNewTagName(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTagToRename(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => tagToRename && renameTagMutation.mutate({ id: tagToRename.id, name: newTagName })}
+              disabled={renameTagMutation.isPending || !newTagName.trim()}
+            >
+              {renameTagMutation.isPending ? "Renaming..." : "Rename"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Merge Tag Dialog */}
+      <Dialog open={!!tagToMerge} onOpenChange={() => setTagToMerge(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Merge Tag</DialogTitle>
+            <DialogDescription>
+              Move the videos tagged "{tagToMerge?.name}" to another tag and delete "{tagToMerge?.name}". This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <Select value={mergeTargetId} onValueChange={setMergeTargetId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select a tag to merge into" />
+            </SelectTrigger>
+            <SelectContent>
+              {tags?.filter((tag) => tag.id !== tagToMerge?.id).map((tag) => (
+                <SelectItem key={tag.id} value={String(tag.id)}>
+                  {tag.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setTagToMerge(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => tagToMerge && mergeTagMutation.mutate({ sourceId: tagToMerge.id, targetId: parseInt(mergeTargetId) })}
+              disabled={mergeTagMutation.isPending || !mergeTargetId}
+            >
+              {mergeTagMutation.isPending ? "Merging..." : "Merge"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Recompute Views Dialog */}
+      <Dialog open={isRecountOpen} onOpenChange={setIsRecountOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Recompute View Counts</DialogTitle>
+            <DialogDescription>
+              Reset every video's view count to the number of qualified views recorded for it. Views counted before view events were recorded will be lost. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRecountOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => recountViewsMutation.mutate()}
+              disabled={recountViewsMutation.isPending}
+            >
+              {recountViewsMutation.isPending ? "Recomputing..." : "Recompute"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Delete Video Confirmation Dialog */}
       <Dialog open={!!videoToDelete} onOpenChange={() => setVideoToDelete(null)}>
         <DialogContent>
@@ -35,7 +35,7 @@ type FormValues = z.infer<typeof passwordChangeSchema>;
 
 export default function ChangePassword() {
   const [location, navigate] = useLocation();
-  const { user } = useAuth();
+  const { user, refreshUser } = useAuth();
   const { toast } = useToast();
 
   // Redirect if not logged in
@@ -60,7 +60,8 @@ export default function ChangePassword() {
     mutationFn: async (data: FormValues) => {
       return apiRequest("POST", "/api/auth/change-password", data);
     },
-    onSuccess: () => {
+    onSuccess: async () => {
+      await refreshUser();
       toast({
         title: "Success",
         description: "Your password has been updated successfully",
@@ -96,7 +97,9 @@ export default function ChangePassword() {
           <CardHeader className="space-y-1">
             <CardTitle className="text-2xl font-bold">Change Password</CardTitle>
             <CardDescription>
-              Update your account password
+              {user.mustChangePassword
+                ? "An administrator reset your password. Please choose a new one to continue."
+                : "Update your account password"}
             </CardDescription>
           </CardHeader>
 
@@ -0,0 +1,208 @@
+import { useEffect, useState } from "react";
+import { useRoute } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { PublicProfile } from "@shared/schema";
+import { useAuth } from "@/context/AuthContext";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import Header from "@/components/Header";
+import VideoGrid from "@/components/VideoGrid";
+import Footer from "@/components/Footer";
+
+// UI Components
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Pencil } from "lucide-react";
+
+export default function Channel() {
+  const [match, params] = useRoute("/channel/:id");
+  const channelId = match ? parseInt(params.id) : -1;
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [profileForm, setProfileForm] = useState({ displayName: "", avatarUrl: "", bio: "" });
+
+  // Fetch the channel owner's public profile
+  const {
+    data: profile,
+    isLoading: profileLoading,
+    error: profileError,
+  } = useQuery<PublicProfile>({
+    queryKey: [`/api/users/${channelId}`],
+    enabled: channelId > 0,
+  });
+
+  const isOwnChannel = !!user && user.id === channelId;
+
+  // Seed the edit form with the current profile
+  useEffect(() => {
+    if (profile) {
+      setProfileForm({
+        displayName: profile.displayName || "",
+        avatarUrl: profile.avatarUrl || "",
+        bio: profile.bio || "",
+      });
+    }
+  }, [profile]);
+
+  // Update profile mutation
+  const updateProfileMutation = useMutation({
+    mutationFn: (data: typeof profileForm) => {
+      return apiRequest("PUT", "/api/users/me", {
+        displayName: data.displayName || null,
+        avatarUrl: data.avatarUrl,
+        bio: data.bio || null,
+      });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/users/${channelId}`] });
+      setIsEditOpen(false);
+      toast({
+        title: "Success",
+        description: "Your profile has been updated.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to update profile.",
+      });
+    },
+  });
+
+  // Scroll to top when switching channels
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, [channelId]);
+
+  if (!match) {
+    return <div>Channel not found</div>;
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          {profileLoading ? (
+            <div className="flex items-center space-x-4 mb-8">
+              <Skeleton className="h-20 w-20 rounded-full" />
+              <div className="space-y-2">
+                <Skeleton className="h-6 w-48" />
+                <Skeleton className="h-4 w-64" />
+              </div>
+            </div>
+          ) : profileError || !profile ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900">Channel not found</h3>
+            </div>
+          ) : (
+            <>
+              <div className="flex items-start justify-between mb-8">
+                <div className="flex items-center space-x-4">
+                  <Avatar className="h-20 w-20">
+                    {profile.avatarUrl && <AvatarImage src={profile.avatarUrl} alt={profile.username} />}
+                    <AvatarFallback className="text-2xl">
+                      {profile.username.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div>
+                    <h1 className="text-2xl font-bold text-gray-900">
+                      {profile.displayName || profile.username}
+                    </h1>
+                    <p className="text-sm text-gray-500">
+                      @{profile.username} • Joined {format(new Date(profile.joinedAt), "MMMM yyyy")}
+                    </p>
+                    <p className="text-sm text-gray-500">
+                      {profile.videoCount} {profile.videoCount === 1 ? "video" : "videos"} • {profile.totalViews} total views
+                    </p>
+                    {profile.bio && (
+                      <p className="mt-2 text-sm text-gray-700 max-w-2xl">{profile.bio}</p>
+                    )}
+                  </div>
+                </div>
+                {isOwnChannel && (
+                  <Button variant="outline" onClick={() => setIsEditOpen(true)}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Edit Profile
+                  </Button>
+                )}
+              </div>
+
+              <h2 className="text-xl font-bold text-gray-900 mb-6">Videos</h2>
+              <VideoGrid uploaderId={profile.id} />
+            </>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+
+      {/* Edit Profile Dialog */}
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Profile</DialogTitle>
+            <DialogDescription>
+              This information is shown publicly on your channel.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="display-name">Display Name</Label>
+              <Input
+                id="display-name"
+                value={profileForm.displayName}
+                onChange={(e) => setProfileForm({ ...profileForm, displayName: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="avatar-url">Avatar URL</Label>
+              <Input
+                id="avatar-url"
+                placeholder="https://..."
+                value={profileForm.avatarUrl}
+                onChange={(e) => setProfileForm({ ...profileForm, avatarUrl: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="bio">Bio</Label>
+              <Textarea
+                id="bio"
+                rows={4}
+                value={profileForm.bio}
+                onChange={(e) => setProfileForm({ ...profileForm, bio: e.target.value })}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => updateProfileMutation.mutate(profileForm)}
+              disabled={updateProfileMutation.isPending}
+            >
+              {updateProfileMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useInfiniteQuery, useMutation, useQueries } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { HistoryPage, Video } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getLocalProgress, removeLocalProgress, clearLocalProgress } from "@/lib/watchProgress";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/AuthContext";
+import Header from "@/components/Header";
+import VideoCard from "@/components/VideoCard";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { X } from "lucide-react";
+
+const HISTORY_PER_PAGE = 20;
+
+export default function History() {
+  const { user, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [isClearOpen, setIsClearOpen] = useState(false);
+  // Anonymous viewers' history lives on this device
+  const [localEntries, setLocalEntries] = useState(getLocalProgress);
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/users/me/history"],
+    queryFn: async ({ pageParam }) => {
+      const params = new URLSearchParams({ limit: HISTORY_PER_PAGE.toString() });
+      if (pageParam) {
+        params.append("cursor", pageParam);
+      }
+      const res = await apiRequest("GET", `/api/users/me/history?${params.toString()}`);
+      return res.json() as Promise<HistoryPage>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!user,
+  });
+
+  const localVideos = useQueries({
+    queries: (user ? [] : localEntries).map((entry) => ({
+      queryKey: [`/api/videos/${entry.videoId}`],
+      retry: false,
+    })),
+  });
+
+  // Videos that have since been deleted or made private drop out of the list
+  const items = user
+    ? data?.pages.flatMap((page) => page.items)
+    : localEntries.flatMap((entry, i) => {
+        const video = localVideos[i]?.data as Video | undefined;
+        return video ? [{ ...entry, video }] : [];
+      });
+  const loading = authLoading || (user ? isLoading : localVideos.some((query) => query.isLoading));
+
+  const onHistoryChanged = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/users/me/history"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/users/me/progress"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "Failed to update watch history.",
+    });
+  };
+
+  const removeMutation = useMutation({
+    mutationFn: async (videoId: number) => {
+      if (user) {
+        await apiRequest("DELETE", `/api/users/me/history/${videoId}`);
+      } else {
+        setLocalEntries(removeLocalProgress(videoId));
+      }
+    },
+    onSuccess: onHistoryChanged,
+    onError,
+  });
+
+  const clearMutation = useMutation({
+    mutationFn: async () => {
+      if (user) {
+        await apiRequest("DELETE", "/api/users/me/history");
+      } else {
+        clearLocalProgress();
+        setLocalEntries([]);
+      }
+    },
+    onSuccess: () => {
+      onHistoryChanged();
+      setIsClearOpen(false);
+    },
+    onError,
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-bold text-gray-900">Watch History</h2>
+            {items && items.length > 0 && (
+              <Button variant="outline" onClick={() => setIsClearOpen(true)}>
+                Clear all
+              </Button>
+            )}
+          </div>
+
+          {!user && !authLoading && (
+            <p className="text-sm text-gray-500 mb-6">
+              You're not signed in, so your history is only kept on this device.
+            </p>
+          )}
+
+          {loading ? (
+            <div className="grid grid-cols-1 gap-y-8 gap-x-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+              {Array(4).fill(0).map((_, i) => (
+                <Skeleton key={i} className="aspect-video w-full rounded-lg" />
+              ))}
+            </div>
+          ) : error ? (
+            <p className="text-center py-12 text-sm text-gray-500">Failed to load watch history.</p>
+          ) : items && items.length > 0 ? (
+            <>
+              <div className="grid grid-cols-1 gap-y-8 gap-x-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+                {items.map((item) => (
+                  <div key={item.videoId} className="relative">
+                    <VideoCard video={item.video} />
+                    <p className="text-xs text-gray-500 mt-1 ml-11">
+                      Watched {formatDistanceToNow(new Date(item.watchedAt), { addSuffix: true })}
+                    </p>
+                    <Button
+                      variant="secondary"
+                      size="icon"
+                      className="absolute top-2 right-2 h-7 w-7 rounded-full bg-black/60 text-white hover:bg-black/80"
+                      onClick={() => removeMutation.mutate(item.videoId)}
+                      disabled={removeMutation.isPending}
+                    >
+                      <X className="h-4 w-4" />
+                      <span className="sr-only">Remove from history</span>
+                    </Button>
+                  </div>
+                ))}
+              </div>
+
+              {user && hasNextPage && (
+                <div className="mt-12 flex justify-center">
+                  <Button
+                    variant="outline"
+                    onClick={() => fetchNextPage()}
+                    disabled={isFetchingNextPage}
+                  >
+                    {isFetchingNextPage ? "Loading..." : "Load more"}
+                  </Button>
+                </div>
+              )}
+            </>
+          ) : (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900">No watch history</h3>
+              <p className="mt-2 text-sm text-gray-500">
+                Videos you watch will show up here.
+              </p>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+
+      {/* Clear History Dialog */}
+      <Dialog open={isClearOpen} onOpenChange={setIsClearOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Clear Watch History</DialogTitle>
+            <DialogDescription>
+              Remove every video from your history, along with where you stopped in each. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsClearOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => clearMutation.mutate()}
+              disabled={clearMutation.isPending}
+            >
+              {clearMutation.isPending ? "Clearing..." : "Clear all"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
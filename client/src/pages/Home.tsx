@@ -1,21 +1,41 @@
-import { useEffect, useState } from "react";
-import { useLocation } from "wouter";
+import { useLocation, useSearch } from "wouter";
+import { VIDEO_SORTS, VideoSort } from "@shared/schema";
 import Header from "@/components/Header";
 import CategoryTabs from "@/components/CategoryTabs";
 import VideoGrid from "@/components/VideoGrid";
 import Footer from "@/components/Footer";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const SORT_LABELS: Record<VideoSort, string> = {
+  newest: "Newest",
+  oldest: "Oldest",
+  views: "Most viewed",
+  duration: "Longest",
+  title: "Title (A-Z)",
+};
 
 export default function Home() {
-  const [location] = useLocation();
-  const [category, setCategory] = useState<string | undefined>();
-  const [searchQuery, setSearchQuery] = useState<string | undefined>();
+  const [, navigate] = useLocation();
+  const search = useSearch();
+
+  // Category, search query and sort order all live in the URL
+  const params = new URLSearchParams(search);
+  const category = params.get("category") || undefined;
+  const searchQuery = params.get("search") || undefined;
+  const sortParam = params.get("sort") as VideoSort | null;
+  const sort = sortParam && VIDEO_SORTS.includes(sortParam) ? sortParam : "newest";
 
-  // Extract category and search query from URL
-  useEffect(() => {
-    const params = new URLSearchParams(location.split('?')[1]);
-    setCategory(params.get('category') || undefined);
-    setSearchQuery(params.get('search') || undefined);
-  }, [location]);
+  const handleSortChange = (value: string) => {
+    const next = new URLSearchParams(search);
+    next.set("sort", value);
+    navigate(`/?${next.toString()}`);
+  };
 
   return (
     <div className="min-h-screen flex flex-col">
@@ -24,15 +44,29 @@ export default function Home() {
       
       <main className="flex-grow py-8">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <h2 className="text-xl font-bold text-gray-900 mb-6">
-            {searchQuery 
-              ? `Search Results for "${searchQuery}"` 
-              : category 
-                ? `${category} Videos` 
-                : "Recently Uploaded"}
-          </h2>
+          <div className="flex items-center justify-between mb-6">
+            <h2 className="text-xl font-bold text-gray-900">
+              {searchQuery 
+                ? `Search Results for "${searchQuery}"${category && category !== "All" ? ` in ${category}` : ""}` 
+                : category 
+                  ? `${category} Videos` 
+                  : sort === "newest" ? "Recently Uploaded" : "All Videos"}
+            </h2>
+            <Select value={sort} onValueChange={handleSortChange}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VIDEO_SORTS.map((option) => (
+                  <SelectItem key={option} value={option}>
+                    {SORT_LABELS[option]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
           
-          <VideoGrid category={category} searchQuery={searchQuery} />
+          <VideoGrid category={category} searchQuery={searchQuery} sort={sort} />
         </div>
       </main>
       
@@ -0,0 +1,63 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { Video } from "@shared/schema";
+import { useAuth } from "@/context/AuthContext";
+import Header from "@/components/Header";
+import VideoCard from "@/components/VideoCard";
+import Footer from "@/components/Footer";
+import { Skeleton } from "@/components/ui/skeleton";
+
+export default function Liked() {
+  const [, navigate] = useLocation();
+  const { user, isLoading: authLoading } = useAuth();
+
+  // Redirect if not logged in
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/login?redirect=/liked");
+    }
+  }, [user, authLoading, navigate]);
+
+  const { data: videos, isLoading, error } = useQuery<Video[]>({
+    queryKey: ["/api/users/me/liked"],
+    enabled: !!user,
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <h2 className="text-xl font-bold text-gray-900 mb-6">Liked Videos</h2>
+
+          {isLoading || authLoading ? (
+            <div className="grid grid-cols-1 gap-y-8 gap-x-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+              {Array(4).fill(0).map((_, i) => (
+                <Skeleton key={i} className="aspect-video w-full rounded-lg" />
+              ))}
+            </div>
+          ) : error ? (
+            <p className="text-center py-12 text-sm text-gray-500">Failed to load liked videos.</p>
+          ) : videos && videos.length > 0 ? (
+            <div className="grid grid-cols-1 gap-y-8 gap-x-6 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4">
+              {videos.map((video) => (
+                <VideoCard key={video.id} video={video} />
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900">No liked videos yet</h3>
+              <p className="mt-2 text-sm text-gray-500">
+                Videos you like will show up here.
+              </p>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,9 +1,10 @@
 import { useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/context/AuthContext";
-import { loginSchema } from "@shared/schema";
+import { loginSchema, SignupPolicy } from "@shared/schema";
 import { z } from "zod";
 
 // UI Components
@@ -38,6 +39,11 @@ export default function Login() {
   const params = new URLSearchParams(location.split("?")[1]);
   const redirectTo = params.get("redirect") || "/";
 
+  // Only offer sign-up when registration is not closed
+  const { data: registration } = useQuery<{ signupPolicy: SignupPolicy }>({
+    queryKey: ["/api/auth/registration"],
+  });
+
   // Form initialization
   const form = useForm<FormValues>({
     resolver: zodResolver(loginSchema),
@@ -125,6 +131,14 @@ export default function Login() {
           </CardContent>
           
           <CardFooter className="flex flex-col items-center justify-center space-y-2">
+            {registration && registration.signupPolicy !== "closed" && (
+              <p className="text-sm text-gray-600">
+                Don't have an account?{" "}
+                <Link href="/register" className="font-medium text-primary hover:text-primary/90">
+                  Sign up
+                </Link>
+              </p>
+            )}
             <div className="text-center text-sm text-gray-500">
               <p>Use the following credentials for testing:</p>
               <p className="font-mono mt-1">username: admin</p>
@@ -0,0 +1,354 @@
+import { useState } from "react";
+import { Link, useLocation, useRoute } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { PlaylistWithVideos, PublicProfile, VideoVisibility } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { getThumbnailUrl, formatDuration } from "@/lib/media";
+import { playbackUrl, playbackOrder, newShuffleSeed } from "@/lib/playlistPlayback";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/AuthContext";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import VisibilitySelect from "@/components/VisibilitySelect";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowUp, ArrowDown, Pencil, Play, Shuffle, Trash2, X } from "lucide-react";
+
+export default function PlaylistPage() {
+  const [match, params] = useRoute("/playlist/:id");
+  const playlistId = match ? parseInt(params.id) : -1;
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const [form, setForm] = useState({ title: "", description: "", visibility: "public" as VideoVisibility });
+  const playlistUrl = `/api/playlists/${playlistId}`;
+
+  const { data: playlist, isLoading, error } = useQuery<PlaylistWithVideos>({
+    queryKey: [playlistUrl],
+    enabled: playlistId > 0,
+  });
+
+  const { data: owner } = useQuery<PublicProfile>({
+    queryKey: [`/api/users/${playlist?.ownerId}`],
+    enabled: !!playlist?.ownerId,
+  });
+
+  const canManage = !!user && !!playlist && (user.isAdmin || user.id === playlist.ownerId);
+
+  const onPlaylistChanged = () => {
+    queryClient.invalidateQueries({ queryKey: [playlistUrl] });
+    queryClient.invalidateQueries({ queryKey: ["/api/playlists"] });
+  };
+
+  const onError = (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: error.message || "Failed to update playlist.",
+    });
+  };
+
+  const updateMutation = useMutation({
+    mutationFn: () => {
+      return apiRequest("PUT", playlistUrl, {
+        title: form.title,
+        description: form.description.trim() || null,
+        visibility: form.visibility,
+      });
+    },
+    onSuccess: () => {
+      onPlaylistChanged();
+      setIsEditOpen(false);
+    },
+    onError,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", playlistUrl),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/playlists"] });
+      toast({
+        title: "Deleted",
+        description: "Playlist deleted.",
+      });
+      navigate("/playlists");
+    },
+    onError,
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (videoId: number) => apiRequest("DELETE", `${playlistUrl}/videos/${videoId}`),
+    onSuccess: onPlaylistChanged,
+    onError,
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (videoIds: number[]) => apiRequest("PUT", `${playlistUrl}/videos`, { videoIds }),
+    onSuccess: onPlaylistChanged,
+    onError,
+  });
+
+  // Swap a video with its neighbour above (-1) or below (1)
+  const moveVideo = (index: number, offset: number) => {
+    if (!playlist) return;
+    const ids = playlist.videos.map((video) => video.id);
+    [ids[index], ids[index + offset]] = [ids[index + offset], ids[index]];
+    reorderMutation.mutate(ids);
+  };
+
+  const openEdit = () => {
+    if (!playlist) return;
+    setForm({
+      title: playlist.title,
+      description: playlist.description || "",
+      visibility: playlist.visibility,
+    });
+    setIsEditOpen(true);
+  };
+
+  const first = playlist?.videos[0];
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          {isLoading ? (
+            <div className="space-y-4">
+              <Skeleton className="h-8 w-1/2" />
+              <Skeleton className="h-4 w-1/3" />
+              <Skeleton className="h-20 w-full" />
+            </div>
+          ) : error || !playlist ? (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900">Playlist not found</h3>
+              <p className="mt-2 text-sm text-gray-500">
+                It may have been deleted or made private.
+              </p>
+            </div>
+          ) : (
+            <>
+              <div className="mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">{playlist.title}</h2>
+                <p className="text-sm text-gray-500 mt-1">
+                  {owner && (
+                    <>
+                      <Link href={`/channel/${playlist.ownerId}`} className="hover:underline">
+                        {owner.displayName || owner.username}
+                      </Link>
+                      {" • "}
+                    </>
+                  )}
+                  {playlist.videos.length} {playlist.videos.length === 1 ? "video" : "videos"}
+                  {" • "}Updated {formatDistanceToNow(new Date(playlist.updatedAt), { addSuffix: true })}
+                  {playlist.visibility !== "public" && (
+                    <span className="capitalize"> • {playlist.visibility}</span>
+                  )}
+                </p>
+                {playlist.description && (
+                  <p className="text-sm text-gray-700 mt-3 whitespace-pre-line">{playlist.description}</p>
+                )}
+
+                <div className="flex flex-wrap gap-2 mt-4">
+                  <Button
+                    disabled={!first}
+                    onClick={() => first && navigate(playbackUrl(first.id, { playlistId: playlist.id, shuffleSeed: null, loop: false }))}
+                  >
+                    <Play className="mr-2 h-4 w-4" />
+                    Play all
+                  </Button>
+                  <Button
+                    variant="outline"
+                    disabled={!first}
+                    onClick={() => {
+                      const options = { playlistId: playlist.id, shuffleSeed: newShuffleSeed(), loop: false };
+                      // Start from whichever video the shuffled order puts first
+                      const [start] = playbackOrder(playlist.videos, options.shuffleSeed);
+                      navigate(playbackUrl(start.id, options));
+                    }}
+                  >
+                    <Shuffle className="mr-2 h-4 w-4" />
+                    Shuffle
+                  </Button>
+                  {canManage && (
+                    <>
+                      <Button variant="outline" onClick={openEdit}>
+                        <Pencil className="mr-2 h-4 w-4" />
+                        Edit
+                      </Button>
+                      <Button variant="outline" onClick={() => setIsDeleteOpen(true)}>
+                        <Trash2 className="mr-2 h-4 w-4" />
+                        Delete
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+
+              {playlist.videos.length > 0 ? (
+                <ol className="space-y-3">
+                  {playlist.videos.map((video, index) => (
+                    <li key={video.id} className="flex items-center gap-3">
+                      <span className="w-6 text-sm text-gray-500 text-right">{index + 1}</span>
+                      <Link
+                        href={playbackUrl(video.id, { playlistId: playlist.id, shuffleSeed: null, loop: false })}
+                        className="flex flex-1 min-w-0 items-center gap-4 group"
+                      >
+                        <div className="relative w-40 flex-shrink-0 aspect-video overflow-hidden rounded-lg bg-gray-100">
+                          <img
+                            className="object-cover w-full h-full"
+                            src={getThumbnailUrl(video) || `https://picsum.photos/seed/${video.id}/800/450`}
+                            alt={`${video.title} thumbnail`}
+                          />
+                          {video.duration ? (
+                            <div className="absolute bottom-1 right-1 bg-black/70 text-white text-xs px-1 rounded">
+                              {formatDuration(video.duration)}
+                            </div>
+                          ) : null}
+                        </div>
+                        <div className="min-w-0">
+                          <h3 className="text-sm font-medium text-gray-900 line-clamp-2 group-hover:text-brand-blue">
+                            {video.title}
+                          </h3>
+                          <p className="text-xs text-gray-500 mt-1">
+                            {video.views} views • {formatDistanceToNow(new Date(video.uploadDate), { addSuffix: true })}
+                          </p>
+                        </div>
+                      </Link>
+                      {canManage && (
+                        <div className="flex items-center">
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => moveVideo(index, -1)}
+                            disabled={index === 0 || reorderMutation.isPending}
+                          >
+                            <ArrowUp className="h-4 w-4" />
+                            <span className="sr-only">Move up</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => moveVideo(index, 1)}
+                            disabled={index === playlist.videos.length - 1 || reorderMutation.isPending}
+                          >
+                            <ArrowDown className="h-4 w-4" />
+                            <span className="sr-only">Move down</span>
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => removeMutation.mutate(video.id)}
+                            disabled={removeMutation.isPending}
+                          >
+                            <X className="h-4 w-4" />
+                            <span className="sr-only">Remove from playlist</span>
+                          </Button>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              ) : (
+                <div className="text-center py-12">
+                  <h3 className="text-lg font-medium text-gray-900">No videos yet</h3>
+                  <p className="mt-2 text-sm text-gray-500">
+                    Use Save on a video to add it to this playlist.
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+
+      {/* Edit Playlist Dialog */}
+      <Dialog open={isEditOpen} onOpenChange={setIsEditOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Edit Playlist</DialogTitle>
+            <DialogDescription>
+              Change the playlist's details and who can see it.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="playlist-title">Title</Label>
+              <Input
+                id="playlist-title"
+                value={form.title}
+                maxLength={100}
+                onChange={(e) => setForm({ ...form, title: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="playlist-description">Description</Label>
+              <Textarea
+                id="playlist-description"
+                value={form.description}
+                maxLength={1000}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Visibility</Label>
+              <VisibilitySelect value={form.visibility} onChange={(visibility) => setForm({ ...form, visibility })} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsEditOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => updateMutation.mutate()}
+              disabled={updateMutation.isPending || !form.title.trim()}
+            >
+              {updateMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Playlist Dialog */}
+      <Dialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Delete Playlist</DialogTitle>
+            <DialogDescription>
+              Delete "{playlist?.title}"? The videos themselves are not affected. This action cannot be undone.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDeleteOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={() => deleteMutation.mutate()}
+              disabled={deleteMutation.isPending}
+            >
+              {deleteMutation.isPending ? "Deleting..." : "Delete"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
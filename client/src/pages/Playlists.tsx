@@ -0,0 +1,159 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Playlist, PlaylistSummary, VideoVisibility } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/context/AuthContext";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import VisibilitySelect from "@/components/VisibilitySelect";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ListVideo, Plus } from "lucide-react";
+
+export default function Playlists() {
+  const [, navigate] = useLocation();
+  const { user, isLoading: authLoading } = useAuth();
+  const { toast } = useToast();
+  const [isCreateOpen, setIsCreateOpen] = useState(false);
+  const [title, setTitle] = useState("");
+  const [visibility, setVisibility] = useState<VideoVisibility>("public");
+
+  // Redirect if not logged in
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/login?redirect=/playlists");
+    }
+  }, [user, authLoading, navigate]);
+
+  const { data: playlists, isLoading, error } = useQuery<PlaylistSummary[]>({
+    queryKey: ["/api/playlists"],
+    enabled: !!user,
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/playlists", { title, visibility });
+      return res.json() as Promise<Playlist>;
+    },
+    onSuccess: (playlist) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/playlists"] });
+      setIsCreateOpen(false);
+      setTitle("");
+      setVisibility("public");
+      navigate(`/playlist/${playlist.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to create playlist.",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center mb-6">
+            <h2 className="text-xl font-bold text-gray-900">Playlists</h2>
+            <Button onClick={() => setIsCreateOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Playlist
+            </Button>
+          </div>
+
+          {isLoading || authLoading ? (
+            <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+              {Array(3).fill(0).map((_, i) => (
+                <Skeleton key={i} className="h-24 w-full rounded-lg" />
+              ))}
+            </div>
+          ) : error ? (
+            <p className="text-center py-12 text-sm text-gray-500">Failed to load playlists.</p>
+          ) : playlists && playlists.length > 0 ? (
+            <div className="grid grid-cols-1 gap-6 sm:grid-cols-2 lg:grid-cols-3">
+              {playlists.map((playlist) => (
+                <Link key={playlist.id} href={`/playlist/${playlist.id}`}>
+                  <div className="flex items-start gap-3 rounded-lg border bg-white p-4 cursor-pointer hover:shadow">
+                    <ListVideo className="h-6 w-6 flex-shrink-0 text-gray-400" />
+                    <div className="min-w-0">
+                      <h3 className="font-medium text-gray-900 truncate">{playlist.title}</h3>
+                      <p className="text-xs text-gray-500 mt-1">
+                        {playlist.videoCount} {playlist.videoCount === 1 ? "video" : "videos"}
+                        {" • "}<span className="capitalize">{playlist.visibility}</span>
+                        {" • "}Updated {formatDistanceToNow(new Date(playlist.updatedAt), { addSuffix: true })}
+                      </p>
+                    </div>
+                  </div>
+                </Link>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900">No playlists yet</h3>
+              <p className="mt-2 text-sm text-gray-500">
+                Create one here, or use Save on any video.
+              </p>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+
+      {/* Create Playlist Dialog */}
+      <Dialog open={isCreateOpen} onOpenChange={setIsCreateOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>New Playlist</DialogTitle>
+            <DialogDescription>
+              Add videos to it with Save on any video page.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="new-playlist-title">Title</Label>
+              <Input
+                id="new-playlist-title"
+                value={title}
+                maxLength={100}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Visibility</Label>
+              <VisibilitySelect value={visibility} onChange={setVisibility} />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsCreateOpen(false)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => createMutation.mutate()}
+              disabled={createMutation.isPending || !title.trim()}
+            >
+              {createMutation.isPending ? "Creating..." : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { useAuth } from "@/context/AuthContext";
+import { registerSchema, SignupPolicy } from "@shared/schema";
+import { z } from "zod";
+
+// UI Components
+import { Button } from "@/components/ui/button";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+
+type FormValues = z.infer<typeof registerSchema>;
+
+export default function Register() {
+  const [location, navigate] = useLocation();
+  const { user, register, isLoading } = useAuth();
+
+  // Invite links look like /register?invite=<code>
+  const params = new URLSearchParams(location.split("?")[1]);
+  const inviteFromUrl = params.get("invite") || "";
+
+  // Fetch the current sign-up policy
+  const { data: registration, isLoading: policyLoading } = useQuery<{ signupPolicy: SignupPolicy }>({
+    queryKey: ["/api/auth/registration"],
+  });
+
+  // Form initialization
+  const form = useForm<FormValues>({
+    resolver: zodResolver(registerSchema),
+    defaultValues: {
+      username: "",
+      password: "",
+      confirmPassword: "",
+      inviteCode: inviteFromUrl,
+    },
+  });
+
+  // Redirect if already logged in
+  useEffect(() => {
+    if (user) {
+      navigate("/");
+    }
+  }, [user, navigate]);
+
+  // Handle form submission
+  const onSubmit = async (data: FormValues) => {
+    const success = await register(data);
+    if (success) {
+      navigate("/");
+    }
+  };
+
+  const policy = registration?.signupPolicy;
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow flex items-center justify-center bg-slate-50 p-4">
+        <Card className="w-full max-w-md">
+          <CardHeader className="space-y-1">
+            <CardTitle className="text-2xl font-bold">Create an account</CardTitle>
+            <CardDescription>
+              {policy === "invite"
+                ? "Registration is by invitation. Enter your invite code to sign up."
+                : "Sign up to upload and share videos"}
+            </CardDescription>
+          </CardHeader>
+
+          <CardContent>
+            {policyLoading ? (
+              <div className="space-y-4">
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+                <Skeleton className="h-10 w-full" />
+              </div>
+            ) : policy === "closed" ? (
+              <p className="text-sm text-gray-600">
+                Registration is currently closed. Please contact an administrator for an account.
+              </p>
+            ) : (
+              <Form {...form}>
+                <form
+                  onSubmit={form.handleSubmit(onSubmit)}
+                  className="space-y-4"
+                >
+                  <FormField
+                    control={form.control}
+                    name="username"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Username</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Choose a username" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Password</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            placeholder="Choose a password"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirm Password</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            placeholder="Repeat your password"
+                            {...field}
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {policy === "invite" && (
+                    <FormField
+                      control={form.control}
+                      name="inviteCode"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Invite Code</FormLabel>
+                          <FormControl>
+                            <Input placeholder="Enter your invite code" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={isLoading}
+                  >
+                    {isLoading ? "Creating account..." : "Sign up"}
+                  </Button>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+
+          <CardFooter className="flex justify-center">
+            <p className="text-sm text-gray-600">
+              Already have an account?{" "}
+              <Link href="/login" className="font-medium text-primary hover:text-primary/90">
+                Log in
+              </Link>
+            </p>
+          </CardFooter>
+        </Card>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,255 @@
+import { Link, useLocation, useSearch } from "wouter";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Category, HighlightedText, SearchResult, SearchResultPage } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { markTrafficSource } from "@/lib/trafficSource";
+import { getThumbnailUrl, formatDuration } from "@/lib/media";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import { Button } from "@/components/ui/button";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+const RESULTS_PER_PAGE = 20;
+
+// Duration filters, in seconds
+const DURATION_FILTERS: Record<string, { label: string; min?: number; max?: number }> = {
+  any: { label: "Any duration" },
+  short: { label: "Under 4 minutes", max: 4 * 60 },
+  medium: { label: "4-20 minutes", min: 4 * 60, max: 20 * 60 },
+  long: { label: "Over 20 minutes", min: 20 * 60 },
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+const DATE_FILTERS: Record<string, { label: string; age?: number }> = {
+  any: { label: "Any time" },
+  today: { label: "Today", age: DAY },
+  week: { label: "This week", age: 7 * DAY },
+  month: { label: "This month", age: 30 * DAY },
+  year: { label: "This year", age: 365 * DAY },
+};
+
+// Render text with the server's match offsets wrapped in <mark>
+function Highlighted({ value }: { value: HighlightedText }) {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  value.matches.forEach(([start, end], i) => {
+    parts.push(value.text.slice(position, start));
+    parts.push(
+      <mark key={i} className="bg-yellow-100 text-inherit rounded-sm">
+        {value.text.slice(start, end)}
+      </mark>
+    );
+    position = end;
+  });
+  parts.push(value.text.slice(position));
+  return <>{parts}</>;
+}
+
+function SearchResultItem({ result }: { result: SearchResult }) {
+  const { video } = result;
+
+  return (
+    <Link href={`/video/${video.id}`} onClick={() => markTrafficSource("search")}>
+      <div className="group flex gap-4 cursor-pointer">
+        <div className="relative w-64 flex-shrink-0 aspect-video overflow-hidden rounded-lg bg-gray-100">
+          <img
+            className="object-cover w-full h-full"
+            src={getThumbnailUrl(video) || `https://picsum.photos/seed/${video.id}/800/450`}
+            alt={`${video.title} thumbnail`}
+          />
+          {video.duration ? (
+            <div className="absolute bottom-2 right-2 bg-black/70 text-white text-xs px-1 py-0.5 rounded">
+              {formatDuration(video.duration)}
+            </div>
+          ) : null}
+        </div>
+        <div className="min-w-0">
+          <h3 className="text-base font-medium text-gray-900 line-clamp-2 group-hover:text-brand-blue">
+            <Highlighted value={result.title} />
+          </h3>
+          <p className="text-xs text-gray-500 mt-1">
+            {video.views} views • {formatDistanceToNow(new Date(video.uploadDate), { addSuffix: true })}
+            {video.category ? ` • ${video.category}` : ""}
+          </p>
+          {result.snippet && (
+            <p className="text-sm text-gray-600 mt-2 line-clamp-2">
+              <Highlighted value={result.snippet} />
+            </p>
+          )}
+        </div>
+      </div>
+    </Link>
+  );
+}
+
+export default function Search() {
+  const [, navigate] = useLocation();
+  const search = useSearch();
+
+  // The query and every filter live in the URL so results can be shared
+  const params = new URLSearchParams(search);
+  const q = params.get("q")?.trim() || "";
+  const category = params.get("category") || "All";
+  const durationParam = params.get("duration") || "any";
+  const duration = durationParam in DURATION_FILTERS ? durationParam : "any";
+  const dateParam = params.get("date") || "any";
+  const date = dateParam in DATE_FILTERS ? dateParam : "any";
+
+  const setFilter = (name: string, value: string) => {
+    const next = new URLSearchParams(search);
+    if (value === "any" || value === "All") {
+      next.delete(name);
+    } else {
+      next.set(name, value);
+    }
+    navigate(`/search?${next.toString()}`);
+  };
+
+  const { data: categories } = useQuery<Category[]>({
+    queryKey: ["/api/categories"],
+  });
+
+  const queryString = new URLSearchParams({ q, limit: RESULTS_PER_PAGE.toString() });
+  if (category !== "All") {
+    queryString.append("category", category);
+  }
+  const { min, max } = DURATION_FILTERS[duration];
+  if (min !== undefined) {
+    queryString.append("minDuration", min.toString());
+  }
+  if (max !== undefined) {
+    queryString.append("maxDuration", max.toString());
+  }
+  const { age } = DATE_FILTERS[date];
+  if (age !== undefined) {
+    // Rounded to the hour so the query key stays stable between renders
+    const after = Math.floor((Date.now() - age) / (60 * 60 * 1000)) * 60 * 60 * 1000;
+    queryString.append("uploadedAfter", new Date(after).toISOString());
+  }
+
+  const {
+    data,
+    isLoading,
+    error,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/search", queryString.toString()],
+    queryFn: async ({ pageParam }) => {
+      const pageParams = new URLSearchParams(queryString);
+      if (pageParam) {
+        pageParams.append("cursor", pageParam);
+      }
+      const res = await apiRequest("GET", `/api/search?${pageParams.toString()}`);
+      return res.json() as Promise<SearchResultPage>;
+    },
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!q,
+  });
+
+  const results = data?.pages.flatMap((page) => page.results);
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8">
+          <h2 className="text-xl font-bold text-gray-900 mb-4">
+            {q ? `Search Results for "${q}"` : "Search"}
+          </h2>
+
+          <div className="flex flex-wrap gap-3 mb-6">
+            <Select value={category} onValueChange={(value) => setFilter("category", value)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="All">All categories</SelectItem>
+                {categories?.map((c) => (
+                  <SelectItem key={c.id} value={c.name}>
+                    {c.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={duration} onValueChange={(value) => setFilter("duration", value)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DURATION_FILTERS).map(([value, { label }]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={date} onValueChange={(value) => setFilter("date", value)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(DATE_FILTERS).map(([value, { label }]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {!q ? (
+            <p className="text-center py-12 text-sm text-gray-500">Enter a search term to find videos.</p>
+          ) : isLoading ? (
+            <div className="space-y-6">
+              {Array(4).fill(0).map((_, i) => (
+                <div key={i} className="flex gap-4">
+                  <Skeleton className="w-64 aspect-video rounded-lg" />
+                  <div className="flex-1 space-y-2">
+                    <Skeleton className="h-5 w-3/4" />
+                    <Skeleton className="h-3 w-1/3" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : error ? (
+            <p className="text-center py-12 text-sm text-gray-500">Search failed. Please try again.</p>
+          ) : results && results.length > 0 ? (
+            <div className="space-y-6">
+              {results.map((result) => (
+                <SearchResultItem key={result.video.id} result={result} />
+              ))}
+              {hasNextPage && (
+                <div className="text-center">
+                  <Button variant="outline" onClick={() => fetchNextPage()} disabled={isFetchingNextPage}>
+                    {isFetchingNextPage ? "Loading..." : "Load more"}
+                  </Button>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="text-center py-12">
+              <h3 className="text-lg font-medium text-gray-900">No videos found</h3>
+              <p className="mt-2 text-sm text-gray-500">
+                Try different keywords or remove some filters.
+              </p>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useCallback, useState } from "react";
+import { useRoute } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { VideoWithStream, PublicProfile } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import Header from "@/components/Header";
+import VideoPlayer from "@/components/VideoPlayer";
+import Footer from "@/components/Footer";
+
+// UI Components
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Lock } from "lucide-react";
+
+// Share links answer 401 until a password-protected link is unlocked
+class ShareError extends Error {
+  constructor(message: string, public passwordRequired: boolean) {
+    super(message);
+  }
+}
+
+export default function SharedVideo() {
+  const [, params] = useRoute("/s/:token");
+  const token = params?.token ?? "";
+  const [password, setPassword] = useState("");
+  const shareUrl = `/api/shares/${encodeURIComponent(token)}`;
+
+  const {
+    data: video,
+    isLoading,
+    error,
+    refetch,
+  } = useQuery<VideoWithStream, ShareError>({
+    queryKey: [shareUrl],
+    queryFn: async () => {
+      const res = await fetch(shareUrl, { credentials: "include" });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new ShareError(body.message || "This link is not available", !!body.passwordRequired);
+      }
+      return body;
+    },
+    enabled: !!token,
+  });
+
+  const { data: uploader } = useQuery<PublicProfile>({
+    queryKey: [`/api/users/${video?.uploaderId}`],
+    enabled: !!video?.uploaderId,
+  });
+
+  // Re-opening the link mints fresh signed stream URLs
+  const refreshStream = useCallback(async () => {
+    const { data } = await refetch();
+    return data?.stream;
+  }, [refetch]);
+
+  const unlockMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `${shareUrl}/unlock`, { password }),
+    onSuccess: () => {
+      setPassword("");
+      refetch();
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow bg-slate-900 text-white">
+        <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+          {isLoading ? (
+            <Skeleton className="aspect-video w-full rounded-lg" />
+          ) : error?.passwordRequired ? (
+            <form
+              className="max-w-sm mx-auto py-16 space-y-4 text-center"
+              onSubmit={(e) => {
+                e.preventDefault();
+                unlockMutation.mutate();
+              }}
+            >
+              <Lock className="mx-auto h-10 w-10 text-slate-400" />
+              <h1 className="text-lg font-semibold">This video is password protected</h1>
+              <Input
+                type="password"
+                placeholder="Password"
+                className="text-gray-900"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+              />
+              {unlockMutation.isError && (
+                <p className="text-sm text-red-400">Incorrect password</p>
+              )}
+              <Button type="submit" className="w-full" disabled={!password || unlockMutation.isPending}>
+                {unlockMutation.isPending ? "Checking..." : "Watch"}
+              </Button>
+            </form>
+          ) : error || !video ? (
+            <div className="py-16 text-center">
+              <h1 className="text-lg font-semibold">{error?.message || "This link is not available"}</h1>
+            </div>
+          ) : (
+            <>
+              <VideoPlayer video={video} stream={video.stream} refreshStream={refreshStream} viewSource="share" />
+              <h1 className="text-xl font-bold mt-6 mb-2">{video.title}</h1>
+              {uploader && (
+                <p className="text-sm text-slate-400 mb-4">
+                  Shared by {uploader.displayName || uploader.username}
+                </p>
+              )}
+              {video.description && (
+                <p className="text-sm text-slate-300">{video.description}</p>
+              )}
+            </>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
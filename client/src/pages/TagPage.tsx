@@ -0,0 +1,25 @@
+import { useRoute } from "wouter";
+import Header from "@/components/Header";
+import VideoGrid from "@/components/VideoGrid";
+import Footer from "@/components/Footer";
+
+export default function TagPage() {
+  const [, params] = useRoute("/tag/:name");
+  const name = decodeURIComponent(params?.name ?? "");
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <h2 className="text-xl font-bold text-gray-900 mb-6">#{name}</h2>
+
+          <VideoGrid tags={[name]} />
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useEffect, useState } from "react";
+import { Link, useLocation, useRoute } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { VideoAnalytics as VideoAnalyticsData, VideoWithStream } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/context/AuthContext";
+import Header from "@/components/Header";
+import Footer from "@/components/Footer";
+import {
+  PeriodSelect,
+  StatCard,
+  ViewTotals,
+  ViewsOverTimeChart,
+  RetentionChart,
+  TrafficSourcesChart,
+  DevicesChart,
+} from "@/components/AnalyticsCharts";
+import { Skeleton } from "@/components/ui/skeleton";
+import { ArrowLeft } from "lucide-react";
+
+export default function VideoAnalytics() {
+  const [match, params] = useRoute("/video/:id/analytics");
+  const videoId = match ? parseInt(params.id) : -1;
+  const [location, navigate] = useLocation();
+  const { user, isLoading: authLoading } = useAuth();
+  const [days, setDays] = useState(28);
+
+  // Redirect if not logged in
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate(`/login?redirect=${encodeURIComponent(location)}`);
+    }
+  }, [user, authLoading, location, navigate]);
+
+  const { data: video } = useQuery<VideoWithStream>({
+    queryKey: [`/api/videos/${videoId}`],
+    enabled: videoId > 0,
+  });
+
+  const { data: analytics, isLoading, error } = useQuery({
+    queryKey: [`/api/videos/${videoId}/analytics`, { days }],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/videos/${videoId}/analytics?days=${days}`);
+      return res.json() as Promise<VideoAnalyticsData>;
+    },
+    enabled: !!user && videoId > 0,
+  });
+
+  return (
+    <div className="min-h-screen flex flex-col">
+      <Header />
+
+      <main className="flex-grow py-8">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <Link href={`/video/${videoId}`} className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 mb-4">
+            <ArrowLeft className="h-4 w-4 mr-1" />
+            Back to video
+          </Link>
+
+          <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+            <div className="min-w-0">
+              <h2 className="text-xl font-bold text-gray-900">Analytics</h2>
+              {video && <p className="text-sm text-gray-500 truncate">{video.title}</p>}
+            </div>
+            <PeriodSelect value={days} onChange={setDays} />
+          </div>
+
+          {isLoading || authLoading ? (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+                {Array(4).fill(0).map((_, i) => (
+                  <Skeleton key={i} className="h-24 w-full rounded-lg" />
+                ))}
+              </div>
+              <Skeleton className="h-72 w-full rounded-lg" />
+            </div>
+          ) : error || !analytics ? (
+            <p className="text-center py-12 text-sm text-gray-500">
+              {error?.message.startsWith("403") ? "Only the uploader and admins can see this video's analytics." : "Failed to load analytics."}
+            </p>
+          ) : (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 gap-4 lg:grid-cols-4">
+                <ViewTotals stats={analytics} />
+                <StatCard label="Lifetime views" value={analytics.lifetimeViews} />
+              </div>
+              <ViewsOverTimeChart data={analytics.viewsByDay} />
+              <RetentionChart data={analytics.retention} />
+              <div className="grid grid-cols-1 gap-6 md:grid-cols-2">
+                <TrafficSourcesChart counts={analytics.trafficSources} />
+                <DevicesChart counts={analytics.devices} />
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,44 +1,162 @@
-import { useEffect } from "react";
-import { useRoute, Link } from "wouter";
-import { useQuery } from "@tanstack/react-query";
+import { useCallback, useEffect, useState } from "react";
+import { useRoute, useLocation, useSearch, Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
 import { formatDistanceToNow } from "date-fns";
-import { Video, User } from "@shared/schema";
+import { VideoWithStream, PublicProfile, ReactionType, ReactionSummary, PlaylistWithVideos } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { useWatchProgress, useSaveWatchProgress } from "@/hooks/use-watch-progress";
 import Header from "@/components/Header";
 import VideoPlayer from "@/components/VideoPlayer";
+import EditVideoDialog from "@/components/EditVideoDialog";
+import ShareDialog from "@/components/ShareDialog";
+import CommentSection from "@/components/CommentSection";
+import AddToPlaylistDialog from "@/components/AddToPlaylistDialog";
+import PlaylistQueue from "@/components/PlaylistQueue";
+import { parsePlaybackOptions, playbackOrder, playbackUrl, nextInOrder } from "@/lib/playlistPlayback";
+import { getResumePosition } from "@/lib/watchProgress";
+import { useAuth } from "@/context/AuthContext";
 import Footer from "@/components/Footer";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Button } from "@/components/ui/button";
+import { ToastAction } from "@/components/ui/toast";
 import { 
   ThumbsUp, 
   ThumbsDown, 
   Share2, 
   ArrowLeft,
+  Pencil,
+  ListPlus,
+  BarChart3,
 } from "lucide-react";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+
+// Move the viewer's reaction from whatever it was to `next`, adjusting both counts
+const applyReaction = (video: VideoWithStream, next: ReactionType | null): VideoWithStream => {
+  let { likes, dislikes } = video;
+  if (video.reaction === "like") likes--;
+  if (video.reaction === "dislike") dislikes--;
+  if (next === "like") likes++;
+  if (next === "dislike") dislikes++;
+  return { ...video, likes, dislikes, reaction: next };
+};
 
 export default function VideoPage() {
   const [match, params] = useRoute("/video/:id");
   const videoId = match ? parseInt(params.id) : -1;
+  const [, navigate] = useLocation();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [isEditOpen, setIsEditOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+
+  // Set when the video is being played as part of a playlist
+  const playback = parsePlaybackOptions(useSearch());
 
   // Fetch video details
   const { 
     data: video, 
     isLoading: videoLoading, 
-    error: videoError 
-  } = useQuery<Video>({
+    error: videoError,
+    refetch: refetchVideo
+  } = useQuery<VideoWithStream>({
     queryKey: [`/api/videos/${videoId}`],
     enabled: videoId > 0,
   });
 
+  // Re-fetching the video mints fresh signed stream URLs
+  const refreshStream = useCallback(async () => {
+    const { data } = await refetchVideo();
+    return data?.stream;
+  }, [refetchVideo]);
+
   // Fetch uploader info if we have a video
   const { 
     data: uploader, 
     isLoading: uploaderLoading 
-  } = useQuery<User>({
+  } = useQuery<PublicProfile>({
     queryKey: [`/api/users/${video?.uploaderId}`],
     enabled: !!video?.uploaderId,
   });
 
+  const { data: playlist } = useQuery<PlaylistWithVideos>({
+    queryKey: [`/api/playlists/${playback?.playlistId}`],
+    enabled: !!playback,
+  });
+
+  const getProgress = useWatchProgress();
+  const saveProgress = useSaveWatchProgress();
+
+  const playlistOrder = playlist && playback ? playbackOrder(playlist.videos, playback.shuffleSeed) : [];
+  const nextVideo = playback ? nextInOrder(playlistOrder, videoId, playback.loop) : null;
+
+  // Like/dislike mutation. Counts update immediately and roll back if the request fails.
+  const videoQueryKey = [`/api/videos/${videoId}`];
+  const reactionMutation = useMutation({
+    mutationFn: async (reaction: ReactionType | null) => {
+      const res = reaction
+        ? await apiRequest("PUT", `/api/videos/${videoId}/reaction`, { type: reaction })
+        : await apiRequest("DELETE", `/api/videos/${videoId}/reaction`);
+      return res.json() as Promise<ReactionSummary>;
+    },
+    onMutate: async (reaction) => {
+      await queryClient.cancelQueries({ queryKey: videoQueryKey });
+      const previous = queryClient.getQueryData<VideoWithStream>(videoQueryKey);
+      if (previous) {
+        queryClient.setQueryData(videoQueryKey, applyReaction(previous, reaction));
+      }
+      return { previous };
+    },
+    onSuccess: (summary) => {
+      queryClient.setQueryData<VideoWithStream>(videoQueryKey, (current) => current && { ...current, ...summary });
+      queryClient.invalidateQueries({ queryKey: ["/api/users/me/liked"] });
+    },
+    onError: (error: Error, _reaction, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(videoQueryKey, context.previous);
+      }
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: error.message || "Failed to save your reaction.",
+      });
+    },
+  });
+
+  const promptSignIn = (title: string, description: string) => {
+    toast({
+      title,
+      description,
+      action: (
+        <ToastAction altText="Log in" onClick={() => navigate(`/login?redirect=/video/${videoId}`)}>
+          Log in
+        </ToastAction>
+      ),
+    });
+  };
+
+  // Clicking the active reaction again clears it
+  const handleReaction = (type: ReactionType) => {
+    if (!video) return;
+
+    if (!user) {
+      promptSignIn("Sign in to react", "You need an account to like or dislike videos.");
+      return;
+    }
+
+    reactionMutation.mutate(video.reaction === type ? null : type);
+  };
+
+  const handleSave = () => {
+    if (!user) {
+      promptSignIn("Sign in to save videos", "You need an account to add videos to playlists.");
+      return;
+    }
+
+    setIsSaveOpen(true);
+  };
+
   // Format view count to a more readable format
   const formatViews = (views: number) => {
     if (views >= 1000000) {
@@ -54,10 +172,10 @@ export default function VideoPage() {
     return formatDistanceToNow(new Date(date), { addSuffix: true });
   };
 
-  // Scroll to top when component mounts
+  // Scroll to top when the page opens and when a playlist moves on
   useEffect(() => {
     window.scrollTo(0, 0);
-  }, []);
+  }, [videoId]);
 
   if (!match) {
     return <div>Video not found</div>;
@@ -87,7 +205,17 @@ export default function VideoPage() {
                     <p>Error loading video</p>
                   </div>
                 ) : video ? (
-                  <VideoPlayer video={video} />
+                  <VideoPlayer
+                    key={video.id}
+                    video={video}
+                    stream={video.stream}
+                    refreshStream={refreshStream}
+                    autoPlay={!!playback}
+                    onEnded={playback && nextVideo ? () => navigate(playbackUrl(nextVideo.id, playback)) : undefined}
+                    // Playlists always play from the start
+                    resumeAt={playback ? null : getResumePosition(getProgress(video.id))}
+                    onProgress={(position, duration) => saveProgress(video.id, position, duration)}
+                  />
                 ) : null}
               </div>
               
@@ -110,21 +238,75 @@ export default function VideoPage() {
                     <h1 className="text-xl font-bold mb-2">{video.title}</h1>
                     <div className="text-slate-300 text-sm mb-4">
                       {formatViews(video.views)} views • {formatDate(video.uploadDate)}
+                      {video.visibility !== "public" && (
+                        <span className="capitalize"> • {video.visibility}</span>
+                      )}
                     </div>
                     
                     <div className="flex items-center space-x-4 mb-6">
-                      <Button variant="ghost" size="sm" className="flex items-center text-slate-300 hover:text-white">
-                        <ThumbsUp className="h-5 w-5 mr-1" />
-                        Like
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={`flex items-center hover:text-white ${video.reaction === "like" ? "text-white" : "text-slate-300"}`}
+                        aria-pressed={video.reaction === "like"}
+                        onClick={() => handleReaction("like")}
+                      >
+                        <ThumbsUp className={`h-5 w-5 mr-1 ${video.reaction === "like" ? "fill-current" : ""}`} />
+                        {formatViews(video.likes)}
+                        <span className="sr-only">Like</span>
                       </Button>
-                      <Button variant="ghost" size="sm" className="flex items-center text-slate-300 hover:text-white">
-                        <ThumbsDown className="h-5 w-5 mr-1" />
-                        Dislike
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className={`flex items-center hover:text-white ${video.reaction === "dislike" ? "text-white" : "text-slate-300"}`}
+                        aria-pressed={video.reaction === "dislike"}
+                        onClick={() => handleReaction("dislike")}
+                      >
+                        <ThumbsDown className={`h-5 w-5 mr-1 ${video.reaction === "dislike" ? "fill-current" : ""}`} />
+                        {formatViews(video.dislikes)}
+                        <span className="sr-only">Dislike</span>
                       </Button>
-                      <Button variant="ghost" size="sm" className="flex items-center text-slate-300 hover:text-white">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="flex items-center text-slate-300 hover:text-white"
+                        onClick={() => setIsShareOpen(true)}
+                      >
                         <Share2 className="h-5 w-5 mr-1" />
                         Share
                       </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="flex items-center text-slate-300 hover:text-white"
+                        onClick={handleSave}
+                      >
+                        <ListPlus className="h-5 w-5 mr-1" />
+                        Save
+                      </Button>
+                      {user && (user.isAdmin || user.id === video.uploaderId) && (
+                        <>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="flex items-center text-slate-300 hover:text-white"
+                            onClick={() => setIsEditOpen(true)}
+                          >
+                            <Pencil className="h-5 w-5 mr-1" />
+                            Edit
+                          </Button>
+                          <Link href={`/video/${video.id}/analytics`}>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              className="flex items-center text-slate-300 hover:text-white"
+                            >
+                              <BarChart3 className="h-5 w-5 mr-1" />
+                              Analytics
+                            </Button>
+                          </Link>
+                        </>
+                      )}
                     </div>
                     
                     <div className="border-t border-slate-700 pt-4">
@@ -133,6 +315,7 @@ export default function VideoPage() {
                           <Skeleton className="h-10 w-10 rounded-full mr-3" />
                         ) : (
                           <Avatar className="h-10 w-10 mr-3">
+                            {uploader?.avatarUrl && <AvatarImage src={uploader.avatarUrl} alt={uploader.username} />}
                             <AvatarFallback>
                               {uploader?.username.charAt(0).toUpperCase()}
                             </AvatarFallback>
@@ -140,7 +323,9 @@ export default function VideoPage() {
                         )}
                         <div>
                           <h3 className="font-medium">
-                            {uploader?.username || "User"}
+                            <Link href={`/channel/${video.uploaderId}`} className="hover:underline">
+                              {uploader?.displayName || uploader?.username || "User"}
+                            </Link>
                           </h3>
                           <div className="text-sm text-slate-400">
                             {video.category || "Uncategorized"}
@@ -150,6 +335,19 @@ export default function VideoPage() {
                       <p className="text-sm text-slate-300 mb-4">
                         {video.description || "No description provided"}
                       </p>
+                      {video.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-2 mb-4">
+                          {video.tags.map((tag) => (
+                            <Link
+                              key={tag}
+                              href={`/tag/${encodeURIComponent(tag)}`}
+                              className="text-sm text-blue-300 hover:underline"
+                            >
+                              #{tag}
+                            </Link>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </>
                 ) : null}
@@ -157,9 +355,44 @@ export default function VideoPage() {
             </div>
           </div>
         </div>
+
+        {video && (
+          <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8 lg:flex lg:items-start lg:space-x-6">
+            <div className="lg:w-3/4">
+              <CommentSection video={video} />
+            </div>
+            {playback && playlist && (
+              <div className="mt-8 lg:mt-0 lg:w-1/4">
+                <PlaylistQueue
+                  playlist={playlist}
+                  order={playlistOrder}
+                  currentVideoId={video.id}
+                  options={playback}
+                />
+              </div>
+            )}
+          </div>
+        )}
       </main>
       
       <Footer />
+
+      {video && (
+        <EditVideoDialog video={video} isOpen={isEditOpen} setIsOpen={setIsEditOpen} />
+      )}
+
+      {video && user && (
+        <AddToPlaylistDialog video={video} isOpen={isSaveOpen} setIsOpen={setIsSaveOpen} />
+      )}
+
+      {video && (
+        <ShareDialog
+          video={video}
+          canManage={!!user && (user.isAdmin || user.id === video.uploaderId)}
+          isOpen={isShareOpen}
+          setIsOpen={setIsShareOpen}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,32 @@
+import { ViewStats, RetentionPoint } from "@shared/schema";
+
+// The retention curve has a point every 100 / RETENTION_BUCKETS percent of the video
+export const RETENTION_BUCKETS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Start of the UTC day `days - 1` days ago, so a period always ends with today
+export function analyticsSince(days: number): Date {
+  const today = new Date();
+  today.setUTCHours(0, 0, 0, 0);
+  return new Date(today.getTime() - (days - 1) * DAY_MS);
+}
+
+// Storage only reports days that had views; charts want every day
+export function fillViewsByDay(since: Date, days: number, viewsByDay: ViewStats["viewsByDay"]): ViewStats["viewsByDay"] {
+  const views = new Map(viewsByDay.map(day => [day.date, day.views]));
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(since.getTime() + i * DAY_MS).toISOString().slice(0, 10);
+    return { date, views: views.get(date) ?? 0 };
+  });
+}
+
+// `reached[i]` is how many plays lasted at least i / RETENTION_BUCKETS of the
+// video, so reached[0] is every play
+export function retentionCurve(reached: number[]): RetentionPoint[] {
+  const plays = reached[0] ?? 0;
+  return reached.map((count, i) => ({
+    percent: (i * 100) / RETENTION_BUCKETS,
+    viewers: plays > 0 ? count / plays : 0,
+  }));
+}
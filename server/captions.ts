@@ -0,0 +1,79 @@
+// Caption files: SRT is converted to WebVTT, the format browsers play in
+// <track> elements, and cue text is pulled out for the search index.
+
+// Caption files are small; anything bigger is unlikely to be captions at all
+export const MAX_CAPTION_SIZE = 1024 * 1024;
+
+export class CaptionFormatError extends Error {}
+
+// "00:01:02.500 --> 00:01:04.000", hours optional, with any cue settings after
+const VTT_TIMING = /^(?:\d+:)?\d{2}:\d{2}\.\d{3}\s+-->\s+(?:\d+:)?\d{2}:\d{2}\.\d{3}/;
+// SRT uses a comma before the milliseconds and always has hours
+const SRT_TIMESTAMP = /(\d{1,2}):(\d{2}:\d{2}),(\d{3})/g;
+const SRT_TIMING = /^\d{1,2}:\d{2}:\d{2},\d{3}\s+-->\s+\d{1,2}:\d{2}:\d{2},\d{3}/;
+
+// Drop the byte order mark and normalise line endings
+const normalize = (text: string) => text.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+
+function srtToVtt(srt: string): string {
+  const blocks = srt.trim().split(/\n{2,}/);
+  const cues = blocks.map(block => {
+    const lines = block.split("\n");
+    // The numeric counter line is optional in practice
+    const timingIndex = lines.findIndex(line => SRT_TIMING.test(line));
+    if (timingIndex === -1 || timingIndex > 1) {
+      throw new CaptionFormatError("Invalid SRT cue");
+    }
+    // WebVTT wants at least two digits of hours
+    const timing = lines[timingIndex].replace(SRT_TIMESTAMP, (_match, hours: string, rest: string, millis: string) =>
+      `${hours.padStart(2, "0")}:${rest}.${millis}`
+    );
+    return [timing, ...lines.slice(timingIndex + 1)].join("\n");
+  });
+  return `WEBVTT\n\n${cues.join("\n\n")}\n`;
+}
+
+// Returns the file as WebVTT. `fileName` decides the format when the content
+// doesn't make it obvious.
+export function toWebVtt(content: string, fileName: string): string {
+  const text = normalize(content);
+
+  if (/^WEBVTT(?:[ \t].*)?(?:\n|$)/.test(text)) {
+    if (!text.split("\n").some(line => VTT_TIMING.test(line))) {
+      throw new CaptionFormatError("The WebVTT file has no cues");
+    }
+    return text;
+  }
+
+  if (fileName.toLowerCase().endsWith(".srt") || text.split("\n").some(line => SRT_TIMING.test(line))) {
+    return srtToVtt(text);
+  }
+
+  throw new CaptionFormatError("Captions must be WebVTT or SRT");
+}
+
+// The spoken text of a WebVTT file, without timings, cue ids, comments or markup
+export function captionText(vtt: string): string {
+  const blocks = normalize(vtt).split(/\n{2,}/).slice(1);
+  const text: string[] = [];
+
+  for (const block of blocks) {
+    const lines = block.split("\n");
+    const timingIndex = lines.findIndex(line => VTT_TIMING.test(line));
+    // NOTE, STYLE and REGION blocks have no timing line
+    if (timingIndex === -1) continue;
+
+    for (const line of lines.slice(timingIndex + 1)) {
+      const plain = line
+        .replace(/<[^>]*>/g, "")
+        .replace(/&amp;/g, "&")
+        .replace(/&lt;/g, "<")
+        .replace(/&gt;/g, ">")
+        .replace(/&nbsp;/g, " ")
+        .trim();
+      if (plain) text.push(plain);
+    }
+  }
+
+  return text.join(" ");
+}
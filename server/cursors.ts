@@ -0,0 +1,17 @@
+import { z } from "zod";
+
+// Pagination cursors are the sort key of the last item on a page, encoded so
+// clients treat them as opaque strings
+export function encodeCursor(position: object): string {
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+// Returns undefined for anything that wasn't produced by encodeCursor
+export function decodeCursor<T>(cursor: string, schema: z.ZodType<T>): T | undefined {
+  try {
+    const result = schema.safeParse(JSON.parse(Buffer.from(cursor, "base64url").toString("utf8")));
+    return result.success ? result.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
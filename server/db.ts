@@ -0,0 +1,16 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import type { PgDatabase, PgQueryResultHKT } from "drizzle-orm/pg-core";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+// Any Drizzle Postgres database built over our schema. DrizzleStorage only
+// depends on this, so tests pass it an in-process PGlite database instead.
+export type Database = PgDatabase<PgQueryResultHKT, typeof schema>;
+
+export function createDatabase(connectionString: string): Database {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
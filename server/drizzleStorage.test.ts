@@ -0,0 +1,231 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import { drizzle } from "drizzle-orm/pglite";
+import { eq, sql } from "drizzle-orm";
+import * as schema from "@shared/schema";
+import { DrizzleStorage } from "./drizzleStorage";
+import { UsernameTakenError } from "./storage";
+
+// drizzle-kit's ESM build can't load its own dependencies, so use the CommonJS one
+const { generateDrizzleJson, generateMigration } =
+  createRequire(import.meta.url)("drizzle-kit/api") as typeof import("drizzle-kit/api");
+
+// An in-process Postgres with the schema created from scratch, as `db:push` would
+async function createTestDatabase() {
+  const client = new PGlite();
+  const db = drizzle({ client, schema });
+  for (const statement of await generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema))) {
+    await db.execute(sql.raw(statement));
+  }
+  return { client, db };
+}
+
+let client: PGlite;
+let db: Awaited<ReturnType<typeof createTestDatabase>>["db"];
+let storage: DrizzleStorage;
+
+before(async () => {
+  ({ client, db } = await createTestDatabase());
+  storage = new DrizzleStorage(db);
+  await storage.seed();
+});
+
+after(async () => {
+  await client.close();
+});
+
+let userCount = 0;
+const createUser = () => storage.createUser({ username: `user${++userCount}`, password: "password123" });
+
+const createVideo = (uploaderId: number, title = "A video", description: string | null = null) =>
+  storage.createEmbeddedVideo({ title, description, uploaderId, embedUrl: "https://example.com/embed" });
+
+describe("users", () => {
+  it("seeds the admin account only into an empty database", async () => {
+    const admin = await storage.getUserByUsername("admin");
+    assert.ok(admin?.isAdmin);
+
+    // Another account remains, as it must for an admin to be deleted
+    await createUser();
+    await storage.deleteUser(admin.id);
+    await storage.seed();
+    assert.equal(await storage.getUserByUsername("admin"), undefined);
+  });
+
+  it("rejects taken usernames", async () => {
+    const user = await createUser();
+    await assert.rejects(
+      storage.createUser({ username: user.username, password: "password123" }),
+      UsernameTakenError,
+    );
+  });
+
+  it("lets only one signup redeem an invite", async () => {
+    const admin = await createUser();
+    await storage.createInvite({ code: "one-use", createdBy: admin.id });
+
+    const signups = await Promise.all(["invitee1", "invitee2"].map(username =>
+      storage.createInvitedUser({ username, password: "password123" }, "one-use")));
+    const created = signups.filter(user => user !== undefined);
+    assert.equal(created.length, 1);
+    assert.equal((await storage.getInviteByCode("one-use"))?.usedBy, created[0].id);
+
+    // The loser's account was rolled back with its redeem
+    const loser = ["invitee1", "invitee2"].find(username => username !== created[0].username)!;
+    assert.equal(await storage.getUserByUsername(loser), undefined);
+  });
+
+  it("refuses expired invites", async () => {
+    const admin = await createUser();
+    await storage.createInvite({ code: "expired", createdBy: admin.id, expiresAt: new Date(Date.now() - 1000) });
+
+    assert.equal(await storage.createInvitedUser({ username: "latecomer", password: "password123" }, "expired"), undefined);
+    assert.equal(await storage.getUserByUsername("latecomer"), undefined);
+    assert.equal(await storage.redeemInvite("expired", admin.id), undefined);
+  });
+
+  it("deletes a user with their playlists, history, reactions and comments", async () => {
+    const uploader = await createUser();
+    const user = await createUser();
+    const video = await createVideo(uploader.id);
+
+    const playlist = await storage.createPlaylist({ ownerId: user.id, title: "Favourites" });
+    await storage.addPlaylistVideo(playlist.id, video.id);
+    await storage.saveWatchProgress(user.id, video.id, { position: 10, duration: 60 });
+    await storage.setReaction(user.id, video.id, "like");
+    await storage.setReaction(uploader.id, video.id, "like");
+
+    // The user's thread goes with them; their reply in the uploader's thread is taken out of it
+    const thread = await storage.createComment({ videoId: video.id, userId: user.id, parentId: null, body: "First" });
+    await storage.createComment({ videoId: video.id, userId: uploader.id, parentId: thread.id, body: "Reply" });
+    const other = await storage.createComment({ videoId: video.id, userId: uploader.id, parentId: null, body: "Second" });
+    await storage.createComment({ videoId: video.id, userId: user.id, parentId: other.id, body: "Reply" });
+
+    assert.equal(await storage.deleteUser(user.id), true);
+
+    assert.equal(await storage.getUser(user.id), undefined);
+    assert.equal(await storage.getPlaylist(playlist.id), undefined);
+    assert.deepEqual(await storage.getAllWatchProgress(user.id), []);
+    assert.equal(await storage.getReaction(user.id, video.id), undefined);
+    assert.equal((await storage.getVideo(video.id))?.likes, 1);
+
+    const remaining = await storage.listComments({ videoId: video.id, sort: "oldest", limit: 10 });
+    assert.deepEqual(remaining.map(comment => comment.id), [other.id]);
+    assert.equal(remaining[0].replyCount, 0);
+  });
+
+  it("leaves everything in place when the delete fails partway", async () => {
+    const uploader = await createUser();
+    const user = await createUser();
+    const video = await createVideo(uploader.id);
+    await storage.setReaction(user.id, video.id, "like");
+    await storage.createComment({ videoId: video.id, userId: user.id, parentId: null, body: "Hello" });
+
+    // Fails the last statement, after reactions and comments are gone
+    await client.exec(`
+      create function refuse_user_delete() returns trigger language plpgsql as $$
+      begin raise exception 'user deletes are disabled'; end $$;
+      create trigger refuse_user_delete before delete on users
+      for each row execute function refuse_user_delete();
+    `);
+    try {
+      await assert.rejects(storage.deleteUser(user.id));
+    } finally {
+      await client.exec(`
+        drop trigger refuse_user_delete on users;
+        drop function refuse_user_delete();
+      `);
+    }
+
+    assert.ok(await storage.getUser(user.id));
+    assert.ok(await storage.getReaction(user.id, video.id));
+    assert.equal((await storage.getVideo(video.id))?.likes, 1);
+    assert.equal((await storage.listComments({ videoId: video.id, sort: "oldest", limit: 10 })).length, 1);
+  });
+});
+
+describe("categories", () => {
+  it("seeds the defaults only into an empty table", async () => {
+    const seeded = await storage.getAllCategories();
+    assert.deepEqual(seeded.map(category => category.name), [...schema.DEFAULT_CATEGORIES]);
+
+    await storage.deleteCategory(seeded[0].id, null);
+    await storage.seed();
+    assert.equal((await storage.getAllCategories()).length, seeded.length - 1);
+  });
+});
+
+describe("videos", () => {
+  it("deletes a video with the rows that refer to it", async () => {
+    const uploader = await createUser();
+    const video = await storage.createEmbeddedVideo({
+      title: "Doomed",
+      uploaderId: uploader.id,
+      embedUrl: "https://example.com/embed",
+      tags: ["gone"],
+    });
+    const playlist = await storage.createPlaylist({ ownerId: uploader.id, title: "Mine" });
+    await storage.addPlaylistVideo(playlist.id, video.id);
+    await storage.setReaction(uploader.id, video.id, "like");
+    await storage.createComment({ videoId: video.id, userId: uploader.id, parentId: null, body: "Hello" });
+    await storage.createShare({ videoId: video.id, token: "doomed-link", createdBy: uploader.id });
+
+    assert.equal(await storage.deleteVideo(video.id), true);
+
+    assert.equal(await storage.getVideo(video.id), undefined);
+    assert.deepEqual(await storage.getPlaylistVideos(playlist.id), []);
+    assert.equal(await storage.getReaction(uploader.id, video.id), undefined);
+    assert.deepEqual(await storage.listComments({ videoId: video.id, sort: "oldest", limit: 10 }), []);
+    assert.deepEqual(await db.select().from(schema.videoSearch).where(eq(schema.videoSearch.videoId, video.id)), []);
+    assert.deepEqual(await db.select().from(schema.videoTags).where(eq(schema.videoTags.videoId, video.id)), []);
+    assert.deepEqual(await storage.getSharesByVideo(video.id), []);
+    assert.equal(await storage.deleteVideo(video.id), false);
+  });
+
+  it("deletes an uploader's videos with their share links", async () => {
+    const uploader = await createUser();
+    const video = await createVideo(uploader.id);
+    await storage.createShare({ videoId: video.id, token: "uploader-link", createdBy: uploader.id });
+
+    const deleted = await storage.deleteVideosByUploader(uploader.id);
+    assert.deepEqual(deleted.map(video => video.id), [video.id]);
+    assert.equal(await storage.getShareByToken("uploader-link"), undefined);
+  });
+
+  it("counts only public, ready videos in uploader stats", async () => {
+    const uploader = await createUser();
+    await createVideo(uploader.id, "Public");
+    const unlisted = await createVideo(uploader.id, "Unlisted");
+    await storage.updateVideo(unlisted.id, { visibility: "unlisted" });
+    const processing = await createVideo(uploader.id, "Processing");
+    await storage.setVideoStatus(processing.id, "processing");
+
+    assert.deepEqual(await storage.getUploaderStats(uploader.id), { videoCount: 1, totalViews: 0 });
+  });
+
+  it("matches % and _ in a title search literally", async () => {
+    const uploader = await createUser();
+    const discount = await createVideo(uploader.id, "Half off: 50% discount");
+    await createVideo(uploader.id, "Half off: 50 percent discount");
+    const snake = await createVideo(uploader.id, "snake_case names");
+    await createVideo(uploader.id, "snakeXcase names");
+
+    const titles = async (search: string) =>
+      (await storage.listVideos({ search, uploaderId: uploader.id, sort: "newest", limit: 10 })).map(video => video.id);
+
+    assert.deepEqual(await titles("50%"), [discount.id]);
+    assert.deepEqual(await titles("snake_case"), [snake.id]);
+    assert.deepEqual(await titles("%"), [discount.id]);
+  });
+
+  it("finds videos by full-text search", async () => {
+    const uploader = await createUser();
+    const video = await createVideo(uploader.id, "Sourdough baking", "Starters and long fermentation");
+    await createVideo(uploader.id, "Bicycle repair");
+
+    const hits = await storage.searchVideos("fermenting starter", { offset: 0, limit: 10 });
+    assert.deepEqual(hits.map(hit => hit.video.id), [video.id]);
+  });
+});
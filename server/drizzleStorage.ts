@@ -0,0 +1,1287 @@
+import { TransactionRollbackError, eq, ne, desc, asc, ilike, or, and, isNull, isNotNull, lt, lte, gt, gte, inArray, sql, count, sum, getTableColumns, type SQL } from "drizzle-orm";
+import {
+  users, videos, videoSearch, tags, videoTags, categories, settings, invites, shares, reactions, comments, playlists, playlistItems, watchHistory, viewEvents, captions, jobs, uploads,
+  User, InsertUser,
+  Video, InsertVideo, VideoStatus, Suggestion,
+  Category, InsertCategory,
+  Tag, TagWithCount, TagMatch,
+  Invite, InsertInvite,
+  Share, InsertShare,
+  Reaction, ReactionType,
+  Comment, InsertComment,
+  Playlist, InsertPlaylist, PlaylistSummary,
+  WatchHistoryEntry, HistoryItem,
+  ViewEvent, InsertViewEvent, ViewStats, TRAFFIC_SOURCES, DEVICE_CLASSES,
+  Caption, CaptionTrack, InsertCaption,
+  Job, InsertJob, JobKind, JobStatus,
+  Upload, InsertUpload,
+  ThemeSettings, themeSchema,
+  SiteSettings, siteSettingsSchema,
+  DEFAULT_CATEGORIES, ALL_CATEGORIES, categorySlug
+} from "@shared/schema";
+import { hashPassword } from "./passwords";
+import { SuggestionIndex, SuggestionSource } from "./search";
+import type { Database } from "./db";
+import { UsernameTakenError, type IStorage, type CommentFilter, type VideoFilter, type SearchFilter, type SearchHit } from "./storage";
+
+// Names of a video's tags, sorted, as an array
+const videoTagNames = sql<string[]>`array(
+  select ${tags.name} from ${videoTags}
+  join ${tags} on ${tags.id} = ${videoTags.tagId}
+  where ${videoTags.videoId} = ${videos.id}
+  order by ${tags.name}
+)`;
+
+// Selects a full Video: the row plus its tags
+const videoColumns = { ...getTableColumns(videos), tags: videoTagNames };
+
+// A caption track without its file or cue text
+const { content: _content, text: _text, ...captionTrackColumns } = getTableColumns(captions);
+
+// SQLSTATE for unique constraint violations
+const UNIQUE_VIOLATION = "23505";
+const isUniqueViolation = (error: unknown) =>
+  typeof error === "object" && error !== null && "code" in error && error.code === UNIQUE_VIOLATION;
+
+// Matches text containing the given string, taking % and _ in it literally
+const likeEscaped = (text: string) => `%${text.replace(/[\\%_]/g, "\\$&")}%`;
+
+// An invite that is unused and unexpired
+const redeemable = (code: string) =>
+  and(eq(invites.code, code), isNull(invites.usedBy), or(isNull(invites.expiresAt), gt(invites.expiresAt, new Date())));
+
+const THEME_KEY = "theme";
+const SITE_SETTINGS_KEY = "site";
+
+export class DrizzleStorage implements IStorage {
+  // Loaded from the database on first use, then kept in step with video writes
+  private suggestionIndex?: Promise<SuggestionIndex>;
+
+  constructor(private db: Database) {}
+
+  // Creates the admin account and default categories in a new database
+  async seed(): Promise<void> {
+    // Only ever on first boot: admins may delete or rename this account later
+    const [{ userCount }] = await this.db.select({ userCount: count() }).from(users);
+    if (userCount === 0) {
+      await this.createUser({
+        username: "admin",
+        password: "admin123",
+        isAdmin: true,
+      });
+    }
+
+    // "All" used to be seeded as a category; the client now adds that tab itself
+    await this.db.delete(categories).where(eq(categories.name, ALL_CATEGORIES));
+    // Admins manage categories after that, so deleted defaults stay deleted
+    const [{ categoryCount }] = await this.db.select({ categoryCount: count() }).from(categories);
+    if (categoryCount === 0) {
+      await this.db
+        .insert(categories)
+        .values(DEFAULT_CATEGORIES.map((name, position) => ({ name, slug: categorySlug(name), position })));
+    }
+
+    // Backfill search documents for videos created before search existed
+    await this.refreshSearchDocuments(
+      sql`not exists (select 1 from ${videoSearch} where ${videoSearch.videoId} = ${videos.id})`,
+    );
+  }
+
+  // Theme methods
+  async getThemeSettings(): Promise<ThemeSettings> {
+    const [row] = await this.db.select().from(settings).where(eq(settings.key, THEME_KEY));
+    return themeSchema.parse(row?.value ?? {});
+  }
+
+  async updateThemeSettings(updates: Partial<ThemeSettings>): Promise<ThemeSettings> {
+    const themeSettings = { ...(await this.getThemeSettings()), ...updates };
+    await this.db
+      .insert(settings)
+      .values({ key: THEME_KEY, value: themeSettings })
+      .onConflictDoUpdate({ target: settings.key, set: { value: themeSettings } });
+    return themeSettings;
+  }
+
+  // Site settings methods
+  async getSiteSettings(): Promise<SiteSettings> {
+    const [row] = await this.db.select().from(settings).where(eq(settings.key, SITE_SETTINGS_KEY));
+    return siteSettingsSchema.parse(row?.value ?? {});
+  }
+
+  async updateSiteSettings(updates: Partial<SiteSettings>): Promise<SiteSettings> {
+    const siteSettings = { ...(await this.getSiteSettings()), ...updates };
+    await this.db
+      .insert(settings)
+      .values({ key: SITE_SETTINGS_KEY, value: siteSettings })
+      .onConflictDoUpdate({ target: settings.key, set: { value: siteSettings } });
+    return siteSettings;
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const password = await hashPassword(insertUser.password);
+    return this.insertUser({ ...insertUser, password });
+  }
+
+  async createInvitedUser(insertUser: InsertUser, inviteCode: string): Promise<User | undefined> {
+    const password = await hashPassword(insertUser.password);
+    try {
+      return await this.db.transaction(async tx => {
+        const user = await this.insertUser({ ...insertUser, password }, tx);
+        // Concurrent signups on one code wait here for the first to finish
+        const redeemed = await tx
+          .update(invites)
+          .set({ usedBy: user.id, usedAt: new Date() })
+          .where(redeemable(inviteCode))
+          .returning({ id: invites.id });
+        if (redeemed.length === 0) tx.rollback();
+        return user;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+
+  // Inserts a user whose password is already hashed
+  private async insertUser(values: InsertUser, db: Database = this.db): Promise<User> {
+    try {
+      const [user] = await db.insert(users).values(values).returning();
+      return user;
+    } catch (error) {
+      // The only unique column is the username
+      if (isUniqueViolation(error)) {
+        throw new UsernameTakenError(`Username "${values.username}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async updateUserPassword(id: number, newPassword: string): Promise<User | undefined> {
+    const [user] = await this.db
+      .update(users)
+      .set({ password: await hashPassword(newPassword) })
+      .where(eq(users.id, id))
+      .returning();
+    return user;
+  }
+
+  async updateUser(id: number, updates: Partial<Omit<User, "id" | "password">>): Promise<User | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getUser(id);
+    }
+
+    const [user] = await this.db
+      .update(users)
+      .set(updates)
+      .where(eq(users.id, id))
+      .returning();
+
+    // Uploader names are searchable
+    await this.refreshSearchDocuments(eq(videos.uploaderId, id));
+    return user;
+  }
+
+  async deleteUser(id: number): Promise<boolean> {
+    return this.db.transaction(async tx => {
+      const ownedPlaylistIds = tx.select({ id: playlists.id }).from(playlists).where(eq(playlists.ownerId, id));
+      await tx.delete(playlistItems).where(inArray(playlistItems.playlistId, ownedPlaylistIds));
+      await tx.delete(playlists).where(eq(playlists.ownerId, id));
+      await tx.delete(watchHistory).where(eq(watchHistory.userId, id));
+
+      const reacted = await tx
+        .delete(reactions)
+        .where(eq(reactions.userId, id))
+        .returning({ videoId: reactions.videoId });
+      if (reacted.length > 0) {
+        await this.updateReactionCounts(inArray(videos.id, reacted.map(reaction => reaction.videoId)), tx);
+      }
+
+      // Replies go with the thread they belong to
+      const userCommentIds = tx.select({ id: comments.id }).from(comments).where(eq(comments.userId, id));
+      const removed = await tx
+        .delete(comments)
+        .where(or(eq(comments.userId, id), inArray(comments.parentId, userCommentIds)))
+        .returning({ userId: comments.userId, parentId: comments.parentId });
+      // Threads that stay lose the user's replies
+      const repliesByParent = new Map<number, number>();
+      for (const comment of removed) {
+        if (comment.userId === id && comment.parentId !== null) {
+          repliesByParent.set(comment.parentId, (repliesByParent.get(comment.parentId) ?? 0) + 1);
+        }
+      }
+      for (const [parentId, replies] of Array.from(repliesByParent.entries())) {
+        await tx
+          .update(comments)
+          .set({ replyCount: sql`${comments.replyCount} - ${replies}` })
+          .where(eq(comments.id, parentId));
+      }
+
+      const deleted = await tx
+        .delete(users)
+        .where(eq(users.id, id))
+        .returning({ id: users.id });
+      return deleted.length > 0;
+    });
+  }
+
+  // Video methods
+  async getVideo(id: number): Promise<Video | undefined> {
+    const [video] = await this.db.select(videoColumns).from(videos).where(eq(videos.id, id));
+    return video;
+  }
+
+  async getAllVideos(): Promise<Video[]> {
+    return this.db.select(videoColumns).from(videos).orderBy(desc(videos.uploadDate));
+  }
+
+  async listVideos(filter: VideoFilter): Promise<Video[]> {
+    const { viewer, after } = filter;
+    const ascending = filter.sort === "oldest" || filter.sort === "title";
+    // Must order exactly like getVideoSortValue so cursors line up
+    const sortColumn: SQL = filter.sort === "views"
+      ? sql`${videos.views}`
+      : filter.sort === "duration"
+        ? sql`coalesce(${videos.duration}, 0)`
+        : filter.sort === "title"
+          ? sql`lower(${videos.title}) collate "C"`
+          : sql`${videos.id}`;
+
+    const conditions: (SQL | undefined)[] = [
+      filter.category && filter.category !== "All" ? eq(videos.category, filter.category) : undefined,
+      filter.tags?.length ? this.taggedWith(filter.tags, filter.tagMatch ?? "all") : undefined,
+      filter.uploaderId !== undefined ? eq(videos.uploaderId, filter.uploaderId) : undefined,
+      filter.search
+        ? or(ilike(videos.title, likeEscaped(filter.search)), ilike(videos.description, likeEscaped(filter.search)))
+        : undefined,
+      this.listedFor(viewer),
+    ];
+
+    if (after) {
+      const beyond = ascending ? gt : lt;
+      conditions.push(or(
+        ascending ? sql`${sortColumn} > ${after.value}` : sql`${sortColumn} < ${after.value}`,
+        and(sql`${sortColumn} = ${after.value}`, beyond(videos.id, after.id)),
+      ));
+    }
+
+    const direction = ascending ? asc : desc;
+    return this.db
+      .select(videoColumns)
+      .from(videos)
+      .where(and(...conditions))
+      .orderBy(direction(sortColumn), direction(videos.id))
+      .limit(filter.limit);
+  }
+
+  async searchVideos(query: string, filter: SearchFilter): Promise<SearchHit[]> {
+    // websearch_to_tsquery understands "quoted phrases" and -exclusions
+    const tsQuery = sql`websearch_to_tsquery('english', ${query})`;
+    const score = sql<number>`ts_rank_cd(${videoSearch.document}, ${tsQuery})`;
+
+    return this.db
+      .select({ video: videoColumns, score })
+      .from(videos)
+      .innerJoin(videoSearch, eq(videoSearch.videoId, videos.id))
+      .where(and(
+        sql`${videoSearch.document} @@ ${tsQuery}`,
+        filter.category && filter.category !== "All" ? eq(videos.category, filter.category) : undefined,
+        filter.minDuration !== undefined ? gte(videos.duration, filter.minDuration) : undefined,
+        filter.maxDuration !== undefined ? lte(videos.duration, filter.maxDuration) : undefined,
+        filter.uploadedAfter ? gte(videos.uploadDate, filter.uploadedAfter) : undefined,
+        filter.uploadedBefore ? lte(videos.uploadDate, filter.uploadedBefore) : undefined,
+        this.listedFor(filter.viewer),
+      ))
+      .orderBy(desc(score), desc(videos.id))
+      .limit(filter.limit)
+      .offset(filter.offset);
+  }
+
+  async suggest(prefix: string, viewer: VideoFilter["viewer"], limit: number): Promise<Suggestion[]> {
+    this.suggestionIndex ??= this.loadSuggestionIndex().catch(error => {
+      // Try again on the next request
+      this.suggestionIndex = undefined;
+      throw error;
+    });
+    const index = await this.suggestionIndex;
+    return index.suggest(prefix, limit, source =>
+      source.visibility === "public" || (!!viewer && (viewer.isAdmin || source.uploaderId === viewer.id))
+    );
+  }
+
+  private async loadSuggestionIndex(): Promise<SuggestionIndex> {
+    const index = new SuggestionIndex();
+    for (const source of await this.getSuggestionSources()) {
+      index.add(source);
+    }
+    return index;
+  }
+
+  private async getSuggestionSources(where?: SQL): Promise<SuggestionSource[]> {
+    return this.db
+      .select({
+        id: videos.id,
+        title: videos.title,
+        tags: videoTagNames,
+        uploaderId: videos.uploaderId,
+        uploaderName: sql<string>`coalesce(nullif(${users.displayName}, ''), ${users.username}, '')`,
+        visibility: videos.visibility,
+      })
+      .from(videos)
+      .leftJoin(users, eq(users.id, videos.uploaderId))
+      .where(where);
+  }
+
+  // Applies a change to the suggestion index, unless it hasn't been loaded yet
+  private async updateSuggestionIndex(update: (index: SuggestionIndex) => void | Promise<void>) {
+    const index = await this.suggestionIndex?.catch(() => undefined);
+    if (index) {
+      await update(index);
+    }
+  }
+
+  private taggedWith(names: string[], match: TagMatch): SQL {
+    const matching = sql`(
+      select count(*) from ${videoTags}
+      join ${tags} on ${tags.id} = ${videoTags.tagId}
+      where ${videoTags.videoId} = ${videos.id} and ${inArray(tags.name, names)}
+    )`;
+    return match === "any" ? sql`${matching} > 0` : sql`${matching} = ${names.length}`;
+  }
+
+  // Listings show public videos plus the viewer's own; admins see everything
+  private listedFor(viewer: VideoFilter["viewer"]): SQL | undefined {
+    if (!viewer) return eq(videos.visibility, "public");
+    if (viewer.isAdmin) return undefined;
+    return or(eq(videos.visibility, "public"), eq(videos.uploaderId, viewer.id));
+  }
+
+  // Rebuild the weighted search documents of the videos matching `where`:
+  // title (A), tags (B), uploader name (C), and description and caption
+  // text (D). Their suggestions are refreshed too.
+  private async refreshSearchDocuments(where: SQL) {
+    await this.db.execute(sql`
+      insert into ${videoSearch} (video_id, document)
+      select ${videos.id},
+        setweight(to_tsvector('english', ${videos.title}), 'A') ||
+        setweight(to_tsvector('english', array_to_string(${videoTagNames}, ' ')), 'B') ||
+        setweight(to_tsvector('english', coalesce(${users.displayName}, '') || ' ' || coalesce(${users.username}, '')), 'C') ||
+        setweight(to_tsvector('english', coalesce(${videos.description}, '')), 'D') ||
+        setweight(to_tsvector('english', coalesce((
+          select string_agg(${captions.text}, ' ') from ${captions} where ${captions.videoId} = ${videos.id}
+        ), '')), 'D')
+      from ${videos}
+      left join ${users} on ${users.id} = ${videos.uploaderId}
+      where ${where}
+      on conflict (video_id) do update set document = excluded.document
+    `);
+    await this.updateSuggestionIndex(async index => {
+      for (const source of await this.getSuggestionSources(where)) {
+        index.add(source);
+      }
+    });
+  }
+
+  async getVideosByUploader(uploaderId: number): Promise<Video[]> {
+    return this.db
+      .select(videoColumns)
+      .from(videos)
+      .where(eq(videos.uploaderId, uploaderId))
+      .orderBy(desc(videos.uploadDate));
+  }
+
+  async getUploaderStats(uploaderId: number): Promise<{ videoCount: number; totalViews: number }> {
+    const [stats] = await this.db
+      .select({ videoCount: count(), totalViews: sum(videos.views).mapWith(Number) })
+      .from(videos)
+      .where(and(eq(videos.uploaderId, uploaderId), eq(videos.visibility, "public"), eq(videos.status, "ready")));
+    return { videoCount: stats.videoCount, totalViews: stats.totalViews ?? 0 };
+  }
+
+  async createVideo({ tags: tagNames = [], ...insertVideo }: InsertVideo): Promise<Video> {
+    const [{ id }] = await this.db
+      .insert(videos)
+      .values({ ...insertVideo, isEmbedded: false, status: "processing" })
+      .returning({ id: videos.id });
+    await this.setVideoTags(id, tagNames);
+    await this.refreshSearchDocuments(eq(videos.id, id));
+    return (await this.getVideo(id))!;
+  }
+
+  async createEmbeddedVideo({ tags: tagNames = [], ...insertVideo }: InsertVideo): Promise<Video> {
+    const [{ id }] = await this.db
+      .insert(videos)
+      .values({ ...insertVideo, isEmbedded: true, fileName: null, filePath: null, status: "ready" })
+      .returning({ id: videos.id });
+    await this.setVideoTags(id, tagNames);
+    await this.refreshSearchDocuments(eq(videos.id, id));
+    return (await this.getVideo(id))!;
+  }
+
+  async updateVideo(id: number, { tags: tagNames, ...updates }: Partial<InsertVideo>): Promise<Video | undefined> {
+    // Drizzle rejects an empty SET clause
+    if (Object.keys(updates).length > 0) {
+      const updated = await this.db
+        .update(videos)
+        .set(updates)
+        .where(eq(videos.id, id))
+        .returning({ id: videos.id });
+      if (updated.length === 0) return undefined;
+    } else if (!tagNames || !(await this.getVideo(id))) {
+      return this.getVideo(id);
+    }
+
+    if (tagNames) {
+      await this.setVideoTags(id, tagNames);
+    }
+    await this.refreshSearchDocuments(eq(videos.id, id));
+    return this.getVideo(id);
+  }
+
+  // Replaces a video's tags, creating any that don't exist yet
+  private async setVideoTags(videoId: number, names: string[]) {
+    await this.db.delete(videoTags).where(eq(videoTags.videoId, videoId));
+    if (names.length === 0) return;
+
+    await this.db
+      .insert(tags)
+      .values(names.map(name => ({ name })))
+      .onConflictDoNothing();
+    await this.db.execute(sql`
+      insert into ${videoTags} (video_id, tag_id)
+      select ${videoId}::integer, ${tags.id} from ${tags} where ${inArray(tags.name, names)}
+    `);
+  }
+
+  async setVideoStatus(id: number, status: VideoStatus): Promise<Video | undefined> {
+    const [video] = await this.db
+      .update(videos)
+      .set({ status })
+      .where(eq(videos.id, id))
+      .returning(videoColumns);
+    return video;
+  }
+
+  async deleteVideo(id: number): Promise<boolean> {
+    const deleted = await this.db.transaction(async tx => {
+      await tx.delete(reactions).where(eq(reactions.videoId, id));
+      await tx.delete(comments).where(eq(comments.videoId, id));
+      await tx.delete(videoSearch).where(eq(videoSearch.videoId, id));
+      await tx.delete(videoTags).where(eq(videoTags.videoId, id));
+      await tx.delete(playlistItems).where(eq(playlistItems.videoId, id));
+      await tx.delete(watchHistory).where(eq(watchHistory.videoId, id));
+      await tx.delete(viewEvents).where(eq(viewEvents.videoId, id));
+      await tx.delete(captions).where(eq(captions.videoId, id));
+      await tx.delete(shares).where(eq(shares.videoId, id));
+      return tx
+        .delete(videos)
+        .where(eq(videos.id, id))
+        .returning({ id: videos.id });
+    });
+    await this.updateSuggestionIndex(index => index.remove(id));
+    return deleted.length > 0;
+  }
+
+  async reassignVideos(fromUploaderId: number, toUploaderId: number): Promise<number> {
+    const moved = await this.db
+      .update(videos)
+      .set({ uploaderId: toUploaderId })
+      .where(eq(videos.uploaderId, fromUploaderId))
+      .returning({ id: videos.id });
+    await this.refreshSearchDocuments(eq(videos.uploaderId, toUploaderId));
+    return moved.length;
+  }
+
+  async deleteVideosByUploader(uploaderId: number): Promise<Video[]> {
+    const deleted = await this.db.transaction(async tx => {
+      const uploaderVideoIds = tx.select({ id: videos.id }).from(videos).where(eq(videos.uploaderId, uploaderId));
+      await tx.delete(reactions).where(inArray(reactions.videoId, uploaderVideoIds));
+      await tx.delete(comments).where(inArray(comments.videoId, uploaderVideoIds));
+      await tx.delete(videoSearch).where(inArray(videoSearch.videoId, uploaderVideoIds));
+      await tx.delete(playlistItems).where(inArray(playlistItems.videoId, uploaderVideoIds));
+      await tx.delete(watchHistory).where(inArray(watchHistory.videoId, uploaderVideoIds));
+      await tx.delete(viewEvents).where(inArray(viewEvents.videoId, uploaderVideoIds));
+      await tx.delete(captions).where(inArray(captions.videoId, uploaderVideoIds));
+      await tx.delete(shares).where(inArray(shares.videoId, uploaderVideoIds));
+      // Returned with their tags, so those go last
+      const removed = await tx
+        .delete(videos)
+        .where(eq(videos.uploaderId, uploaderId))
+        .returning(videoColumns);
+      await tx.delete(videoTags).where(inArray(videoTags.videoId, removed.map(video => video.id)));
+      return removed;
+    });
+    await this.updateSuggestionIndex(index => deleted.forEach(video => index.remove(video.id)));
+    return deleted;
+  }
+
+  // Category methods
+  async getAllCategories(): Promise<Category[]> {
+    return this.db.select().from(categories).orderBy(asc(categories.position), asc(categories.id));
+  }
+
+  async getCategory(id: number): Promise<Category | undefined> {
+    const [category] = await this.db.select().from(categories).where(eq(categories.id, id));
+    return category;
+  }
+
+  async createCategory(insertCategory: InsertCategory): Promise<Category> {
+    const [category] = await this.db
+      .insert(categories)
+      .values({
+        ...insertCategory,
+        position: insertCategory.position ?? sql`(select coalesce(max(${categories.position}) + 1, 0) from ${categories})`,
+      })
+      .returning();
+    return category;
+  }
+
+  async updateCategory(id: number, data: Partial<InsertCategory>): Promise<Category | undefined> {
+    const category = await this.getCategory(id);
+    if (!category || Object.keys(data).length === 0) return category;
+
+    const [updatedCategory] = await this.db
+      .update(categories)
+      .set(data)
+      .where(eq(categories.id, id))
+      .returning();
+    if (updatedCategory.name !== category.name) {
+      await this.db.update(videos).set({ category: updatedCategory.name }).where(eq(videos.category, category.name));
+    }
+    return updatedCategory;
+  }
+
+  async reorderCategories(ids: number[]): Promise<Category[]> {
+    for (let position = 0; position < ids.length; position++) {
+      await this.db.update(categories).set({ position }).where(eq(categories.id, ids[position]));
+    }
+    return this.getAllCategories();
+  }
+
+  async deleteCategory(id: number, reassignTo: string | null): Promise<boolean> {
+    return this.db.transaction(async tx => {
+      const [deleted] = await tx.delete(categories).where(eq(categories.id, id)).returning();
+      if (!deleted) return false;
+
+      await tx.update(videos).set({ category: reassignTo }).where(eq(videos.category, deleted.name));
+      return true;
+    });
+  }
+
+  // Tag methods
+  async getAllTags(): Promise<TagWithCount[]> {
+    return this.db
+      .select({ ...getTableColumns(tags), videoCount: count(videoTags.videoId) })
+      .from(tags)
+      .leftJoin(videoTags, eq(videoTags.tagId, tags.id))
+      .groupBy(tags.id)
+      .orderBy(asc(tags.name));
+  }
+
+  async getTag(id: number): Promise<Tag | undefined> {
+    const [tag] = await this.db.select().from(tags).where(eq(tags.id, id));
+    return tag;
+  }
+
+  async getTagByName(name: string): Promise<Tag | undefined> {
+    const [tag] = await this.db.select().from(tags).where(eq(tags.name, name));
+    return tag;
+  }
+
+  async renameTag(id: number, name: string): Promise<Tag | undefined> {
+    const [tag] = await this.db
+      .update(tags)
+      .set({ name })
+      .where(eq(tags.id, id))
+      .returning();
+    if (tag) {
+      await this.refreshSearchDocuments(this.hasTag(id));
+    }
+    return tag;
+  }
+
+  async mergeTags(sourceId: number, targetId: number): Promise<Tag | undefined> {
+    const target = await this.getTag(targetId);
+    if (!target || !(await this.getTag(sourceId))) return undefined;
+
+    await this.db.transaction(async tx => {
+      await tx.execute(sql`
+        insert into ${videoTags} (video_id, tag_id)
+        select ${videoTags.videoId}, ${targetId}::integer from ${videoTags} where ${videoTags.tagId} = ${sourceId}
+        on conflict do nothing
+      `);
+      await tx.delete(videoTags).where(eq(videoTags.tagId, sourceId));
+      await tx.delete(tags).where(eq(tags.id, sourceId));
+    });
+    await this.refreshSearchDocuments(this.hasTag(targetId));
+    return target;
+  }
+
+  private hasTag(tagId: number): SQL {
+    return sql`exists (select 1 from ${videoTags} where ${videoTags.videoId} = ${videos.id} and ${videoTags.tagId} = ${tagId})`;
+  }
+
+  // Invite methods
+  async getAllInvites(): Promise<Invite[]> {
+    return this.db.select().from(invites).orderBy(desc(invites.createdAt));
+  }
+
+  async getInviteByCode(code: string): Promise<Invite | undefined> {
+    const [invite] = await this.db.select().from(invites).where(eq(invites.code, code));
+    return invite;
+  }
+
+  async createInvite(insertInvite: InsertInvite): Promise<Invite> {
+    const [invite] = await this.db.insert(invites).values(insertInvite).returning();
+    return invite;
+  }
+
+  async redeemInvite(code: string, userId: number): Promise<Invite | undefined> {
+    const [invite] = await this.db
+      .update(invites)
+      .set({ usedBy: userId, usedAt: new Date() })
+      .where(redeemable(code))
+      .returning();
+    return invite;
+  }
+
+  async deleteInvite(id: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(invites)
+      .where(eq(invites.id, id))
+      .returning({ id: invites.id });
+    return deleted.length > 0;
+  }
+
+  // Share link methods
+  async createShare(insertShare: InsertShare): Promise<Share> {
+    const [share] = await this.db.insert(shares).values(insertShare).returning();
+    return share;
+  }
+
+  async getShareByToken(token: string): Promise<Share | undefined> {
+    const [share] = await this.db.select().from(shares).where(eq(shares.token, token));
+    return share;
+  }
+
+  async getSharesByVideo(videoId: number): Promise<Share[]> {
+    return this.db
+      .select()
+      .from(shares)
+      .where(eq(shares.videoId, videoId))
+      .orderBy(desc(shares.createdAt));
+  }
+
+  async revokeShare(id: number): Promise<Share | undefined> {
+    const [share] = await this.db
+      .update(shares)
+      .set({ revokedAt: sql`coalesce(${shares.revokedAt}, now())` })
+      .where(eq(shares.id, id))
+      .returning();
+    return share;
+  }
+
+  async recordShareView(id: number): Promise<Share | undefined> {
+    const [share] = await this.db
+      .update(shares)
+      .set({ views: sql`${shares.views} + 1` })
+      .where(and(eq(shares.id, id), or(isNull(shares.maxViews), lt(shares.views, shares.maxViews))))
+      .returning();
+    return share;
+  }
+
+  // Reaction methods
+  async getReaction(userId: number, videoId: number): Promise<Reaction | undefined> {
+    const [reaction] = await this.db
+      .select()
+      .from(reactions)
+      .where(and(eq(reactions.userId, userId), eq(reactions.videoId, videoId)));
+    return reaction;
+  }
+
+  async setReaction(userId: number, videoId: number, type: ReactionType): Promise<Video | undefined> {
+    // Switching between like and dislike counts as reacting anew
+    await this.db
+      .insert(reactions)
+      .values({ userId, videoId, type })
+      .onConflictDoUpdate({
+        target: [reactions.userId, reactions.videoId],
+        set: { type, createdAt: new Date() },
+        setWhere: sql`${reactions.type} <> excluded.type`,
+      });
+    return this.recountReactions(videoId);
+  }
+
+  async removeReaction(userId: number, videoId: number): Promise<Video | undefined> {
+    await this.db
+      .delete(reactions)
+      .where(and(eq(reactions.userId, userId), eq(reactions.videoId, videoId)));
+    return this.recountReactions(videoId);
+  }
+
+  async getLikedVideos(userId: number): Promise<Video[]> {
+    const rows = await this.db
+      .select({ video: videoColumns })
+      .from(reactions)
+      .innerJoin(videos, eq(reactions.videoId, videos.id))
+      .where(and(eq(reactions.userId, userId), eq(reactions.type, "like")))
+      .orderBy(desc(reactions.createdAt));
+    return rows.map(row => row.video);
+  }
+
+  // Recounting rather than incrementing keeps the counters right under concurrent reactions
+  private async recountReactions(videoId: number): Promise<Video | undefined> {
+    const [video] = await this.updateReactionCounts(eq(videos.id, videoId));
+    return video;
+  }
+
+  // Sets the like and dislike counts of the videos matching `where` from their reactions,
+  // on `db` when that is a transaction
+  private updateReactionCounts(where: SQL, db: Database = this.db) {
+    const countOf = (type: ReactionType) => sql<number>`(
+      select count(*) from ${reactions}
+      where ${reactions.videoId} = ${videos.id} and ${reactions.type} = ${type}
+    )`;
+
+    return db
+      .update(videos)
+      .set({ likes: countOf("like"), dislikes: countOf("dislike") })
+      .where(where)
+      .returning(videoColumns);
+  }
+
+  // Comment methods
+  async getComment(id: number): Promise<Comment | undefined> {
+    const [comment] = await this.db.select().from(comments).where(eq(comments.id, id));
+    return comment;
+  }
+
+  async listComments(filter: CommentFilter): Promise<Comment[]> {
+    const { after } = filter;
+    const conditions: (SQL | undefined)[] = [
+      filter.videoId !== undefined ? eq(comments.videoId, filter.videoId) : undefined,
+      filter.parentId === null ? isNull(comments.parentId) : undefined,
+      filter.parentId ? eq(comments.parentId, filter.parentId) : undefined,
+      filter.pinned !== undefined ? eq(comments.pinned, filter.pinned) : undefined,
+      filter.deleted !== undefined ? (filter.deleted ? isNotNull(comments.deletedAt) : isNull(comments.deletedAt)) : undefined,
+    ];
+
+    if (after) {
+      if (filter.sort === "oldest") {
+        conditions.push(gt(comments.id, after.id));
+      } else if (filter.sort === "top") {
+        conditions.push(or(
+          lt(comments.replyCount, after.replyCount),
+          and(eq(comments.replyCount, after.replyCount), lt(comments.id, after.id)),
+        ));
+      } else {
+        conditions.push(lt(comments.id, after.id));
+      }
+    }
+
+    const order = filter.sort === "oldest"
+      ? [asc(comments.id)]
+      : filter.sort === "top"
+        ? [desc(comments.replyCount), desc(comments.id)]
+        : [desc(comments.id)];
+
+    return this.db
+      .select()
+      .from(comments)
+      .where(and(...conditions))
+      .orderBy(...order)
+      .limit(filter.limit);
+  }
+
+  async createComment(insertComment: InsertComment): Promise<Comment> {
+    const [comment] = await this.db.insert(comments).values(insertComment).returning();
+    if (comment.parentId !== null) {
+      await this.db
+        .update(comments)
+        .set({ replyCount: sql`${comments.replyCount} + 1` })
+        .where(eq(comments.id, comment.parentId));
+    }
+    return comment;
+  }
+
+  async updateComment(id: number, updates: Partial<Pick<Comment, "body" | "editedAt" | "deletedAt">>): Promise<Comment | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getComment(id);
+    }
+
+    const [comment] = await this.db
+      .update(comments)
+      .set(updates)
+      .where(eq(comments.id, id))
+      .returning();
+    return comment;
+  }
+
+  async setCommentPinned(id: number, pinned: boolean): Promise<Comment | undefined> {
+    const comment = await this.getComment(id);
+    if (!comment) return undefined;
+
+    if (pinned) {
+      await this.db
+        .update(comments)
+        .set({ pinned: false })
+        .where(and(eq(comments.videoId, comment.videoId), eq(comments.pinned, true), ne(comments.id, id)));
+    }
+
+    const [updated] = await this.db
+      .update(comments)
+      .set({ pinned })
+      .where(eq(comments.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Playlist methods
+  async getPlaylist(id: number): Promise<Playlist | undefined> {
+    const [playlist] = await this.db.select().from(playlists).where(eq(playlists.id, id));
+    return playlist;
+  }
+
+  async getPlaylistsByOwner(ownerId: number, containingVideoId?: number): Promise<PlaylistSummary[]> {
+    const containsVideo = containingVideoId === undefined
+      ? sql<boolean>`false`
+      : sql<boolean>`exists (
+          select 1 from ${playlistItems}
+          where ${playlistItems.playlistId} = ${playlists.id} and ${playlistItems.videoId} = ${containingVideoId}
+        )`;
+    return this.db
+      .select({
+        ...getTableColumns(playlists),
+        videoCount: sql<number>`(select count(*) from ${playlistItems} where ${playlistItems.playlistId} = ${playlists.id})`.mapWith(Number),
+        containsVideo,
+      })
+      .from(playlists)
+      .where(eq(playlists.ownerId, ownerId))
+      .orderBy(desc(playlists.updatedAt));
+  }
+
+  async getPlaylistVideos(playlistId: number): Promise<Video[]> {
+    const rows = await this.db
+      .select({ video: videoColumns })
+      .from(playlistItems)
+      .innerJoin(videos, eq(playlistItems.videoId, videos.id))
+      .where(eq(playlistItems.playlistId, playlistId))
+      .orderBy(asc(playlistItems.position));
+    return rows.map(row => row.video);
+  }
+
+  async createPlaylist(insertPlaylist: InsertPlaylist): Promise<Playlist> {
+    const [playlist] = await this.db.insert(playlists).values(insertPlaylist).returning();
+    return playlist;
+  }
+
+  async updatePlaylist(id: number, updates: Partial<Omit<InsertPlaylist, "ownerId">>): Promise<Playlist | undefined> {
+    const [playlist] = await this.db
+      .update(playlists)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(playlists.id, id))
+      .returning();
+    return playlist;
+  }
+
+  async deletePlaylist(id: number): Promise<boolean> {
+    return this.db.transaction(async tx => {
+      await tx.delete(playlistItems).where(eq(playlistItems.playlistId, id));
+      const deleted = await tx
+        .delete(playlists)
+        .where(eq(playlists.id, id))
+        .returning({ id: playlists.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async addPlaylistVideo(playlistId: number, videoId: number): Promise<boolean> {
+    const added = await this.db
+      .insert(playlistItems)
+      .values({
+        playlistId,
+        videoId,
+        position: sql`(
+          select coalesce(max(${playlistItems.position}) + 1, 0) from ${playlistItems}
+          where ${playlistItems.playlistId} = ${playlistId}
+        )`,
+      })
+      .onConflictDoNothing()
+      .returning({ videoId: playlistItems.videoId });
+    if (added.length > 0) await this.touchPlaylist(playlistId);
+    return added.length > 0;
+  }
+
+  async removePlaylistVideo(playlistId: number, videoId: number): Promise<boolean> {
+    const removed = await this.db
+      .delete(playlistItems)
+      .where(and(eq(playlistItems.playlistId, playlistId), eq(playlistItems.videoId, videoId)))
+      .returning({ videoId: playlistItems.videoId });
+    if (removed.length > 0) await this.touchPlaylist(playlistId);
+    return removed.length > 0;
+  }
+
+  async reorderPlaylist(playlistId: number, videoIds: number[]): Promise<void> {
+    for (let position = 0; position < videoIds.length; position++) {
+      await this.db
+        .update(playlistItems)
+        .set({ position })
+        .where(and(eq(playlistItems.playlistId, playlistId), eq(playlistItems.videoId, videoIds[position])));
+    }
+    await this.touchPlaylist(playlistId);
+  }
+
+  private async touchPlaylist(playlistId: number) {
+    await this.db.update(playlists).set({ updatedAt: new Date() }).where(eq(playlists.id, playlistId));
+  }
+
+  // Watch history methods
+  async getWatchProgress(userId: number, videoId: number): Promise<WatchHistoryEntry | undefined> {
+    const [entry] = await this.db
+      .select()
+      .from(watchHistory)
+      .where(and(eq(watchHistory.userId, userId), eq(watchHistory.videoId, videoId)));
+    return entry;
+  }
+
+  async getAllWatchProgress(userId: number): Promise<WatchHistoryEntry[]> {
+    return this.db
+      .select()
+      .from(watchHistory)
+      .where(eq(watchHistory.userId, userId))
+      .orderBy(desc(watchHistory.watchedAt), desc(watchHistory.videoId));
+  }
+
+  async listWatchHistory(userId: number, after: { watchedAt: Date; videoId: number } | undefined, limit: number): Promise<HistoryItem[]> {
+    const { userId: _, ...progressColumns } = getTableColumns(watchHistory);
+    return this.db
+      .select({ ...progressColumns, video: videoColumns })
+      .from(watchHistory)
+      .innerJoin(videos, eq(watchHistory.videoId, videos.id))
+      .where(and(
+        eq(watchHistory.userId, userId),
+        after
+          ? or(
+              lt(watchHistory.watchedAt, after.watchedAt),
+              and(eq(watchHistory.watchedAt, after.watchedAt), lt(watchHistory.videoId, after.videoId)),
+            )
+          : undefined,
+      ))
+      .orderBy(desc(watchHistory.watchedAt), desc(watchHistory.videoId))
+      .limit(limit);
+  }
+
+  async saveWatchProgress(userId: number, videoId: number, progress: Pick<WatchHistoryEntry, "position" | "duration">): Promise<WatchHistoryEntry> {
+    const watchedAt = new Date();
+    const [entry] = await this.db
+      .insert(watchHistory)
+      .values({ userId, videoId, ...progress, watchedAt })
+      .onConflictDoUpdate({
+        target: [watchHistory.userId, watchHistory.videoId],
+        set: { ...progress, watchedAt },
+      })
+      .returning();
+    return entry;
+  }
+
+  async removeWatchProgress(userId: number, videoId: number): Promise<boolean> {
+    const deleted = await this.db
+      .delete(watchHistory)
+      .where(and(eq(watchHistory.userId, userId), eq(watchHistory.videoId, videoId)))
+      .returning({ videoId: watchHistory.videoId });
+    return deleted.length > 0;
+  }
+
+  async clearWatchHistory(userId: number): Promise<void> {
+    await this.db.delete(watchHistory).where(eq(watchHistory.userId, userId));
+  }
+
+  // View event methods
+  async createViewEvent(insertEvent: InsertViewEvent): Promise<ViewEvent> {
+    const [event] = await this.db.insert(viewEvents).values(insertEvent).returning();
+    return event;
+  }
+
+  async getViewEvent(id: number): Promise<ViewEvent | undefined> {
+    const [event] = await this.db.select().from(viewEvents).where(eq(viewEvents.id, id));
+    return event;
+  }
+
+  async recordViewHeartbeat(id: number, watchedSeconds: number): Promise<ViewEvent | undefined> {
+    const [event] = await this.db
+      .update(viewEvents)
+      .set({
+        watchedSeconds: sql`greatest(${viewEvents.watchedSeconds}, ${watchedSeconds})`,
+        lastHeartbeatAt: new Date(),
+      })
+      .where(eq(viewEvents.id, id))
+      .returning();
+    return event;
+  }
+
+  async hasCountedView(videoId: number, viewerKey: string, since: Date): Promise<boolean> {
+    const [event] = await this.db
+      .select({ id: viewEvents.id })
+      .from(viewEvents)
+      .where(and(
+        eq(viewEvents.videoId, videoId),
+        eq(viewEvents.viewerKey, viewerKey),
+        eq(viewEvents.counted, true),
+        gte(viewEvents.startedAt, since),
+      ))
+      .limit(1);
+    return !!event;
+  }
+
+  async countView(id: number): Promise<Video | undefined> {
+    // Only the heartbeat that flips `counted` adds the view, even if several race
+    const [event] = await this.db
+      .update(viewEvents)
+      .set({ counted: true })
+      .where(and(eq(viewEvents.id, id), eq(viewEvents.counted, false)))
+      .returning({ videoId: viewEvents.videoId });
+    if (!event) return undefined;
+
+    const [video] = await this.db
+      .update(videos)
+      .set({ views: sql`${videos.views} + 1` })
+      .where(eq(videos.id, event.videoId))
+      .returning(videoColumns);
+    return video;
+  }
+
+  async recountViews(): Promise<void> {
+    await this.db
+      .update(videos)
+      .set({
+        views: sql`(select count(*)::int from ${viewEvents} where ${viewEvents.videoId} = ${videos.id} and ${viewEvents.counted})`,
+      });
+  }
+
+  async getViewStats(since: Date, videoId?: number): Promise<ViewStats> {
+    const playFilter = and(
+      eq(viewEvents.isBot, false),
+      gte(viewEvents.startedAt, since),
+      videoId === undefined ? undefined : eq(viewEvents.videoId, videoId),
+    );
+    const viewFilter = and(playFilter, eq(viewEvents.counted, true));
+    const day = sql<string>`to_char(${viewEvents.startedAt}, 'YYYY-MM-DD')`;
+
+    const [totals] = await this.db
+      .select({
+        plays: count(),
+        views: sql<number>`count(*) filter (where ${viewEvents.counted})`.mapWith(Number),
+        uniqueViewers: sql<number>`count(distinct ${viewEvents.viewerKey})`.mapWith(Number),
+        averageWatchSeconds: sql<number>`coalesce(avg(${viewEvents.watchedSeconds}), 0)`.mapWith(Number),
+      })
+      .from(viewEvents)
+      .where(playFilter);
+    const viewsByDay = await this.db
+      .select({ date: day, views: count() })
+      .from(viewEvents)
+      .where(viewFilter)
+      .groupBy(day)
+      .orderBy(day);
+    const bySource = await this.db
+      .select({ source: viewEvents.source, views: count() })
+      .from(viewEvents)
+      .where(viewFilter)
+      .groupBy(viewEvents.source);
+    const byDevice = await this.db
+      .select({ device: viewEvents.device, views: count() })
+      .from(viewEvents)
+      .where(viewFilter)
+      .groupBy(viewEvents.device);
+
+    const trafficSources = Object.fromEntries(TRAFFIC_SOURCES.map(source => [source, 0])) as ViewStats["trafficSources"];
+    bySource.forEach(row => { trafficSources[row.source] = row.views; });
+    const devices = Object.fromEntries(DEVICE_CLASSES.map(device => [device, 0])) as ViewStats["devices"];
+    byDevice.forEach(row => { devices[row.device] = row.views; });
+
+    return { ...totals, viewsByDay, trafficSources, devices };
+  }
+
+  async getViewRetention(videoId: number, since: Date, duration: number, buckets: number): Promise<number[]> {
+    // The furthest bucket each play reached; every bucket before it was reached too
+    const furthest = sql<number>`least(floor(${viewEvents.watchedSeconds} / ${duration} * ${buckets}), ${buckets})::int`;
+    const rows = await this.db
+      .select({ bucket: furthest, plays: count() })
+      .from(viewEvents)
+      .where(and(eq(viewEvents.videoId, videoId), eq(viewEvents.isBot, false), gte(viewEvents.startedAt, since)))
+      .groupBy(furthest);
+
+    const reached = new Array<number>(buckets + 1).fill(0);
+    rows.forEach(row => {
+      for (let i = 0; i <= row.bucket; i++) {
+        reached[i] += row.plays;
+      }
+    });
+    return reached;
+  }
+
+  async getTopViewedVideos(since: Date, limit: number): Promise<{ video: Video; views: number }[]> {
+    const top = await this.db
+      .select({ videoId: viewEvents.videoId, views: count() })
+      .from(viewEvents)
+      .where(and(eq(viewEvents.counted, true), gte(viewEvents.startedAt, since)))
+      .groupBy(viewEvents.videoId)
+      .orderBy(desc(count()), asc(viewEvents.videoId))
+      .limit(limit);
+    if (top.length === 0) return [];
+
+    const found = await this.db
+      .select(videoColumns)
+      .from(videos)
+      .where(inArray(videos.id, top.map(row => row.videoId)));
+    return top.flatMap(row => {
+      const video = found.find(candidate => candidate.id === row.videoId);
+      return video ? [{ video, views: row.views }] : [];
+    });
+  }
+
+  // Caption methods
+  async getCaptionTracks(videoId: number): Promise<CaptionTrack[]> {
+    return this.db
+      .select(captionTrackColumns)
+      .from(captions)
+      .where(eq(captions.videoId, videoId))
+      .orderBy(asc(captions.label));
+  }
+
+  async getCaption(videoId: number, language: string): Promise<Caption | undefined> {
+    const [caption] = await this.db
+      .select()
+      .from(captions)
+      .where(and(eq(captions.videoId, videoId), eq(captions.language, language)));
+    return caption;
+  }
+
+  async saveCaption(insertCaption: InsertCaption): Promise<{ caption: Caption; created: boolean }> {
+    const { label, content, text } = insertCaption;
+    const [{ created, ...caption }] = await this.db
+      .insert(captions)
+      .values(insertCaption)
+      .onConflictDoUpdate({
+        target: [captions.videoId, captions.language],
+        set: { label, content, text },
+      })
+      // xmax is only zero for freshly inserted rows
+      .returning({ ...getTableColumns(captions), created: sql<boolean>`xmax = 0` });
+    await this.refreshSearchDocuments(eq(videos.id, insertCaption.videoId));
+    return { caption, created };
+  }
+
+  async deleteCaption(videoId: number, language: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(captions)
+      .where(and(eq(captions.videoId, videoId), eq(captions.language, language)))
+      .returning({ id: captions.id });
+    if (deleted.length === 0) return false;
+
+    await this.refreshSearchDocuments(eq(videos.id, videoId));
+    return true;
+  }
+
+  // Job methods
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const [job] = await this.db.insert(jobs).values(insertJob).returning();
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await this.db.select().from(jobs).where(eq(jobs.id, id));
+    return job;
+  }
+
+  async getJobs(status?: JobStatus): Promise<Job[]> {
+    return this.db
+      .select()
+      .from(jobs)
+      .where(status ? eq(jobs.status, status) : undefined)
+      .orderBy(desc(jobs.id));
+  }
+
+  async updateJob(id: number, updates: Partial<Omit<Job, "id" | "createdAt" | "updatedAt">>): Promise<Job | undefined> {
+    const [job] = await this.db
+      .update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job;
+  }
+
+  async claimNextJob(kinds: JobKind[]): Promise<Job | undefined> {
+    if (kinds.length === 0) return undefined;
+
+    // SKIP LOCKED lets several server processes share the queue without double-claiming
+    const next = this.db
+      .select({ id: jobs.id })
+      .from(jobs)
+      .where(and(eq(jobs.status, "queued"), inArray(jobs.kind, kinds), lte(jobs.runAt, new Date())))
+      .orderBy(asc(jobs.runAt), asc(jobs.id))
+      .limit(1)
+      .for("update", { skipLocked: true });
+
+    const [job] = await this.db
+      .update(jobs)
+      .set({ status: "running", attempts: sql`${jobs.attempts} + 1`, updatedAt: new Date() })
+      .where(inArray(jobs.id, next))
+      .returning();
+    return job;
+  }
+
+  async requeueRunningJobs(): Promise<number> {
+    const requeued = await this.db
+      .update(jobs)
+      .set({ status: "queued", updatedAt: new Date() })
+      .where(eq(jobs.status, "running"))
+      .returning({ id: jobs.id });
+    return requeued.length;
+  }
+
+  // Upload methods
+  async createUpload(insertUpload: InsertUpload): Promise<Upload> {
+    const [upload] = await this.db.insert(uploads).values(insertUpload).returning();
+    return upload;
+  }
+
+  async getUpload(id: string): Promise<Upload | undefined> {
+    const [upload] = await this.db.select().from(uploads).where(eq(uploads.id, id));
+    return upload;
+  }
+
+  async updateUploadOffset(id: string, offset: number): Promise<Upload | undefined> {
+    const [upload] = await this.db
+      .update(uploads)
+      .set({ offset })
+      .where(eq(uploads.id, id))
+      .returning();
+    return upload;
+  }
+
+  async deleteUpload(id: string): Promise<boolean> {
+    const deleted = await this.db
+      .delete(uploads)
+      .where(eq(uploads.id, id))
+      .returning({ id: uploads.id });
+    return deleted.length > 0;
+  }
+
+  async deleteExpiredUploads(): Promise<Upload[]> {
+    return this.db.delete(uploads).where(lte(uploads.expiresAt, new Date())).returning();
+  }
+}
@@ -1,8 +1,21 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { storage } from "./storage";
+import { DrizzleStorage } from "./drizzleStorage";
+import { jobQueue } from "./jobs";
+import { registerMediaJobs } from "./mediaJobs";
+import { startUploadCleanup } from "./uploads";
 
 const app = express();
+
+// Set TRUST_PROXY (e.g. "1" for one hop) behind a reverse proxy so req.ip is the client's
+const trustProxy = process.env.TRUST_PROXY ?? "false";
+app.set(
+  "trust proxy",
+  trustProxy === "true" ? true : trustProxy === "false" ? false : /^\d+$/.test(trustProxy) ? parseInt(trustProxy) : trustProxy,
+);
+
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -37,6 +50,15 @@ app.use((req, res, next) => {
 });
 
 (async () => {
+  if (storage instanceof DrizzleStorage) {
+    await storage.seed();
+    log("using Postgres storage");
+  }
+
+  registerMediaJobs(jobQueue);
+  await jobQueue.start();
+  startUploadCleanup();
+
   const server = await registerRoutes(app);
 
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
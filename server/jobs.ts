@@ -0,0 +1,182 @@
+import { Job, JobKind, JobPayloads } from "@shared/schema";
+import { storage, type IStorage } from "./storage";
+import { log } from "./vite";
+
+export type JobHandler<K extends JobKind> = (payload: JobPayloads[K], job: Job) => Promise<void>;
+
+interface HandlerOptions<K extends JobKind> {
+  // Maximum jobs of this kind running at once
+  concurrency?: number;
+  // Called once a job has used up all of its attempts
+  onFailure?: (payload: JobPayloads[K], error: unknown) => Promise<void>;
+}
+
+interface RegisteredHandler<K extends JobKind> {
+  run: JobHandler<K>;
+  concurrency: number;
+  onFailure?: HandlerOptions<K>["onFailure"];
+  active: number;
+}
+
+// Each kind's handler, typed for that kind's payload
+type HandlerRegistry = { [K in JobKind]?: RegisteredHandler<K> };
+
+interface JobQueueOptions {
+  // Maximum jobs running at once across all kinds
+  concurrency: number;
+  pollIntervalMs: number;
+  // Delay before the first retry; doubles with every further attempt
+  retryBaseDelayMs: number;
+  retryMaxDelayMs: number;
+}
+
+// Polls storage for due jobs and runs them with per-kind and global concurrency
+// limits. Failed jobs are retried with exponential backoff until maxAttempts.
+export class JobQueue {
+  private handlers: HandlerRegistry = {};
+  private active = 0;
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+
+  constructor(private storage: IStorage, private options: JobQueueOptions) {}
+
+  register<K extends JobKind>(kind: K, run: JobHandler<K>, options: HandlerOptions<K> = {}): void {
+    // Viewed through K alone so the handler keeps its payload type
+    const handlers: { [P in K]?: RegisteredHandler<P> } = this.handlers;
+    handlers[kind] = {
+      run,
+      concurrency: options.concurrency ?? 1,
+      onFailure: options.onFailure,
+      active: 0,
+    };
+  }
+
+  async enqueue<K extends JobKind>(
+    kind: K,
+    payload: JobPayloads[K],
+    options: { maxAttempts?: number; runAt?: Date } = {},
+  ): Promise<Job> {
+    const job = await this.storage.createJob({ kind, payload, ...options });
+    this.poke();
+    return job;
+  }
+
+  // Requeue work interrupted by a restart and begin polling
+  async start(): Promise<void> {
+    const requeued = await this.storage.requeueRunningJobs();
+    if (requeued > 0) {
+      log(`Requeued ${requeued} interrupted job(s)`, "jobs");
+    }
+
+    this.timer = setInterval(() => this.poke(), this.options.pollIntervalMs);
+    this.poke();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Put a failed or cancelled job back in the queue with a fresh set of attempts
+  async retry(id: number): Promise<Job | undefined> {
+    const job = await this.storage.getJob(id);
+    if (!job || (job.status !== "failed" && job.status !== "cancelled")) {
+      return undefined;
+    }
+
+    const retried = await this.storage.updateJob(id, {
+      status: "queued",
+      attempts: 0,
+      runAt: new Date(),
+      lastError: null,
+    });
+    this.poke();
+    return retried;
+  }
+
+  // Queued jobs will not start; a running job finishes but its result is discarded
+  async cancel(id: number): Promise<Job | undefined> {
+    const job = await this.storage.getJob(id);
+    if (!job || (job.status !== "queued" && job.status !== "running")) {
+      return undefined;
+    }
+
+    return this.storage.updateJob(id, { status: "cancelled" });
+  }
+
+  private poke(): void {
+    this.poll().catch((error) => {
+      log(`Job polling error: ${error}`, "jobs");
+    });
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      while (this.active < this.options.concurrency) {
+        const available = (Object.keys(this.handlers) as JobKind[]).filter((kind) => {
+          const handler = this.handlers[kind];
+          return !!handler && handler.active < handler.concurrency;
+        });
+
+        const job = await this.storage.claimNextJob(available);
+        if (!job) break;
+
+        void this.run(job.kind, job);
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async run<K extends JobKind>(kind: K, job: Job): Promise<void> {
+    const handler = this.handlers[kind]!;
+    // Jobs are only ever created by enqueue, which pairs each kind with its payload type
+    const payload = job.payload as JobPayloads[K];
+    handler.active++;
+    this.active++;
+
+    try {
+      await handler.run(payload, job);
+      await this.finish(job, { status: "completed", lastError: null });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      log(`Job ${job.id} (${job.kind}) attempt ${job.attempts} failed: ${message}`, "jobs");
+
+      if (job.attempts < job.maxAttempts) {
+        const delay = Math.min(
+          this.options.retryBaseDelayMs * 2 ** (job.attempts - 1),
+          this.options.retryMaxDelayMs,
+        );
+        await this.finish(job, { status: "queued", lastError: message, runAt: new Date(Date.now() + delay) });
+      } else {
+        await this.finish(job, { status: "failed", lastError: message });
+        await handler.onFailure?.(payload, error).catch((hookError) => {
+          log(`Job ${job.id} failure hook error: ${hookError}`, "jobs");
+        });
+      }
+    } finally {
+      handler.active--;
+      this.active--;
+      this.poke();
+    }
+  }
+
+  // Record the outcome unless an admin cancelled the job while it ran
+  private async finish(job: Job, updates: Partial<Pick<Job, "status" | "lastError" | "runAt">>): Promise<void> {
+    const current = await this.storage.getJob(job.id);
+    if (current?.status === "cancelled") return;
+    await this.storage.updateJob(job.id, updates);
+  }
+}
+
+export const jobQueue = new JobQueue(storage, {
+  concurrency: 2,
+  pollIntervalMs: 5000,
+  retryBaseDelayMs: 30 * 1000,
+  retryMaxDelayMs: 30 * 60 * 1000,
+});
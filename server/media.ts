@@ -0,0 +1,202 @@
+import { spawn } from "child_process";
+import fs from "fs";
+import path from "path";
+import { InsertVideo } from "@shared/schema";
+
+// Paths to the ffmpeg tools; override when they are not on PATH
+const FFMPEG_PATH = process.env.FFMPEG_PATH || "ffmpeg";
+const FFPROBE_PATH = process.env.FFPROBE_PATH || "ffprobe";
+
+export type MediaMetadata = Required<Pick<InsertVideo,
+  "duration" | "width" | "height" | "videoCodec" | "audioCodec" | "bitrate" | "frameRate" | "container"
+>>;
+
+// Subset of `ffprobe -print_format json -show_format -show_streams` output we use
+interface ProbeOutput {
+  streams?: Array<{
+    codec_type?: string;
+    codec_name?: string;
+    width?: number;
+    height?: number;
+    avg_frame_rate?: string;
+    r_frame_rate?: string;
+    duration?: string;
+  }>;
+  format?: {
+    format_name?: string;
+    duration?: string;
+    bit_rate?: string;
+  };
+}
+
+// Run a command to completion, resolving with stdout or rejecting with stderr
+function run(command: string, args: string[]): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: ["ignore", "pipe", "pipe"] });
+    let stdout = "";
+    let stderr = "";
+
+    child.stdout.on("data", (chunk) => { stdout += chunk; });
+    child.stderr.on("data", (chunk) => { stderr += chunk; });
+    child.on("error", reject);
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderr.trim().split("\n").pop()}`));
+      }
+    });
+  });
+}
+
+// Grab a single scaled frame as a JPEG. Falls back to the first frame when the
+// requested timestamp is past the end of a short clip.
+export async function extractThumbnail(inputPath: string, outputPath: string, atSeconds = 2): Promise<void> {
+  const grabFrame = (seconds: number) => run(FFMPEG_PATH, [
+    "-y",
+    "-ss", seconds.toString(),
+    "-i", inputPath,
+    "-frames:v", "1",
+    "-vf", "scale=640:-2",
+    "-q:v", "3",
+    outputPath,
+  ]);
+
+  try {
+    await grabFrame(atSeconds);
+  } catch (error) {
+    if (atSeconds === 0) throw error;
+  }
+
+  if (!fs.existsSync(outputPath) && atSeconds > 0) {
+    await grabFrame(0);
+  }
+
+  if (!fs.existsSync(outputPath)) {
+    throw new Error(`No frame could be extracted from ${inputPath}`);
+  }
+}
+
+// ffprobe reports frame rates as fractions such as "30000/1001"
+function parseFrameRate(rate: string | undefined): number | null {
+  if (!rate) return null;
+  const [num, den] = rate.split("/").map(Number);
+  if (!num || !den) return null;
+  return Math.round((num / den) * 100) / 100;
+}
+
+function parseNumber(value: string | undefined): number | null {
+  const parsed = value === undefined ? NaN : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : null;
+}
+
+// Read duration, resolution, codecs, bitrate, frame rate and container from a media file
+export async function probeMedia(inputPath: string): Promise<MediaMetadata> {
+  const output = await run(FFPROBE_PATH, [
+    "-v", "error",
+    "-print_format", "json",
+    "-show_format",
+    "-show_streams",
+    inputPath,
+  ]);
+  const probe: ProbeOutput = JSON.parse(output);
+
+  const videoStream = probe.streams?.find(stream => stream.codec_type === "video");
+  const audioStream = probe.streams?.find(stream => stream.codec_type === "audio");
+  const duration = parseNumber(probe.format?.duration) ?? parseNumber(videoStream?.duration);
+  const bitrate = parseNumber(probe.format?.bit_rate);
+
+  // format_name lists every demuxer that matches, e.g. "mov,mp4,m4a,3gp,3g2,mj2",
+  // so prefer the one that agrees with the file extension
+  const formats = probe.format?.format_name?.split(",") ?? [];
+  const extension = path.extname(inputPath).slice(1).toLowerCase();
+  const container = formats.includes(extension) ? extension : formats[0] ?? null;
+
+  return {
+    duration: duration !== null ? Math.round(duration) : null,
+    width: videoStream?.width ?? null,
+    height: videoStream?.height ?? null,
+    videoCodec: videoStream?.codec_name ?? null,
+    audioCodec: audioStream?.codec_name ?? null,
+    bitrate: bitrate !== null ? Math.round(bitrate) : null,
+    frameRate: parseFrameRate(videoStream?.avg_frame_rate) ?? parseFrameRate(videoStream?.r_frame_rate),
+    container,
+  };
+}
+
+// Adaptive bitrate ladder. Renditions taller than the source are skipped.
+export const HLS_LADDER = [
+  { name: "360p", height: 360, videoBitrate: 800000, audioBitrate: 96000 },
+  { name: "720p", height: 720, videoBitrate: 2800000, audioBitrate: 128000 },
+  { name: "1080p", height: 1080, videoBitrate: 5000000, audioBitrate: 192000 },
+];
+
+const HLS_SEGMENT_SECONDS = 6;
+
+// Transcode a video into an HLS ladder under outputDir:
+//   master.m3u8, <rendition>/index.m3u8, <rendition>/seg_000.ts ...
+// The output is built in a temporary directory and swapped in when complete.
+export async function transcodeToHls(
+  inputPath: string,
+  outputDir: string,
+  source: { width: number; height: number },
+): Promise<string[]> {
+  const renditions = HLS_LADDER.filter(r => r.height <= source.height);
+  if (renditions.length === 0) {
+    renditions.push(HLS_LADDER[0]);
+  }
+
+  const workDir = `${outputDir}.tmp`;
+  fs.rmSync(workDir, { recursive: true, force: true });
+  fs.mkdirSync(workDir, { recursive: true });
+
+  try {
+    const variants: string[] = [];
+
+    for (const rendition of renditions) {
+      const renditionDir = path.join(workDir, rendition.name);
+      fs.mkdirSync(renditionDir);
+
+      // Keyframes aligned to segment boundaries so players can switch cleanly
+      await run(FFMPEG_PATH, [
+        "-y",
+        "-i", inputPath,
+        "-vf", `scale=-2:${rendition.height}`,
+        "-c:v", "libx264",
+        "-preset", "veryfast",
+        "-profile:v", "main",
+        "-b:v", rendition.videoBitrate.toString(),
+        "-maxrate", Math.round(rendition.videoBitrate * 1.07).toString(),
+        "-bufsize", (rendition.videoBitrate * 2).toString(),
+        "-force_key_frames", `expr:gte(t,n_forced*${HLS_SEGMENT_SECONDS})`,
+        "-sc_threshold", "0",
+        "-c:a", "aac",
+        "-b:a", rendition.audioBitrate.toString(),
+        "-ac", "2",
+        "-hls_time", HLS_SEGMENT_SECONDS.toString(),
+        "-hls_playlist_type", "vod",
+        "-hls_segment_filename", path.join(renditionDir, "seg_%03d.ts"),
+        path.join(renditionDir, "index.m3u8"),
+      ]);
+
+      const width = Math.round((source.width * rendition.height) / source.height / 2) * 2;
+      const bandwidth = rendition.videoBitrate + rendition.audioBitrate;
+      variants.push(
+        `#EXT-X-STREAM-INF:BANDWIDTH=${bandwidth},RESOLUTION=${width}x${rendition.height},NAME="${rendition.name}"`,
+        `${rendition.name}/index.m3u8`,
+      );
+    }
+
+    fs.writeFileSync(
+      path.join(workDir, "master.m3u8"),
+      ["#EXTM3U", "#EXT-X-VERSION:3", ...variants, ""].join("\n"),
+    );
+
+    fs.rmSync(outputDir, { recursive: true, force: true });
+    fs.renameSync(workDir, outputDir);
+    return renditions.map(r => r.name);
+  } catch (error) {
+    fs.rmSync(workDir, { recursive: true, force: true });
+    throw error;
+  }
+}
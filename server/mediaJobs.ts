@@ -0,0 +1,84 @@
+import fs from "fs";
+import path from "path";
+import { storage } from "./storage";
+import { extractThumbnail, probeMedia, transcodeToHls } from "./media";
+import { thumbnailsDir, getHlsDir } from "./paths";
+import { JobQueue } from "./jobs";
+import { log } from "./vite";
+
+// Uploaded (non-embedded) videos are the only ones with a local file to work on
+async function getUploadedVideo(videoId: number) {
+  const video = await storage.getVideo(videoId);
+  if (!video || video.isEmbedded || !video.filePath) {
+    return undefined;
+  }
+  return video as typeof video & { filePath: string };
+}
+
+// Post-upload media processing: metadata probe, poster frame and HLS transcode
+export function registerMediaJobs(queue: JobQueue): void {
+  // Record duration, resolution, codecs and other media metadata on the video
+  queue.register("probe", async ({ videoId }) => {
+    const video = await getUploadedVideo(videoId);
+    if (!video) return;
+
+    const metadata = await probeMedia(video.filePath);
+    await storage.updateVideo(videoId, metadata);
+  }, { concurrency: 2 });
+
+  // Extract a poster frame with ffmpeg and record it on the video
+  queue.register("thumbnail", async ({ videoId, atSeconds }) => {
+    const video = await getUploadedVideo(videoId);
+    if (!video) return;
+
+    const thumbnailPath = path.join(thumbnailsDir, `${videoId}-${Date.now()}.jpg`);
+    await extractThumbnail(video.filePath, thumbnailPath, atSeconds);
+
+    // The video was deleted while we were working, or its owner uploaded a
+    // custom thumbnail, which must not be replaced
+    const current = await storage.getVideo(videoId);
+    if (!current || current.thumbnailPath !== video.thumbnailPath) {
+      fs.rmSync(thumbnailPath, { force: true });
+      return;
+    }
+    if (!(await storage.updateVideo(videoId, { thumbnailPath }))) {
+      fs.rmSync(thumbnailPath, { force: true });
+      return;
+    }
+    if (video.thumbnailPath) {
+      fs.rmSync(video.thumbnailPath, { force: true });
+    }
+  }, { concurrency: 2 });
+
+  // Transcodes run one at a time so a burst of uploads doesn't starve the web
+  // server of CPU
+  queue.register("transcode", async ({ videoId }) => {
+    const video = await getUploadedVideo(videoId);
+    if (!video) return;
+
+    await storage.setVideoStatus(videoId, "processing");
+
+    // The metadata probe may not have finished yet, so read dimensions directly
+    let { width, height } = video;
+    if (!width || !height) {
+      ({ width, height } = await probeMedia(video.filePath));
+    }
+    if (!width || !height) {
+      throw new Error("No video stream found");
+    }
+
+    const renditions = await transcodeToHls(video.filePath, getHlsDir(videoId), { width, height });
+
+    // The video may have been deleted while it was transcoding
+    if (!(await storage.setVideoStatus(videoId, "ready"))) {
+      fs.rmSync(getHlsDir(videoId), { recursive: true, force: true });
+      return;
+    }
+    log(`Transcoded video ${videoId} to ${renditions.join(", ")}`, "transcode");
+  }, {
+    concurrency: 1,
+    onFailure: async ({ videoId }) => {
+      await storage.setVideoStatus(videoId, "failed");
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { scrypt, randomBytes, timingSafeEqual, createHash } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keylen: number,
+) => Promise<Buffer>;
+
+const HASH_PREFIX = "scrypt";
+const SALT_LENGTH = 16;
+const KEY_LENGTH = 64;
+
+// Stored format: scrypt$<salt hex>$<derived key hex>
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(SALT_LENGTH);
+  const key = await scryptAsync(password, salt, KEY_LENGTH);
+  return `${HASH_PREFIX}$${salt.toString("hex")}$${key.toString("hex")}`;
+}
+
+// Anything not in our hash format is a plaintext password from before hashing was introduced
+export function isPasswordHash(stored: string): boolean {
+  const parts = stored.split("$");
+  return parts.length === 3 && parts[0] === HASH_PREFIX;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    // Compare fixed-length digests so legacy plaintext checks are constant-time too
+    const a = createHash("sha256").update(password).digest();
+    const b = createHash("sha256").update(stored).digest();
+    return timingSafeEqual(a, b);
+  }
+
+  const [, saltHex, keyHex] = stored.split("$");
+  const expected = Buffer.from(keyHex, "hex");
+  const actual = await scryptAsync(password, Buffer.from(saltHex, "hex"), expected.length);
+  return timingSafeEqual(actual, expected);
+}
+
+// Used when the username does not exist so failed logins take the same time either way
+let dummyHash: Promise<string> | undefined;
+export function getDummyHash(): Promise<string> {
+  dummyHash ??= hashPassword(randomBytes(16).toString("hex"));
+  return dummyHash;
+}
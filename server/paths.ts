@@ -0,0 +1,25 @@
+import fs from "fs";
+import path from "path";
+import { fileURLToPath } from "url";
+
+// Get directory paths
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const uploadsDir = path.join(__dirname, '..', 'uploads');
+export const thumbnailsDir = path.join(uploadsDir, 'thumbnails');
+export const hlsDir = path.join(uploadsDir, 'hls');
+export const partialUploadsDir = path.join(uploadsDir, 'partial');
+
+// Create uploads directories if they don't exist
+for (const dir of [uploadsDir, thumbnailsDir, hlsDir, partialUploadsDir]) {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+// Each video's HLS renditions live in their own directory
+export const getHlsDir = (videoId: number) => path.join(hlsDir, videoId.toString());
+
+// Bytes of an in-progress resumable upload accumulate here
+export const getPartialUploadPath = (uploadId: string) => path.join(partialUploadsDir, `${uploadId}.part`);
@@ -0,0 +1,230 @@
+import { describe, it, before, after } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import express from "express";
+import { detectMimeType, sniffMimeType, parseRangeHeader, sendFileWithRanges } from "./rangeServing";
+
+// Small sample files: real container headers followed by filler bytes
+const SAMPLE_SIZE = 2000;
+
+const sampleHeaders: Record<string, Buffer> = {
+  "sample.mp4": Buffer.concat([Buffer.from([0, 0, 0, 0x18]), Buffer.from("ftypisom", "latin1")]),
+  "sample.mov": Buffer.concat([Buffer.from([0, 0, 0, 0x14]), Buffer.from("ftypqt  ", "latin1")]),
+  "sample.webm": Buffer.concat([Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x84]), Buffer.from("webm", "latin1")]),
+  "sample.mkv": Buffer.concat([Buffer.from([0x1a, 0x45, 0xdf, 0xa3, 0x9f, 0x42, 0x82, 0x88]), Buffer.from("matroska", "latin1")]),
+  "sample.avi": Buffer.from("RIFF\0\0\0\0AVI LIST", "latin1"),
+  // Unrecognisable contents, so the extension decides
+  "renamed.webm": Buffer.from("not a real header", "latin1"),
+  "unknown.bin": Buffer.from("not a real header", "latin1"),
+};
+
+// Byte i of every sample past its header is i % 251, so slices are easy to check
+const sampleBody = (header: Buffer) => {
+  const body = Buffer.alloc(SAMPLE_SIZE);
+  for (let i = 0; i < SAMPLE_SIZE; i++) body[i] = i % 251;
+  header.copy(body);
+  return body;
+};
+
+let dir: string;
+let server: Server;
+let baseUrl: string;
+// The last send to a client that had already disconnected
+let sentToGoneClient: Promise<void> | undefined;
+
+before(async () => {
+  dir = await fs.promises.mkdtemp(path.join(os.tmpdir(), "range-serving-"));
+  for (const [name, header] of Object.entries(sampleHeaders)) {
+    await fs.promises.writeFile(path.join(dir, name), sampleBody(header));
+  }
+
+  const app = express();
+  app.get("/files/:name", (req, res, next) => {
+    sendFileWithRanges(req, res, path.join(dir, req.params.name)).catch(next);
+  });
+  app.get("/gone/:name", (req, res) => {
+    res.destroy();
+    sentToGoneClient = sendFileWithRanges(req, res, path.join(dir, req.params.name));
+  });
+  await new Promise<void>(resolve => {
+    server = app.listen(0, "127.0.0.1", () => resolve());
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(async () => {
+  await new Promise(resolve => server.close(resolve));
+  await fs.promises.rm(dir, { recursive: true, force: true });
+});
+
+const request = (name: string, init: RequestInit = {}) => fetch(`${baseUrl}/files/${name}`, init);
+
+const expectedBytes = (name: string, start: number, end: number) =>
+  sampleBody(sampleHeaders[name]).subarray(start, end + 1);
+
+describe("MIME detection", () => {
+  it("recognises containers from their leading bytes", async () => {
+    assert.equal(await detectMimeType(path.join(dir, "sample.mp4")), "video/mp4");
+    assert.equal(await detectMimeType(path.join(dir, "sample.mov")), "video/quicktime");
+    assert.equal(await detectMimeType(path.join(dir, "sample.webm")), "video/webm");
+    assert.equal(await detectMimeType(path.join(dir, "sample.mkv")), "video/x-matroska");
+    assert.equal(await detectMimeType(path.join(dir, "sample.avi")), "video/x-msvideo");
+  });
+
+  it("falls back to the extension, then to octet-stream", async () => {
+    assert.equal(await detectMimeType(path.join(dir, "renamed.webm")), "video/webm");
+    assert.equal(await detectMimeType(path.join(dir, "unknown.bin")), "application/octet-stream");
+  });
+
+  it("recognises transport streams and HLS playlists", () => {
+    const ts = Buffer.alloc(376);
+    ts[0] = 0x47;
+    ts[188] = 0x47;
+    assert.equal(sniffMimeType(ts), "video/mp2t");
+    assert.equal(sniffMimeType(Buffer.from("#EXTM3U\n#EXT-X-VERSION:3\n")), "application/vnd.apple.mpegurl");
+  });
+
+  it("sends the detected type", async () => {
+    const res = await request("sample.webm");
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "video/webm");
+    assert.equal(res.headers.get("accept-ranges"), "bytes");
+  });
+});
+
+describe("parseRangeHeader", () => {
+  it("merges overlapping and adjacent ranges", () => {
+    assert.deepEqual(parseRangeHeader("bytes=0-9,5-19,20-29", 100), [{ start: 0, end: 29 }]);
+  });
+
+  it("ignores other units, bad syntax and reversed ranges", () => {
+    assert.equal(parseRangeHeader("items=0-9", 100), null);
+    assert.equal(parseRangeHeader("bytes=abc", 100), null);
+    assert.equal(parseRangeHeader("bytes=9-0", 100), null);
+  });
+});
+
+describe("Range requests", () => {
+  it("serves a single range", async () => {
+    const res = await request("sample.mp4", { headers: { Range: "bytes=100-199" } });
+    assert.equal(res.status, 206);
+    assert.equal(res.headers.get("content-range"), `bytes 100-199/${SAMPLE_SIZE}`);
+    assert.equal(res.headers.get("content-length"), "100");
+    assert.deepEqual(Buffer.from(await res.arrayBuffer()), expectedBytes("sample.mp4", 100, 199));
+  });
+
+  it("serves suffix ranges from the end of the file", async () => {
+    const res = await request("sample.mp4", { headers: { Range: "bytes=-500" } });
+    assert.equal(res.status, 206);
+    assert.equal(res.headers.get("content-range"), `bytes 1500-1999/${SAMPLE_SIZE}`);
+    assert.deepEqual(Buffer.from(await res.arrayBuffer()), expectedBytes("sample.mp4", 1500, 1999));
+  });
+
+  it("clamps a suffix longer than the file to the whole file", async () => {
+    const res = await request("sample.mp4", { headers: { Range: "bytes=-5000" } });
+    assert.equal(res.status, 206);
+    assert.equal(res.headers.get("content-range"), `bytes 0-1999/${SAMPLE_SIZE}`);
+  });
+
+  it("answers 416 when the start is past the end of the file", async () => {
+    const res = await request("sample.mp4", { headers: { Range: `bytes=${SAMPLE_SIZE}-` } });
+    assert.equal(res.status, 416);
+    assert.equal(res.headers.get("content-range"), `bytes */${SAMPLE_SIZE}`);
+  });
+
+  it("sends several ranges as multipart/byteranges", async () => {
+    const res = await request("sample.mp4", { headers: { Range: "bytes=0-9,1000-1009" } });
+    assert.equal(res.status, 206);
+
+    const boundary = /^multipart\/byteranges; boundary=(\w+)$/.exec(res.headers.get("content-type") ?? "")?.[1];
+    assert.ok(boundary);
+    const body = Buffer.from(await res.arrayBuffer());
+    assert.equal(res.headers.get("content-length"), body.length.toString());
+
+    const text = body.toString("latin1");
+    const parts = text.split(`--${boundary}`).slice(1, -1);
+    assert.equal(parts.length, 2);
+    assert.ok(text.endsWith(`--${boundary}--\r\n`));
+    for (const [part, start, end] of [[parts[0], 0, 9], [parts[1], 1000, 1009]] as const) {
+      const [headers, data] = part.split("\r\n\r\n");
+      assert.match(headers, /Content-Type: video\/mp4/);
+      assert.match(headers, new RegExp(`Content-Range: bytes ${start}-${end}/${SAMPLE_SIZE}`));
+      assert.deepEqual(Buffer.from(data.replace(/\r\n$/, ""), "latin1"), expectedBytes("sample.mp4", start, end));
+    }
+  });
+});
+
+describe("disconnects", () => {
+  it("finishes a multipart send when the client has already gone", async () => {
+    await assert.rejects(fetch(`${baseUrl}/gone/sample.mp4`, { headers: { Range: "bytes=0-9,1000-1009" } }));
+    assert.ok(sentToGoneClient);
+
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise((_, reject) => {
+      timer = setTimeout(() => reject(new Error("send never finished")), 2000);
+    });
+    try {
+      await Promise.race([sentToGoneClient, timeout]);
+    } finally {
+      clearTimeout(timer);
+    }
+  });
+});
+
+describe("conditional requests", () => {
+  it("honours If-Range only while the ETag still matches", async () => {
+    const { headers } = await request("sample.mp4", { method: "HEAD" });
+    const etag = headers.get("etag")!;
+
+    const fresh = await request("sample.mp4", { headers: { Range: "bytes=0-9", "If-Range": etag } });
+    assert.equal(fresh.status, 206);
+    assert.equal(fresh.headers.get("content-length"), "10");
+
+    const stale = await request("sample.mp4", { headers: { Range: "bytes=0-9", "If-Range": '"0-0"' } });
+    assert.equal(stale.status, 200);
+    assert.equal(stale.headers.get("content-length"), SAMPLE_SIZE.toString());
+  });
+
+  it("answers 304 for a matching If-None-Match", async () => {
+    const { headers } = await request("sample.mp4", { method: "HEAD" });
+    const res = await request("sample.mp4", { headers: { "If-None-Match": `"other", ${headers.get("etag")}` } });
+    assert.equal(res.status, 304);
+
+    const changed = await request("sample.mp4", { headers: { "If-None-Match": '"other"' } });
+    assert.equal(changed.status, 200);
+  });
+
+  it("answers 304 when not modified since the given date", async () => {
+    const { headers } = await request("sample.mp4", { method: "HEAD" });
+    const lastModified = headers.get("last-modified")!;
+
+    const res = await request("sample.mp4", { headers: { "If-Modified-Since": lastModified } });
+    assert.equal(res.status, 304);
+
+    const earlier = new Date(Date.parse(lastModified) - 60 * 1000).toUTCString();
+    const modified = await request("sample.mp4", { headers: { "If-Modified-Since": earlier } });
+    assert.equal(modified.status, 200);
+  });
+});
+
+describe("HEAD", () => {
+  it("sends the same headers as GET without a body", async () => {
+    const res = await request("sample.mp4", { method: "HEAD" });
+    assert.equal(res.status, 200);
+    assert.equal(res.headers.get("content-type"), "video/mp4");
+    assert.equal(res.headers.get("content-length"), SAMPLE_SIZE.toString());
+    assert.ok(res.headers.get("etag"));
+    assert.equal((await res.arrayBuffer()).byteLength, 0);
+  });
+
+  it("reports partial content for ranges", async () => {
+    const res = await request("sample.mp4", { method: "HEAD", headers: { Range: "bytes=-500" } });
+    assert.equal(res.status, 206);
+    assert.equal(res.headers.get("content-length"), "500");
+    assert.equal(res.headers.get("content-range"), `bytes 1500-1999/${SAMPLE_SIZE}`);
+  });
+});
@@ -0,0 +1,283 @@
+import fs from "fs";
+import path from "path";
+import { randomBytes } from "crypto";
+import type { Request, Response } from "express";
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+// Requests asking for more ranges than this get the whole file instead
+const MAX_RANGES = 16;
+
+// Fallbacks when a file's leading bytes are not recognised
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  ".mp4": "video/mp4",
+  ".m4v": "video/x-m4v",
+  ".mov": "video/quicktime",
+  ".webm": "video/webm",
+  ".mkv": "video/x-matroska",
+  ".avi": "video/x-msvideo",
+  ".ogv": "video/ogg",
+  ".ts": "video/mp2t",
+  ".mpg": "video/mpeg",
+  ".mpeg": "video/mpeg",
+  ".flv": "video/x-flv",
+  ".3gp": "video/3gpp",
+  ".m3u8": "application/vnd.apple.mpegurl",
+};
+
+// Identify a video container from its magic bytes
+export function sniffMimeType(header: Buffer): string | undefined {
+  const ascii = (start: number, end: number) => header.toString("latin1", start, end);
+
+  // ISO base media (MP4, MOV, 3GP): a "ftyp" box whose major brand names the flavour
+  if (header.length >= 12 && ascii(4, 8) === "ftyp") {
+    const brand = ascii(8, 12);
+    if (brand === "qt  ") return "video/quicktime";
+    if (brand === "M4V " || brand === "M4VH" || brand === "M4VP") return "video/x-m4v";
+    if (brand.startsWith("3g2")) return "video/3gpp2";
+    if (brand.startsWith("3gp")) return "video/3gpp";
+    return "video/mp4";
+  }
+  // Older QuickTime files may start with other atoms
+  if (header.length >= 8 && ["moov", "mdat", "wide", "free", "skip"].includes(ascii(4, 8))) {
+    return "video/quicktime";
+  }
+  // EBML: WebM is Matroska with a "webm" DocType near the start
+  if (header.length >= 4 && header.readUInt32BE(0) === 0x1a45dfa3) {
+    return header.includes("webm", 0, "latin1") ? "video/webm" : "video/x-matroska";
+  }
+  if (header.length >= 12 && ascii(0, 4) === "RIFF" && ascii(8, 12) === "AVI ") {
+    return "video/x-msvideo";
+  }
+  if (ascii(0, 4) === "OggS") return "video/ogg";
+  if (ascii(0, 3) === "FLV") return "video/x-flv";
+  if (header.length >= 4 && header.readUInt32BE(0) === 0x000001ba) return "video/mpeg";
+  // MPEG transport streams repeat a 0x47 sync byte every 188 bytes
+  if (header.length > 188 && header[0] === 0x47 && header[188] === 0x47) return "video/mp2t";
+  if (ascii(0, 7) === "#EXTM3U") return "application/vnd.apple.mpegurl";
+
+  return undefined;
+}
+
+// Detect a stored file's content type from its contents, then its extension
+export async function detectMimeType(filePath: string): Promise<string> {
+  const handle = await fs.promises.open(filePath, "r");
+  try {
+    const header = Buffer.alloc(256);
+    const { bytesRead } = await handle.read(header, 0, header.length, 0);
+    const sniffed = sniffMimeType(header.subarray(0, bytesRead));
+    if (sniffed) return sniffed;
+  } finally {
+    await handle.close();
+  }
+
+  return EXTENSION_MIME_TYPES[path.extname(filePath).toLowerCase()] ?? "application/octet-stream";
+}
+
+// Parse a Range header against a file of the given size (RFC 7233).
+// Returns the ranges to send (sorted and merged), "unsatisfiable" when none
+// overlap the file, or null when the header should be ignored and the whole
+// file sent: a unit other than bytes, bad syntax or too many ranges.
+export function parseRangeHeader(header: string, size: number): ByteRange[] | "unsatisfiable" | null {
+  const match = /^\s*bytes\s*=\s*(.+)$/i.exec(header);
+  if (!match) return null;
+
+  const specs = match[1].split(",").map(spec => spec.trim()).filter(Boolean);
+  if (specs.length === 0 || specs.length > MAX_RANGES) return null;
+
+  const ranges: ByteRange[] = [];
+  for (const spec of specs) {
+    const parts = /^(\d*)-(\d*)$/.exec(spec);
+    if (!parts || (parts[1] === "" && parts[2] === "")) return null;
+
+    if (parts[1] === "") {
+      // Suffix range: the last N bytes
+      const length = parseInt(parts[2], 10);
+      if (length > 0 && size > 0) {
+        ranges.push({ start: Math.max(size - length, 0), end: size - 1 });
+      }
+      continue;
+    }
+
+    const start = parseInt(parts[1], 10);
+    const end = parts[2] === "" ? Infinity : parseInt(parts[2], 10);
+    if (end < start) return null;
+    if (start < size) {
+      ranges.push({ start, end: Math.min(end, size - 1) });
+    }
+  }
+
+  if (ranges.length === 0) return "unsatisfiable";
+
+  ranges.sort((a, b) => a.start - b.start);
+  const merged: ByteRange[] = [ranges[0]];
+  for (const range of ranges.slice(1)) {
+    const last = merged[merged.length - 1];
+    if (range.start <= last.end + 1) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push(range);
+    }
+  }
+  return merged;
+}
+
+// Strong validator derived from size and modification time
+function computeETag(stat: fs.Stats): string {
+  return `"${stat.size.toString(16)}-${Math.floor(stat.mtimeMs).toString(16)}"`;
+}
+
+// HTTP dates only have second precision
+function isUnmodifiedSince(stat: fs.Stats, header: string): boolean {
+  const since = Date.parse(header);
+  return !isNaN(since) && Math.floor(stat.mtimeMs / 1000) * 1000 <= since;
+}
+
+function etagListMatches(header: string, etag: string): boolean {
+  if (header.trim() === "*") return true;
+  // If-None-Match uses weak comparison, so a W/ prefix is ignored
+  return header.split(",").some(tag => tag.trim().replace(/^W\//, "") === etag);
+}
+
+// The client's cached copy is still current, so a 304 can be sent
+function isNotModified(req: Request, stat: fs.Stats, etag: string): boolean {
+  const ifNoneMatch = req.headers["if-none-match"];
+  if (ifNoneMatch) {
+    return etagListMatches(ifNoneMatch, etag);
+  }
+  const ifModifiedSince = req.headers["if-modified-since"];
+  return !!ifModifiedSince && isUnmodifiedSince(stat, ifModifiedSince);
+}
+
+// A Range request only applies if the If-Range validator still matches;
+// otherwise the client's partial copy is stale and it needs the whole file
+function isRangeStillValid(req: Request, stat: fs.Stats, etag: string): boolean {
+  const ifRange = req.header("If-Range")?.trim();
+  if (!ifRange) return true;
+
+  if (ifRange.startsWith('"') || ifRange.startsWith("W/")) {
+    // Strong comparison: weak validators never match
+    return ifRange === etag;
+  }
+  const date = Date.parse(ifRange);
+  return !isNaN(date) && Math.floor(stat.mtimeMs / 1000) * 1000 === date;
+}
+
+// The client disconnected or the response was already finished; "close" won't fire again
+const isResponseGone = (res: Response) => res.destroyed || res.writableEnded;
+
+function pipeRange(filePath: string, range: ByteRange, res: Response): Promise<void> {
+  if (isResponseGone(res)) return Promise.resolve();
+
+  return new Promise((resolve, reject) => {
+    const stream = fs.createReadStream(filePath, { start: range.start, end: range.end });
+    // Stop reading if the client goes away mid-transfer
+    const onClose = () => {
+      stream.destroy();
+      resolve();
+    };
+    res.once("close", onClose);
+    stream.on("error", error => {
+      res.off("close", onClose);
+      reject(error);
+    });
+    stream.on("end", () => {
+      res.off("close", onClose);
+      resolve();
+    });
+    stream.pipe(res, { end: false });
+  });
+}
+
+async function sendMultipart(filePath: string, ranges: ByteRange[], size: number, contentType: string, res: Response, isHead: boolean) {
+  const boundary = randomBytes(12).toString("hex");
+  const partHeaders = ranges.map(range =>
+    `\r\n--${boundary}\r\nContent-Type: ${contentType}\r\nContent-Range: bytes ${range.start}-${range.end}/${size}\r\n\r\n`,
+  );
+  const trailer = `\r\n--${boundary}--\r\n`;
+  const contentLength = ranges.reduce(
+    (total, range, i) => total + Buffer.byteLength(partHeaders[i]) + range.end - range.start + 1,
+    Buffer.byteLength(trailer),
+  );
+
+  res.status(206);
+  res.setHeader("Content-Type", `multipart/byteranges; boundary=${boundary}`);
+  res.setHeader("Content-Length", contentLength);
+  if (isHead) return res.end();
+
+  for (let i = 0; i < ranges.length; i++) {
+    if (isResponseGone(res)) return;
+    res.write(partHeaders[i]);
+    await pipeRange(filePath, ranges[i], res);
+  }
+  res.end(trailer);
+}
+
+interface SendFileOptions {
+  // Detected from the file when omitted
+  contentType?: string;
+  cacheControl?: string;
+}
+
+// Send a file honouring Range, If-Range, If-None-Match and If-Modified-Since.
+// Works for GET and HEAD; HEAD gets identical headers without a body.
+export async function sendFileWithRanges(
+  req: Request,
+  res: Response,
+  filePath: string,
+  options: SendFileOptions = {},
+): Promise<void> {
+  const stat = await fs.promises.stat(filePath);
+  const size = stat.size;
+  const etag = computeETag(stat);
+  const contentType = options.contentType ?? await detectMimeType(filePath);
+  const isHead = req.method === "HEAD";
+
+  res.setHeader("Accept-Ranges", "bytes");
+  res.setHeader("ETag", etag);
+  res.setHeader("Last-Modified", stat.mtime.toUTCString());
+  if (options.cacheControl) {
+    res.setHeader("Cache-Control", options.cacheControl);
+  }
+
+  if (isNotModified(req, stat, etag)) {
+    res.status(304).end();
+    return;
+  }
+
+  const rangeHeader = req.headers.range;
+  const ranges = rangeHeader && isRangeStillValid(req, stat, etag)
+    ? parseRangeHeader(rangeHeader, size)
+    : null;
+
+  if (ranges === "unsatisfiable") {
+    res.status(416);
+    res.setHeader("Content-Range", `bytes */${size}`);
+    res.end();
+    return;
+  }
+
+  if (ranges && ranges.length > 1) {
+    await sendMultipart(filePath, ranges, size, contentType, res, isHead);
+    return;
+  }
+
+  const range = ranges?.[0] ?? { start: 0, end: size - 1 };
+  res.status(ranges ? 206 : 200);
+  res.setHeader("Content-Type", contentType);
+  res.setHeader("Content-Length", size === 0 ? 0 : range.end - range.start + 1);
+  if (ranges) {
+    res.setHeader("Content-Range", `bytes ${range.start}-${range.end}/${size}`);
+  }
+
+  if (isHead || size === 0) {
+    res.end();
+    return;
+  }
+
+  await pipeRange(filePath, range, res);
+  res.end();
+}
@@ -0,0 +1,31 @@
+// Fixed-window request counters keyed by client, usually req.ip (which relies
+// on TRUST_PROXY when behind a proxy, see index.ts). Kept in memory, so limits reset
+// on restart and apply per server process.
+
+// Returns a check that counts one attempt for the key and says whether it is
+// still within `limit` attempts for the current window
+export function createRateLimiter(limit: number, windowMs: number): (key: string | undefined) => boolean {
+  const windows = new Map<string, { count: number; resetAt: number }>();
+
+  // Drop expired windows so the map doesn't grow with every client ever seen
+  setInterval(() => {
+    const now = Date.now();
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) {
+        windows.delete(key);
+      }
+    });
+  }, windowMs).unref();
+
+  return (key) => {
+    const now = Date.now();
+    const id = key ?? "unknown";
+    const window = windows.get(id);
+    if (!window || window.resetAt <= now) {
+      windows.set(id, { count: 1, resetAt: now + windowMs });
+      return true;
+    }
+    window.count++;
+    return window.count <= limit;
+  };
+}
@@ -1,53 +1,77 @@
 import express, { type Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
-import { storage } from "./storage";
+import { storage, getVideoSortValue, UsernameTakenError, type CommentFilter } from "./storage";
 import fs from "fs";
 import path from "path";
-import { fileURLToPath } from "url";
 import multer from "multer";
 import { v4 as uuidv4 } from "uuid";
-import { insertVideoSchema, loginSchema, passwordChangeSchema, User, embedVideoSchema, themeSchema, ThemeSettings } from "@shared/schema";
+import { randomBytes } from "crypto";
+import { insertVideoSchema, loginSchema, registerSchema, passwordChangeSchema, User, SafeUser, Invite, Video, embedVideoSchema, themeSchema, ThemeSettings, siteSettingsSchema, createInviteSchema, adminCreateUserSchema, adminUpdateUserSchema, adminResetPasswordSchema, deleteUserSchema, updateProfileSchema, updateVideoSchema, PublicProfile, VideoWithStream, WatchProgress, HistoryPage, watchProgressSchema, historyQuerySchema, ViewHeartbeat, viewHeartbeatSchema, VideoAnalytics, SiteAnalytics, analyticsQuerySchema, CaptionTrack, captionLanguageSchema, uploadCaptionSchema, Share, ShareLink, createShareSchema, unlockShareSchema, reactionSchema, ReactionType, ReactionSummary, Comment, CommentView, CommentPage, ModeratedCommentPage, VideoListPage, videoListQuerySchema, SearchResultPage, searchQuerySchema, suggestQuerySchema, renameTagSchema, mergeTagSchema, createPlaylistSchema, updatePlaylistSchema, addPlaylistVideoSchema, reorderPlaylistSchema, playlistListQuerySchema, Playlist, PlaylistWithVideos, createCategorySchema, updateCategorySchema, reorderCategoriesSchema, deleteCategorySchema, categorySlug, createCommentSchema, updateCommentSchema, pinCommentSchema, commentListQuerySchema, JOB_STATUSES, JobStatus, createUploadSchema } from "@shared/schema";
 import { z } from "zod";
 import session from "express-session";
 import { log } from "./vite";
+import { thumbnailsDir, getHlsDir } from "./paths";
+import { jobQueue } from "./jobs";
+import { sendFileWithRanges } from "./rangeServing";
+import { createStreamSource, verifyStreamToken, signPlaylist } from "./streamTokens";
+import { createUploadSession, appendChunk, finalizeUpload, discardUpload, parseChecksumHeader, sha256Base64, UploadConflictError, MAX_CHUNK_SIZE } from "./uploads";
+import { encodeCursor, decodeCursor } from "./cursors";
+import { VIEW_DEDUPE_WINDOW_MS, isBotUserAgent, getDeviceClass, getViewerKey, requiredWatchSeconds, creditedWatchSeconds, allowViewStart } from "./views";
+import { RETENTION_BUCKETS, analyticsSince, fillViewsByDay, retentionCurve } from "./analytics";
+import { parseSearchQuery, getHighlightTerms, highlight } from "./search";
+import { MAX_CAPTION_SIZE, CaptionFormatError, toWebVtt, captionText } from "./captions";
+import { hashPassword, verifyPassword, isPasswordHash, getDummyHash } from "./passwords";
+import { createRateLimiter } from "./rateLimit";
 
-// Get directory paths
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
-const uploadsDir = path.join(__dirname, '..', 'uploads');
+// Raised by upload file filters for files of the wrong type
+class RejectedFileError extends Error {}
 
-// Create uploads directory if it doesn't exist
-if (!fs.existsSync(uploadsDir)) {
-  fs.mkdirSync(uploadsDir, { recursive: true });
-}
+// Custom thumbnails uploaded by the video owner
+const thumbnailUpload = multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      cb(null, thumbnailsDir);
+    },
+    filename: (req, file, cb) => {
+      cb(null, `${uuidv4()}${path.extname(file.originalname)}`);
+    }
+  }),
+  fileFilter: (req, file, cb) => {
+    if (file.mimetype.startsWith('image/')) {
+      cb(null, true);
+    } else {
+      cb(new RejectedFileError('Only image files are allowed'));
+    }
+  },
+  limits: { fileSize: 5 * 1024 * 1024 } // 5MB limit
+});
 
-// Configure multer for handling file uploads
-const storage_config = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, uploadsDir);
+// Caption files are small, so they're kept in memory and stored converted to WebVTT
+const captionUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    if (/\.(vtt|srt)$/i.test(file.originalname)) {
+      cb(null, true);
+    } else {
+      cb(new RejectedFileError('Only .vtt and .srt caption files are allowed'));
+    }
   },
-  filename: (req, file, cb) => {
-    const uniqueFilename = `${uuidv4()}-${file.originalname}`;
-    cb(null, uniqueFilename);
-  }
+  limits: { fileSize: MAX_CAPTION_SIZE }
 });
 
-// File filter to allow only video files
-const fileFilter = (req: Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
-  // Accept video files: mp4, webm, mov
-  if (file.mimetype.startsWith('video/')) {
-    cb(null, true);
-  } else {
-    cb(new Error('Only video files are allowed'));
-  }
+// Runs an upload middleware, answering 400 when the file is rejected by its
+// filter or limits rather than letting that reach the generic error handler
+const acceptUpload = (upload: express.RequestHandler) => {
+  return (req: Request, res: Response, next: Function) => {
+    upload(req, res, (error?: unknown) => {
+      if (error instanceof RejectedFileError || error instanceof multer.MulterError) {
+        return res.status(400).json({ message: error.message });
+      }
+      next(error);
+    });
+  };
 };
 
-const upload = multer({ 
-  storage: storage_config,
-  fileFilter,
-  limits: { fileSize: 500 * 1024 * 1024 } // 500MB limit
-});
-
 // Utility function to validate request with zod schema
 const validateRequest = <T>(schema: z.ZodType<T>) => {
   return (req: Request, res: Response, next: Function) => {
@@ -63,6 +87,9 @@ const validateRequest = <T>(schema: z.ZodType<T>) => {
   };
 };
 
+// All a user who must change their password can reach
+const PASSWORD_CHANGE_PATHS = new Set(["/auth/change-password", "/auth/logout", "/auth/me", "/auth/login"]);
+
 // Authentication middleware
 const requireAuth = (req: Request, res: Response, next: Function) => {
   if (!req.session.user) {
@@ -79,10 +106,163 @@ const requireAdmin = (req: Request, res: Response, next: Function) => {
   next();
 };
 
+// Strip credentials before a user leaves the server or enters the session store
+const toSafeUser = (user: User): SafeUser => {
+  const { password, ...safeUser } = user;
+  return safeUser;
+};
+
+// An invite can be redeemed once and only before it expires
+const isInviteUsable = (invite: Invite | undefined): invite is Invite => {
+  return !!invite && invite.usedBy === null && (!invite.expiresAt || invite.expiresAt > new Date());
+};
+
+const removeFile = (filePath: string | null) => {
+  if (filePath && fs.existsSync(filePath)) {
+    fs.unlinkSync(filePath);
+  }
+};
+
+// Remove an uploaded video's files from disk
+const removeVideoFiles = (video: Video) => {
+  if (!video.isEmbedded) {
+    removeFile(video.filePath);
+    fs.rmSync(getHlsDir(video.id), { recursive: true, force: true });
+  }
+  removeFile(video.thumbnailPath);
+};
+
+const isOwnerOrAdmin = (video: Video, viewer: SafeUser | undefined) => {
+  return !!viewer && (viewer.isAdmin || viewer.id === video.uploaderId);
+};
+
+// Private videos can only be watched by their uploader and admins
+const canViewVideo = (video: Video, viewer: SafeUser | undefined) => {
+  return video.visibility !== "private" || isOwnerOrAdmin(video, viewer);
+};
+
+// Visitors who opened a video through a share link may keep loading its media
+// for as long as that link stays active; revoking it or letting it expire cuts
+// them off
+const hasSharedAccess = async (req: Request, videoId: number) => {
+  const opened = req.session.viewedShares;
+  if (!opened?.length) return false;
+  const shares = await storage.getSharesByVideo(videoId);
+  return shares.some(share => opened.includes(share.id) && isShareActive(share));
+};
+
+const canWatchVideo = async (req: Request, video: Video) => {
+  return canViewVideo(video, req.session.user) || await hasSharedAccess(req, video.id);
+};
+
+// Keeps the items whose video the viewer can watch, in order
+const filterWatchable = async <T>(req: Request, items: T[], videoOf: (item: T) => Video) => {
+  const watchable = await Promise.all(items.map(item => canWatchVideo(req, videoOf(item))));
+  return items.filter((_, i) => watchable[i]);
+};
+
+const canManagePlaylist = (playlist: Playlist, viewer: SafeUser | undefined) => {
+  return !!viewer && (viewer.isAdmin || viewer.id === playlist.ownerId);
+};
+
+// Like videos, private playlists are only visible to their owner and admins
+const canViewPlaylist = (playlist: Playlist, viewer: SafeUser | undefined) => {
+  return playlist.visibility !== "private" || canManagePlaylist(playlist, viewer);
+};
+
+const toShareLink = (share: Share): ShareLink => {
+  const { passwordHash, ...link } = share;
+  return { ...link, hasPassword: !!passwordHash };
+};
+
+// Revoked and expired links stop working; view caps are enforced when a view is recorded
+const isShareActive = (share: Share) => {
+  return !share.revokedAt && (!share.expiresAt || share.expiresAt > new Date());
+};
+
+// Each IP may try this many share link passwords per window
+const SHARE_UNLOCK_LIMIT = 10;
+const SHARE_UNLOCK_WINDOW_MS = 15 * 60 * 1000;
+const allowShareUnlock = createRateLimiter(SHARE_UNLOCK_LIMIT, SHARE_UNLOCK_WINDOW_MS);
+
+// What the signed-in viewer thinks of a video, if anything
+const getViewerReaction = async (req: Request, videoId: number): Promise<ReactionType | null> => {
+  if (!req.session.user) return null;
+  const reaction = await storage.getReaction(req.session.user.id, videoId);
+  return reaction?.type ?? null;
+};
+
+const historyCursorSchema = z.object({ watchedAt: z.coerce.date(), videoId: z.number().int() });
+
+const videoCursorSchema = z.object({ value: z.union([z.string(), z.number()]), id: z.number().int() });
+
+const searchCursorSchema = z.object({ offset: z.number().int().min(0) });
+
+// Longest stretch of description returned with a search result
+const SEARCH_SNIPPET_LENGTH = 160;
+
+const commentCursorSchema = z.object({ id: z.number().int(), replyCount: z.number().int() });
+
+// Fetch one more comment than asked for to learn whether another page follows
+const paginateComments = async (filter: CommentFilter) => {
+  const rows = await storage.listComments({ ...filter, limit: filter.limit + 1 });
+  const page = rows.slice(0, filter.limit);
+  const last = page[page.length - 1];
+  const nextCursor = rows.length > filter.limit
+    ? encodeCursor({ id: last.id, replyCount: last.replyCount })
+    : null;
+  return { page, nextCursor };
+};
+
+// Attach authors to comments. Deleted comments are blanked unless a moderator is looking.
+const toCommentViews = async (comments: Comment[], revealDeleted = false): Promise<CommentView[]> => {
+  const authorIds = Array.from(new Set(comments.map(comment => comment.userId)));
+  const authors = new Map<number, CommentView["author"]>();
+  for (const user of await Promise.all(authorIds.map(id => storage.getUser(id)))) {
+    if (user) {
+      authors.set(user.id, { id: user.id, username: user.username, displayName: user.displayName, avatarUrl: user.avatarUrl });
+    }
+  }
+
+  return comments.map(({ deletedAt, ...comment }) => {
+    const hidden = deletedAt !== null && !revealDeleted;
+    return {
+      ...comment,
+      body: hidden ? "" : comment.body,
+      deleted: deletedAt !== null,
+      author: hidden ? null : authors.get(comment.userId) ?? null,
+    };
+  });
+};
+
+// The site must always keep at least one enabled admin
+const isLastActiveAdmin = async (user: User) => {
+  if (!user.isAdmin || user.isDisabled) return false;
+  const users = await storage.getAllUsers();
+  return users.filter(u => u.isAdmin && !u.isDisabled).length <= 1;
+};
+
+// Why another category's name or slug clashes with these, if it does
+const findCategoryConflict = async (id: number | undefined, name?: string, slug?: string) => {
+  const others = (await storage.getAllCategories()).filter(c => c.id !== id);
+  if (name && others.some(c => c.name.toLowerCase() === name.toLowerCase())) {
+    return `A category named "${name}" already exists`;
+  }
+  if (slug && others.some(c => c.slug === slug)) {
+    return `A category with the slug "${slug}" already exists`;
+  }
+  return undefined;
+};
+
 // Declare session with TypeScript
 declare module 'express-session' {
   interface SessionData {
-    user: User;
+    user: SafeUser;
+    // Password-protected share links this visitor has unlocked
+    unlockedShares: number[];
+    // Share links this visitor has opened, each counted once against its view
+    // cap. They grant access to their video while they stay active.
+    viewedShares: number[];
   }
 }
 
@@ -100,6 +280,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
     })
   );
 
+  // Keep the session in sync with the stored account so role changes apply
+  // immediately and disabled or deleted users are signed out on their next request
+  app.use('/api', async (req, res, next) => {
+    if (!req.session?.user) {
+      return next();
+    }
+
+    try {
+      const user = await storage.getUser(req.session.user.id);
+      if (!user || user.isDisabled) {
+        delete req.session.user;
+      } else {
+        req.session.user = toSafeUser(user);
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Users whose password an admin reset can only choose a new one or sign out
+  app.use('/api', (req, res, next) => {
+    if (req.session?.user?.mustChangePassword && !PASSWORD_CHANGE_PATHS.has(req.path)) {
+      return res.status(403).json({ message: "You must change your password first" });
+    }
+    next();
+  });
+
   // API routes
   const apiRouter = express.Router();
 
@@ -109,18 +317,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
     
     try {
       const user = await storage.getUserByUsername(username);
+      const passwordMatches = await verifyPassword(password, user?.password ?? await getDummyHash());
       
-      if (!user || user.password !== password) {
+      if (!user || !passwordMatches) {
         return res.status(401).json({ message: "Invalid username or password" });
       }
       
+      if (user.isDisabled) {
+        return res.status(403).json({ message: "This account has been disabled" });
+      }
+      
+      // Upgrade passwords stored before hashing was introduced
+      if (!isPasswordHash(user.password)) {
+        await storage.updateUserPassword(user.id, password);
+      }
+      
       // Set user in session
-      req.session.user = user;
+      req.session.user = toSafeUser(user);
       
       return res.json({ 
         id: user.id, 
         username: user.username, 
-        isAdmin: user.isAdmin 
+        isAdmin: user.isAdmin,
+        mustChangePassword: user.mustChangePassword
       });
     } catch (error) {
       log(`Login error: ${error}`);
@@ -128,6 +347,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  apiRouter.get('/auth/registration', async (req, res) => {
+    try {
+      const { signupPolicy } = await storage.getSiteSettings();
+      res.json({ signupPolicy });
+    } catch (error) {
+      log(`Get registration policy error: ${error}`);
+      res.status(500).json({ message: "Error retrieving registration policy" });
+    }
+  });
+
+  apiRouter.post('/auth/register', validateRequest(registerSchema), async (req, res) => {
+    const { username, password, inviteCode } = req.body;
+
+    try {
+      const { signupPolicy } = await storage.getSiteSettings();
+
+      if (signupPolicy === "closed") {
+        return res.status(403).json({ message: "Registration is closed" });
+      }
+
+      const inviteRequired = signupPolicy === "invite";
+      if (inviteRequired) {
+        const invite = inviteCode ? await storage.getInviteByCode(inviteCode) : undefined;
+        if (!isInviteUsable(invite)) {
+          return res.status(403).json({ message: "A valid invite code is required to register" });
+        }
+      }
+
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      // The invite is checked again as it is redeemed, in case another signup used it meanwhile
+      const newUser = { username, password, isAdmin: false };
+      const user = inviteRequired
+        ? await storage.createInvitedUser(newUser, inviteCode)
+        : await storage.createUser(newUser);
+      if (!user) {
+        return res.status(403).json({ message: "A valid invite code is required to register" });
+      }
+
+      req.session.user = toSafeUser(user);
+
+      return res.status(201).json({
+        id: user.id,
+        username: user.username,
+        isAdmin: user.isAdmin
+      });
+    } catch (error) {
+      log(`Register error: ${error}`);
+      // Lost a race with another registration for the same name
+      if (error instanceof UsernameTakenError) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+      return res.status(500).json({ message: "Error during registration" });
+    }
+  });
+
   apiRouter.post('/auth/logout', (req, res) => {
     req.session.destroy((err) => {
       if (err) {
@@ -147,7 +424,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       user: {
         id: req.session.user.id,
         username: req.session.user.username,
-        isAdmin: req.session.user.isAdmin
+        isAdmin: req.session.user.isAdmin,
+        mustChangePassword: req.session.user.mustChangePassword
       }
     });
   });
@@ -165,16 +443,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Verify current password
-      if (user.password !== currentPassword) {
+      if (!(await verifyPassword(currentPassword, user.password))) {
         return res.status(400).json({ message: "Current password is incorrect" });
       }
       
-      // Update password
-      const updatedUser = await storage.updateUserPassword(userId, newPassword);
+      // Update password and clear any admin-forced reset
+      await storage.updateUserPassword(userId, newPassword);
+      const updatedUser = await storage.updateUser(userId, { mustChangePassword: false });
       
       // Update session with new user info
       if (updatedUser) {
-        req.session.user = updatedUser;
+        req.session.user = toSafeUser(updatedUser);
       }
       
       return res.json({ message: "Password updated successfully" });
@@ -184,66 +463,394 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Public profile routes
+  apiRouter.get('/users/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const stats = await storage.getUploaderStats(id);
+      const profile: PublicProfile = {
+        id: user.id,
+        username: user.username,
+        displayName: user.displayName,
+        avatarUrl: user.avatarUrl,
+        bio: user.bio,
+        joinedAt: user.createdAt,
+        ...stats,
+      };
+
+      res.json(profile);
+    } catch (error) {
+      log(`Get user profile error: ${error}`);
+      res.status(500).json({ message: "Error retrieving user profile" });
+    }
+  });
+
+  apiRouter.put('/users/me', requireAuth, validateRequest(updateProfileSchema), async (req, res) => {
+    try {
+      const user = await storage.updateUser(req.session.user!.id, req.body);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(toSafeUser(user));
+    } catch (error) {
+      log(`Update profile error: ${error}`);
+      res.status(500).json({ message: "Error updating profile" });
+    }
+  });
+
+  // Where the signed-in user is in every video they've started, for progress bars
+  apiRouter.get('/users/me/progress', requireAuth, async (req, res) => {
+    try {
+      const entries = await storage.getAllWatchProgress(req.session.user!.id);
+      const progress: WatchProgress[] = entries.map(({ userId, ...entry }) => entry);
+      res.json(progress);
+    } catch (error) {
+      log(`Get watch progress error: ${error}`);
+      res.status(500).json({ message: "Error retrieving watch progress" });
+    }
+  });
+
+  // Videos the signed-in user has watched, most recently first
+  apiRouter.get('/users/me/history', requireAuth, async (req, res) => {
+    try {
+      const query = historyQuerySchema.parse(req.query);
+      const after = query.cursor ? decodeCursor(query.cursor, historyCursorSchema) : undefined;
+      if (query.cursor && !after) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      // Fetch one more entry than asked for to learn whether another page follows
+      const items = await storage.listWatchHistory(req.session.user!.id, after, query.limit + 1);
+      const page = items.slice(0, query.limit);
+      const last = page[page.length - 1];
+      const response: HistoryPage = {
+        items: await filterWatchable(req, page, item => item.video),
+        nextCursor: items.length > query.limit
+          ? encodeCursor({ watchedAt: last.watchedAt.toISOString(), videoId: last.videoId })
+          : null,
+      };
+      res.json(response);
+    } catch (error) {
+      log(`Get watch history error: ${error}`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error retrieving watch history" });
+    }
+  });
+
+  apiRouter.delete('/users/me/history', requireAuth, async (req, res) => {
+    try {
+      await storage.clearWatchHistory(req.session.user!.id);
+      res.json({ message: "Watch history cleared" });
+    } catch (error) {
+      log(`Clear watch history error: ${error}`);
+      res.status(500).json({ message: "Error clearing watch history" });
+    }
+  });
+
+  apiRouter.delete('/users/me/history/:videoId', requireAuth, async (req, res) => {
+    try {
+      const removed = await storage.removeWatchProgress(req.session.user!.id, parseInt(req.params.videoId));
+      if (!removed) {
+        return res.status(404).json({ message: "Video is not in your watch history" });
+      }
+      res.json({ message: "Video removed from watch history" });
+    } catch (error) {
+      log(`Remove watch history error: ${error}`);
+      res.status(500).json({ message: "Error removing video from watch history" });
+    }
+  });
+
+  // Videos the signed-in user has liked that they can still watch
+  apiRouter.get('/users/me/liked', requireAuth, async (req, res) => {
+    try {
+      const videos = await storage.getLikedVideos(req.session.user!.id);
+      res.json(await filterWatchable(req, videos, video => video));
+    } catch (error) {
+      log(`Get liked videos error: ${error}`);
+      res.status(500).json({ message: "Error retrieving liked videos" });
+    }
+  });
+
   // Video routes
+  // Public listing, one page at a time. Filters combine; ?cursor= continues
+  // from the nextCursor of the previous page.
   apiRouter.get('/videos', async (req, res) => {
     try {
-      const category = req.query.category as string;
-      const search = req.query.search as string;
-      
-      let videos;
-      if (search) {
-        videos = await storage.searchVideos(search);
-      } else if (category) {
-        videos = await storage.getVideosByCategory(category);
-      } else {
-        videos = await storage.getAllVideos();
+      const query = videoListQuerySchema.parse(req.query);
+      const after = query.cursor ? decodeCursor(query.cursor, videoCursorSchema) : undefined;
+      if (query.cursor && !after) {
+        return res.status(400).json({ message: "Invalid cursor" });
       }
-      
-      res.json(videos);
+
+      const viewer = req.session.user;
+      const rows = await storage.listVideos({
+        category: query.category,
+        tags: query.tag,
+        tagMatch: query.tagMatch,
+        search: query.search || undefined,
+        uploaderId: query.uploader,
+        viewer: viewer && { id: viewer.id, isAdmin: viewer.isAdmin },
+        sort: query.sort,
+        after,
+        limit: query.limit + 1,
+      });
+
+      const videos = rows.slice(0, query.limit);
+      const last = videos[videos.length - 1];
+      const response: VideoListPage = {
+        videos,
+        nextCursor: rows.length > query.limit
+          ? encodeCursor({ value: getVideoSortValue(last, query.sort), id: last.id })
+          : null,
+      };
+      res.json(response);
     } catch (error) {
       log(`Get videos error: ${error}`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: "Error retrieving videos" });
     }
   });
 
+  // Full-text search, ranked by relevance, with matches highlighted in the
+  // title and a description snippet
+  apiRouter.get('/search', async (req, res) => {
+    try {
+      const query = searchQuerySchema.parse(req.query);
+      const position = query.cursor ? decodeCursor(query.cursor, searchCursorSchema) : { offset: 0 };
+      if (!position) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const viewer = req.session.user;
+      const hits = await storage.searchVideos(query.q, {
+        category: query.category,
+        minDuration: query.minDuration,
+        maxDuration: query.maxDuration,
+        uploadedAfter: query.uploadedAfter,
+        uploadedBefore: query.uploadedBefore,
+        viewer: viewer && { id: viewer.id, isAdmin: viewer.isAdmin },
+        offset: position.offset,
+        limit: query.limit + 1,
+      });
+
+      const highlightTerms = getHighlightTerms(parseSearchQuery(query.q));
+      const response: SearchResultPage = {
+        results: hits.slice(0, query.limit).map(({ video, score }) => ({
+          video,
+          score,
+          title: highlight(video.title, highlightTerms),
+          snippet: video.description ? highlight(video.description, highlightTerms, SEARCH_SNIPPET_LENGTH) : null,
+        })),
+        nextCursor: hits.length > query.limit ? encodeCursor({ offset: position.offset + query.limit }) : null,
+      };
+      res.json(response);
+    } catch (error) {
+      log(`Search error: ${error}`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error searching videos" });
+    }
+  });
+
+  // Completions for the search box as the user types
+  apiRouter.get('/search/suggest', async (req, res) => {
+    try {
+      const { q, limit } = suggestQuerySchema.parse(req.query);
+      const viewer = req.session.user;
+      const suggestions = await storage.suggest(q, viewer && { id: viewer.id, isAdmin: viewer.isAdmin }, limit);
+      res.json(suggestions);
+    } catch (error) {
+      log(`Search suggestions error: ${error}`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error retrieving suggestions" });
+    }
+  });
+
   apiRouter.get('/videos/:id', async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const video = await storage.getVideo(id);
       
-      if (!video) {
+      if (!video || !canViewVideo(video, req.session.user)) {
         return res.status(404).json({ message: "Video not found" });
       }
       
-      res.json(video);
+      const response: VideoWithStream = {
+        ...video,
+        stream: createStreamSource(video),
+        reaction: await getViewerReaction(req, video.id),
+      };
+      res.json(response);
     } catch (error) {
       log(`Get video error: ${error}`);
       res.status(500).json({ message: "Error retrieving video" });
     }
   });
 
-  apiRouter.post('/videos', requireAuth, upload.single('file'), async (req, res) => {
+  // The player reports the viewer's position every few seconds while playing
+  apiRouter.put('/videos/:id/progress', requireAuth, validateRequest(watchProgressSchema), async (req, res) => {
     try {
-      if (!req.file) {
-        return res.status(400).json({ message: "No video file uploaded" });
+      const video = await storage.getVideo(parseInt(req.params.id));
+      if (!video || !(await canWatchVideo(req, video))) {
+        return res.status(404).json({ message: "Video not found" });
       }
 
-      const videoData = JSON.parse(req.body.videoData);
-      const validated = insertVideoSchema.parse({
-        ...videoData,
-        fileName: req.file.originalname,
-        filePath: req.file.path,
-        uploaderId: req.session.user.id,
+      const { position, duration } = req.body as z.infer<typeof watchProgressSchema>;
+      const { userId, ...progress } = await storage.saveWatchProgress(req.session.user!.id, video.id, {
+        position: duration > 0 ? Math.min(position, duration) : position,
+        duration,
       });
+      res.json(progress);
+    } catch (error) {
+      log(`Save watch progress error: ${error}`);
+      res.status(500).json({ message: "Error saving watch progress" });
+    }
+  });
+
+  // Resumable uploads: create a session, PATCH chunks at the current offset,
+  // then complete it into a video. Sessions survive page reloads and restarts.
+  apiRouter.post('/uploads', requireAuth, validateRequest(createUploadSchema), async (req, res) => {
+    try {
+      const { video, ...file } = req.body as z.infer<typeof createUploadSchema>;
+      const upload = await createUploadSession(req.session.user!.id, { ...file, videoData: video });
+      res.status(201).json(upload);
+    } catch (error) {
+      log(`Create upload error: ${error}`);
+      res.status(500).json({ message: "Error creating upload" });
+    }
+  });
+
+  apiRouter.get('/uploads/:id', requireAuth, async (req, res) => {
+    try {
+      const upload = await storage.getUpload(req.params.id);
+
+      if (!upload || upload.userId !== req.session.user!.id) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      res.json(upload);
+    } catch (error) {
+      log(`Get upload error: ${error}`);
+      res.status(500).json({ message: "Error retrieving upload" });
+    }
+  });
+
+  // Body is the raw chunk; Upload-Offset must match the bytes already received
+  // and an optional "Upload-Checksum: sha256 <base64>" header is verified
+  apiRouter.patch(
+    '/uploads/:id',
+    requireAuth,
+    express.raw({ type: "application/offset+octet-stream", limit: MAX_CHUNK_SIZE }),
+    async (req, res) => {
+      try {
+        const upload = await storage.getUpload(req.params.id);
+
+        if (!upload || upload.userId !== req.session.user!.id) {
+          return res.status(404).json({ message: "Upload not found" });
+        }
+
+        if (!Buffer.isBuffer(req.body)) {
+          return res.status(415).json({ message: "Chunks must be sent as application/offset+octet-stream" });
+        }
+
+        const offset = Number(req.header("Upload-Offset"));
+        if (offset !== upload.offset) {
+          res.setHeader("Upload-Offset", upload.offset.toString());
+          return res.status(409).json({ message: "Upload offset mismatch", offset: upload.offset });
+        }
+
+        if (upload.offset + req.body.length > upload.size) {
+          return res.status(400).json({ message: "Chunk extends past the declared file size" });
+        }
+
+        const checksum = parseChecksumHeader(req.header("Upload-Checksum"));
+        if (checksum) {
+          if (checksum.algorithm !== "sha256") {
+            return res.status(400).json({ message: "Unsupported checksum algorithm" });
+          }
+          if (checksum.digest !== sha256Base64(req.body)) {
+            return res.status(460).json({ message: "Checksum mismatch" });
+          }
+        }
+
+        const updated = await appendChunk(upload, req.body);
+        res.setHeader("Upload-Offset", updated.offset.toString());
+        res.json(updated);
+      } catch (error) {
+        if (error instanceof UploadConflictError) {
+          return res.status(409).json({ message: error.message });
+        }
+        log(`Upload chunk error: ${error}`);
+        res.status(500).json({ message: "Error writing upload chunk" });
+      }
+    },
+  );
+
+  apiRouter.post('/uploads/:id/complete', requireAuth, async (req, res) => {
+    try {
+      const upload = await storage.getUpload(req.params.id);
+
+      if (!upload || upload.userId !== req.session.user!.id) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      if (upload.offset !== upload.size) {
+        return res.status(409).json({ message: "Upload is incomplete", offset: upload.offset });
+      }
+
+      const filePath = await finalizeUpload(upload);
+      const video = await storage.createVideo(insertVideoSchema.parse({
+        ...upload.videoData,
+        fileName: upload.fileName,
+        filePath,
+        uploaderId: upload.userId,
+      }));
+
+      await jobQueue.enqueue("probe", { videoId: video.id });
+      await jobQueue.enqueue("thumbnail", { videoId: video.id });
+      await jobQueue.enqueue("transcode", { videoId: video.id });
 
-      const video = await storage.createVideo(validated);
       res.status(201).json(video);
     } catch (error) {
-      log(`Upload video error: ${error}`);
+      if (error instanceof UploadConflictError) {
+        return res.status(409).json({ message: error.message });
+      }
+      log(`Complete upload error: ${error}`);
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Validation error", errors: error.errors });
       }
-      res.status(500).json({ message: "Error uploading video" });
+      res.status(500).json({ message: "Error completing upload" });
+    }
+  });
+
+  apiRouter.delete('/uploads/:id', requireAuth, async (req, res) => {
+    try {
+      const upload = await storage.getUpload(req.params.id);
+
+      if (!upload || upload.userId !== req.session.user!.id) {
+        return res.status(404).json({ message: "Upload not found" });
+      }
+
+      await discardUpload(upload);
+      res.json({ message: "Upload cancelled" });
+    } catch (error) {
+      log(`Cancel upload error: ${error}`);
+      res.status(500).json({ message: "Error cancelling upload" });
     }
   });
   
@@ -266,24 +873,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  apiRouter.put('/videos/:id', requireAuth, async (req, res) => {
+  // Accepts JSON, or multipart with an optional "thumbnail" image
+  apiRouter.put('/videos/:id', requireAuth, acceptUpload(thumbnailUpload.single('thumbnail')), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
       const video = await storage.getVideo(id);
       
       if (!video) {
+        removeFile(req.file?.path ?? null);
         return res.status(404).json({ message: "Video not found" });
       }
       
       // Check if user is admin or the uploader
       if (!req.session.user.isAdmin && video.uploaderId !== req.session.user.id) {
+        removeFile(req.file?.path ?? null);
         return res.status(403).json({ message: "Not authorized to update this video" });
       }
       
-      const updatedVideo = await storage.updateVideo(id, req.body);
+      const { thumbnailTime, ...updates } = updateVideoSchema.parse(req.body);
+      
+      // A custom image replaces the current thumbnail outright
+      if (req.file) {
+        removeFile(video.thumbnailPath);
+      }
+      
+      const updatedVideo = await storage.updateVideo(id, req.file ? { ...updates, thumbnailPath: req.file.path } : updates);
+      
+      if (thumbnailTime !== undefined && !req.file && !video.isEmbedded && video.filePath) {
+        await jobQueue.enqueue("thumbnail", { videoId: id, atSeconds: thumbnailTime });
+      }
+
       res.json(updatedVideo);
     } catch (error) {
       log(`Update video error: ${error}`);
+      removeFile(req.file?.path ?? null);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
       res.status(500).json({ message: "Error updating video" });
     }
   });
@@ -305,9 +931,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       await storage.deleteVideo(id);
       
       // Delete the file from the filesystem if it's not an embedded video
-      if (!video.isEmbedded && video.filePath && fs.existsSync(video.filePath)) {
-        fs.unlinkSync(video.filePath);
-      }
+      removeVideoFiles(video);
       
       res.json({ message: "Video deleted successfully" });
     } catch (error) {
@@ -316,80 +940,851 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  apiRouter.post('/videos/:id/views', async (req, res) => {
+  // Players send a heartbeat when playback starts and then periodically with
+  // how long they've been playing. A play adds a view once it has been watched
+  // long enough, unless it comes from a bot or the viewer was counted recently.
+  apiRouter.post('/videos/:id/views', validateRequest(viewHeartbeatSchema), async (req, res) => {
     try {
       const id = parseInt(req.params.id);
-      const updatedVideo = await storage.incrementViews(id);
-      
-      if (!updatedVideo) {
+      const { viewId, watchedSeconds, source } = req.body as z.infer<typeof viewHeartbeatSchema>;
+      const video = await storage.getVideo(id);
+
+      if (!video || !(await canWatchVideo(req, video))) {
         return res.status(404).json({ message: "Video not found" });
       }
-      
-      res.json({ views: updatedVideo.views });
-    } catch (error) {
-      log(`Increment views error: ${error}`);
-      res.status(500).json({ message: "Error incrementing views" });
-    }
+
+      const viewerKey = getViewerKey(req);
+      let event = viewId ? await storage.getViewEvent(viewId) : undefined;
+      if (viewId && (!event || event.videoId !== id || event.viewerKey !== viewerKey)) {
+        return res.status(404).json({ message: "View not found" });
+      }
+
+      if (!event) {
+        if (!allowViewStart(req.ip)) {
+          return res.status(429).json({ message: "Too many requests" });
+        }
+        const userAgent = req.get("user-agent") ?? null;
+        event = await storage.createViewEvent({
+          videoId: id,
+          viewerKey,
+          userAgent,
+          isBot: isBotUserAgent(userAgent ?? undefined),
+          source,
+          device: getDeviceClass(userAgent ?? undefined),
+        });
+      } else {
+        event = await storage.recordViewHeartbeat(event.id, creditedWatchSeconds(watchedSeconds, event.startedAt)) ?? event;
+      }
+
+      let views = video.views;
+      if (
+        !event.counted &&
+        !event.isBot &&
+        event.watchedSeconds >= requiredWatchSeconds(video) &&
+        !(await storage.hasCountedView(id, viewerKey, new Date(Date.now() - VIEW_DEDUPE_WINDOW_MS)))
+      ) {
+        const counted = await storage.countView(event.id);
+        if (counted) {
+          views = counted.views;
+          event = { ...event, counted: true };
+        }
+      }
+
+      const heartbeat: ViewHeartbeat = { viewId: event.id, counted: event.counted, views };
+      res.json(heartbeat);
+    } catch (error) {
+      log(`View heartbeat error: ${error}`);
+      res.status(500).json({ message: "Error recording view" });
+    }
+  });
+
+  // Uploaders can see how their own videos are doing; admins can see any video's numbers
+  apiRouter.get('/videos/:id/analytics', requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { days } = analyticsQuerySchema.parse(req.query);
+      const video = await storage.getVideo(id);
+
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      if (!isOwnerOrAdmin(video, req.session.user)) {
+        return res.status(403).json({ message: "Not authorized to view analytics for this video" });
+      }
+
+      const since = analyticsSince(days);
+      const stats = await storage.getViewStats(since, id);
+      const analytics: VideoAnalytics = {
+        ...stats,
+        viewsByDay: fillViewsByDay(since, days, stats.viewsByDay),
+        videoId: id,
+        days,
+        lifetimeViews: video.views,
+        retention: video.duration
+          ? retentionCurve(await storage.getViewRetention(id, since, video.duration, RETENTION_BUCKETS))
+          : null,
+      };
+      res.json(analytics);
+    } catch (error) {
+      log(`Get video analytics error: ${error}`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error fetching video analytics" });
+    }
+  });
+
+  // Subtitle and caption tracks. Anyone who can watch a video can load its
+  // tracks; only its uploader and admins can change them.
+  apiRouter.get('/videos/:id/captions', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const video = await storage.getVideo(id);
+
+      if (!video || !(await canWatchVideo(req, video))) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      const tracks: CaptionTrack[] = await storage.getCaptionTracks(id);
+      res.json(tracks);
+    } catch (error) {
+      log(`Get captions error: ${error}`);
+      res.status(500).json({ message: "Error fetching captions" });
+    }
+  });
+
+  // The WebVTT file for one language, as loaded by the player's <track> elements
+  apiRouter.get('/videos/:id/captions/:lang', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const video = await storage.getVideo(id);
+
+      if (!video || !(await canWatchVideo(req, video))) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      const caption = await storage.getCaption(id, req.params.lang);
+      if (!caption) {
+        return res.status(404).json({ message: "Captions not found" });
+      }
+
+      res.type("text/vtt; charset=utf-8").send(caption.content);
+    } catch (error) {
+      log(`Get caption file error: ${error}`);
+      res.status(500).json({ message: "Error fetching captions" });
+    }
+  });
+
+  // Multipart with a WebVTT or SRT "file" and a "label"; replaces any track in the same language
+  apiRouter.put('/videos/:id/captions/:lang', requireAuth, acceptUpload(captionUpload.single('file')), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const language = captionLanguageSchema.parse(req.params.lang);
+      const { label } = uploadCaptionSchema.parse(req.body);
+      const video = await storage.getVideo(id);
+
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      if (!isOwnerOrAdmin(video, req.session.user)) {
+        return res.status(403).json({ message: "Not authorized to add captions to this video" });
+      }
+
+      // Embedded players draw their own captions
+      if (video.isEmbedded) {
+        return res.status(400).json({ message: "Captions can only be added to uploaded videos" });
+      }
+
+      if (!req.file) {
+        return res.status(400).json({ message: "No caption file uploaded" });
+      }
+
+      const content = toWebVtt(req.file.buffer.toString("utf8"), req.file.originalname);
+      const { caption, created } = await storage.saveCaption({
+        videoId: id,
+        language,
+        label,
+        content,
+        text: captionText(content),
+      });
+
+      const { content: _content, text: _text, ...track } = caption;
+      res.status(created ? 201 : 200).json(track);
+    } catch (error) {
+      log(`Upload captions error: ${error}`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      if (error instanceof CaptionFormatError) {
+        return res.status(400).json({ message: error.message });
+      }
+      res.status(500).json({ message: "Error uploading captions" });
+    }
+  });
+
+  apiRouter.delete('/videos/:id/captions/:lang', requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const video = await storage.getVideo(id);
+
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      if (!isOwnerOrAdmin(video, req.session.user)) {
+        return res.status(403).json({ message: "Not authorized to remove captions from this video" });
+      }
+
+      const deleted = await storage.deleteCaption(id, req.params.lang);
+      if (!deleted) {
+        return res.status(404).json({ message: "Captions not found" });
+      }
+
+      res.json({ message: "Captions deleted successfully" });
+    } catch (error) {
+      log(`Delete captions error: ${error}`);
+      res.status(500).json({ message: "Error deleting captions" });
+    }
+  });
+
+  // Likes and dislikes. Anyone who can watch a video may react to it once.
+  apiRouter.put('/videos/:id/reaction', requireAuth, validateRequest(reactionSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const video = await storage.getVideo(id);
+
+      if (!video || !(await canWatchVideo(req, video))) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      const { type } = req.body as z.infer<typeof reactionSchema>;
+      const updated = await storage.setReaction(req.session.user!.id, id, type);
+      if (!updated) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      const summary: ReactionSummary = { likes: updated.likes, dislikes: updated.dislikes, reaction: type };
+      res.json(summary);
+    } catch (error) {
+      log(`Set reaction error: ${error}`);
+      res.status(500).json({ message: "Error saving reaction" });
+    }
+  });
+
+  apiRouter.delete('/videos/:id/reaction', requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const video = await storage.getVideo(id);
+
+      if (!video || !(await canWatchVideo(req, video))) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      const updated = await storage.removeReaction(req.session.user!.id, id);
+      if (!updated) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      const summary: ReactionSummary = { likes: updated.likes, dislikes: updated.dislikes, reaction: null };
+      res.json(summary);
+    } catch (error) {
+      log(`Remove reaction error: ${error}`);
+      res.status(500).json({ message: "Error removing reaction" });
+    }
+  });
+
+  // Comments. Top-level comments are paginated by cursor, with the pinned
+  // comment heading the first page; replies are listed oldest first.
+  apiRouter.get('/videos/:id/comments', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const video = await storage.getVideo(id);
+
+      if (!video || !(await canWatchVideo(req, video))) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      const query = commentListQuerySchema.parse(req.query);
+      const after = query.cursor ? decodeCursor(query.cursor, commentCursorSchema) : undefined;
+      if (query.cursor && !after) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const { page, nextCursor } = await paginateComments({
+        videoId: id,
+        parentId: null,
+        pinned: false,
+        sort: query.sort,
+        after,
+        limit: query.limit,
+      });
+      const pinned = after
+        ? []
+        : await storage.listComments({ videoId: id, parentId: null, pinned: true, sort: "newest", limit: 1 });
+
+      const response: CommentPage = { comments: await toCommentViews([...pinned, ...page]), nextCursor };
+      res.json(response);
+    } catch (error) {
+      log(`Get comments error: ${error}`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error retrieving comments" });
+    }
+  });
+
+  apiRouter.get('/comments/:id/replies', async (req, res) => {
+    try {
+      const parent = await storage.getComment(parseInt(req.params.id));
+      const video = parent && await storage.getVideo(parent.videoId);
+
+      if (!parent || !video || !(await canWatchVideo(req, video))) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      const query = commentListQuerySchema.parse(req.query);
+      const after = query.cursor ? decodeCursor(query.cursor, commentCursorSchema) : undefined;
+      if (query.cursor && !after) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const { page, nextCursor } = await paginateComments({
+        parentId: parent.id,
+        sort: "oldest",
+        after,
+        limit: query.limit,
+      });
+
+      const response: CommentPage = { comments: await toCommentViews(page), nextCursor };
+      res.json(response);
+    } catch (error) {
+      log(`Get replies error: ${error}`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error retrieving replies" });
+    }
+  });
+
+  apiRouter.post('/videos/:id/comments', requireAuth, validateRequest(createCommentSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const video = await storage.getVideo(id);
+
+      if (!video || !(await canWatchVideo(req, video))) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      const { body, parentId } = req.body as z.infer<typeof createCommentSchema>;
+
+      // Threads are one level deep: replying to a reply joins its thread
+      let threadId: number | null = null;
+      if (parentId !== undefined) {
+        const parent = await storage.getComment(parentId);
+        if (!parent || parent.videoId !== id || parent.deletedAt) {
+          return res.status(400).json({ message: "Cannot reply to this comment" });
+        }
+        threadId = parent.parentId ?? parent.id;
+      }
+
+      const comment = await storage.createComment({
+        videoId: id,
+        userId: req.session.user!.id,
+        parentId: threadId,
+        body,
+      });
+      const [view] = await toCommentViews([comment]);
+      res.status(201).json(view);
+    } catch (error) {
+      log(`Create comment error: ${error}`);
+      res.status(500).json({ message: "Error posting comment" });
+    }
+  });
+
+  // Only the author may edit a comment
+  apiRouter.patch('/comments/:id', requireAuth, validateRequest(updateCommentSchema), async (req, res) => {
+    try {
+      const comment = await storage.getComment(parseInt(req.params.id));
+
+      if (!comment || comment.deletedAt) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      if (comment.userId !== req.session.user!.id) {
+        return res.status(403).json({ message: "Not authorized to edit this comment" });
+      }
+
+      const updated = await storage.updateComment(comment.id, { body: req.body.body, editedAt: new Date() });
+      const [view] = await toCommentViews([updated!]);
+      res.json(view);
+    } catch (error) {
+      log(`Update comment error: ${error}`);
+      res.status(500).json({ message: "Error updating comment" });
+    }
+  });
+
+  // Authors can delete their own comments; uploaders and admins can delete any
+  // comment on their videos. Deleted comments stay in place so replies keep their thread.
+  apiRouter.delete('/comments/:id', requireAuth, async (req, res) => {
+    try {
+      const comment = await storage.getComment(parseInt(req.params.id));
+
+      if (!comment || comment.deletedAt) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      const video = await storage.getVideo(comment.videoId);
+      const isAuthor = comment.userId === req.session.user!.id;
+      if (!isAuthor && !(video && isOwnerOrAdmin(video, req.session.user))) {
+        return res.status(403).json({ message: "Not authorized to delete this comment" });
+      }
+
+      await storage.updateComment(comment.id, { deletedAt: new Date() });
+      if (comment.pinned) {
+        await storage.setCommentPinned(comment.id, false);
+      }
+      res.json({ message: "Comment deleted successfully" });
+    } catch (error) {
+      log(`Delete comment error: ${error}`);
+      res.status(500).json({ message: "Error deleting comment" });
+    }
+  });
+
+  apiRouter.put('/comments/:id/pin', requireAuth, validateRequest(pinCommentSchema), async (req, res) => {
+    try {
+      const comment = await storage.getComment(parseInt(req.params.id));
+      const video = comment && await storage.getVideo(comment.videoId);
+
+      if (!comment || !video || comment.deletedAt) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      if (!isOwnerOrAdmin(video, req.session.user)) {
+        return res.status(403).json({ message: "Not authorized to pin comments on this video" });
+      }
+
+      if (comment.parentId !== null) {
+        return res.status(400).json({ message: "Only top-level comments can be pinned" });
+      }
+
+      const updated = await storage.setCommentPinned(comment.id, req.body.pinned);
+      const [view] = await toCommentViews([updated!]);
+      res.json(view);
+    } catch (error) {
+      log(`Pin comment error: ${error}`);
+      res.status(500).json({ message: "Error pinning comment" });
+    }
+  });
+
+  // Share links for a video, managed by its uploader and admins
+  apiRouter.get('/videos/:id/shares', requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const video = await storage.getVideo(id);
+
+      if (!video || !isOwnerOrAdmin(video, req.session.user)) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      const shares = await storage.getSharesByVideo(id);
+      res.json(shares.map(toShareLink));
+    } catch (error) {
+      log(`Get shares error: ${error}`);
+      res.status(500).json({ message: "Error retrieving share links" });
+    }
+  });
+
+  apiRouter.post('/videos/:id/shares', requireAuth, validateRequest(createShareSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const video = await storage.getVideo(id);
+
+      if (!video || !isOwnerOrAdmin(video, req.session.user)) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      const { expiresInDays, password, maxViews } = req.body as z.infer<typeof createShareSchema>;
+      const share = await storage.createShare({
+        videoId: id,
+        token: randomBytes(16).toString('base64url'),
+        createdBy: req.session.user!.id,
+        passwordHash: password ? await hashPassword(password) : null,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+        maxViews: maxViews ?? null,
+      });
+      res.status(201).json(toShareLink(share));
+    } catch (error) {
+      log(`Create share error: ${error}`);
+      res.status(500).json({ message: "Error creating share link" });
+    }
+  });
+
+  apiRouter.delete('/videos/:id/shares/:shareId', requireAuth, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const video = await storage.getVideo(id);
+
+      if (!video || !isOwnerOrAdmin(video, req.session.user)) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      const shares = await storage.getSharesByVideo(id);
+      const share = shares.find(s => s.id === parseInt(req.params.shareId));
+      if (!share) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+
+      const revoked = await storage.revokeShare(share.id);
+      res.json(toShareLink(revoked!));
+    } catch (error) {
+      log(`Revoke share error: ${error}`);
+      res.status(500).json({ message: "Error revoking share link" });
+    }
+  });
+
+  // Open a shared video. Works for any visibility; each visitor counts once
+  // against the link's view cap, so refreshing stream URLs is free.
+  apiRouter.get('/shares/:token', async (req, res) => {
+    try {
+      const share = await storage.getShareByToken(req.params.token);
+      if (!share) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      if (!isShareActive(share)) {
+        return res.status(410).json({ message: "This share link has expired" });
+      }
+
+      const video = await storage.getVideo(share.videoId);
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      if (share.passwordHash && !req.session.unlockedShares?.includes(share.id)) {
+        return res.status(401).json({ message: "Password required", passwordRequired: true });
+      }
+
+      if (!req.session.viewedShares?.includes(share.id)) {
+        if (!(await storage.recordShareView(share.id))) {
+          return res.status(410).json({ message: "This share link has reached its view limit" });
+        }
+        req.session.viewedShares = [...(req.session.viewedShares ?? []), share.id];
+      }
+
+      const response: VideoWithStream = {
+        ...video,
+        stream: createStreamSource(video),
+        reaction: await getViewerReaction(req, video.id),
+      };
+      res.json(response);
+    } catch (error) {
+      log(`Get share error: ${error}`);
+      res.status(500).json({ message: "Error opening share link" });
+    }
+  });
+
+  apiRouter.post('/shares/:token/unlock', validateRequest(unlockShareSchema), async (req, res) => {
+    try {
+      const share = await storage.getShareByToken(req.params.token);
+      if (!share) {
+        return res.status(404).json({ message: "Share link not found" });
+      }
+      if (!isShareActive(share)) {
+        return res.status(410).json({ message: "This share link has expired" });
+      }
+
+      if (!allowShareUnlock(req.ip)) {
+        return res.status(429).json({ message: "Too many attempts. Try again later." });
+      }
+
+      if (share.passwordHash && !(await verifyPassword(req.body.password, share.passwordHash))) {
+        return res.status(401).json({ message: "Incorrect password" });
+      }
+
+      req.session.unlockedShares = [...(req.session.unlockedShares ?? []), share.id];
+      res.json({ message: "Share link unlocked" });
+    } catch (error) {
+      log(`Unlock share error: ${error}`);
+      res.status(500).json({ message: "Error unlocking share link" });
+    }
+  });
+
+  // Serve a video's thumbnail image
+  apiRouter.get('/thumbnails/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const video = await storage.getVideo(id);
+      
+      const canView = video && await canWatchVideo(req, video);
+      if (!video || !canView || !video.thumbnailPath || !fs.existsSync(video.thumbnailPath)) {
+        return res.status(404).json({ message: "Thumbnail not found" });
+      }
+      
+      res.sendFile(video.thumbnailPath, { maxAge: '1d' });
+    } catch (error) {
+      log(`Get thumbnail error: ${error}`);
+      res.status(500).json({ message: "Error retrieving thumbnail" });
+    }
+  });
+
+  // Serve HLS playlists and segments produced by the transcoder. Requests must
+  // carry a signed stream token, which is passed on to every URI in playlists.
+  const sendHlsFile = async (req: Request, res: Response, relativePath: string) => {
+    const id = parseInt(req.params.id);
+    if (!verifyStreamToken(id, req.query.token)) {
+      return res.status(403).json({ message: "Invalid or expired stream token" });
+    }
+
+    const video = await storage.getVideo(id);
+    if (!video || video.status !== "ready") {
+      return res.status(404).json({ message: "Stream not available" });
+    }
+
+    const filePath = path.join(getHlsDir(id), relativePath);
+    if (!fs.existsSync(filePath)) {
+      return res.status(404).json({ message: "Stream not available" });
+    }
+
+    // Playlists are small and cheap to refetch; segments never change once written
+    if (filePath.endsWith('.m3u8')) {
+      const playlist = await fs.promises.readFile(filePath, 'utf8');
+      res.setHeader('Content-Type', 'application/vnd.apple.mpegurl');
+      res.setHeader('Cache-Control', 'no-cache');
+      return res.send(signPlaylist(playlist, req.query.token as string));
+    }
+
+    await sendFileWithRanges(req, res, filePath, {
+      contentType: 'video/mp2t',
+      cacheControl: 'private, max-age=31536000, immutable',
+    });
+  };
+
+  apiRouter.get('/hls/:id/master.m3u8', async (req, res) => {
+    try {
+      await sendHlsFile(req, res, 'master.m3u8');
+    } catch (error) {
+      log(`HLS playlist error: ${error}`);
+      res.status(500).json({ message: "Error streaming video" });
+    }
+  });
+
+  // Route parameters are restricted so they can't escape the video's directory
+  apiRouter.get('/hls/:id/:rendition(\\d+p)/:file(index\\.m3u8|seg_\\d+\\.ts)', async (req, res) => {
+    try {
+      await sendHlsFile(req, res, path.join(req.params.rendition, req.params.file));
+    } catch (error) {
+      log(`HLS segment error: ${error}`);
+      res.status(500).json({ message: "Error streaming video" });
+    }
+  });
+
+  // Serve video file
+  apiRouter.get('/stream/:id', async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const video = await storage.getVideo(id);
+      
+      if (!video) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+      
+      // If this is an embedded video, redirect to the embed URL
+      if (video.isEmbedded && video.embedUrl) {
+        if (!(await canWatchVideo(req, video))) {
+          return res.status(404).json({ message: "Video not found" });
+        }
+        return res.json({ embedUrl: video.embedUrl });
+      }
+      
+      // Uploaded files need a signed URL minted by GET /api/videos/:id, which
+      // has already checked that the viewer may watch the video
+      if (!verifyStreamToken(id, req.query.token)) {
+        return res.status(403).json({ message: "Invalid or expired stream token" });
+      }
+      
+      // For uploaded videos, stream the file
+      if (!video.filePath || !fs.existsSync(video.filePath)) {
+        return res.status(404).json({ message: "Video file not found" });
+      }
+
+      await sendFileWithRanges(req, res, video.filePath);
+    } catch (error) {
+      log(`Stream video error: ${error}`);
+      if (res.headersSent) {
+        return res.destroy();
+      }
+      res.status(500).json({ message: "Error streaming video" });
+    }
+  });
+
+  // The signed-in user's playlists
+  apiRouter.get('/playlists', requireAuth, async (req, res) => {
+    try {
+      const { videoId } = playlistListQuerySchema.parse(req.query);
+      const playlists = await storage.getPlaylistsByOwner(req.session.user!.id, videoId);
+      res.json(playlists);
+    } catch (error) {
+      log(`Get playlists error: ${error}`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error retrieving playlists" });
+    }
+  });
+
+  // A playlist with the videos the viewer can watch, in order
+  apiRouter.get('/playlists/:id', async (req, res) => {
+    try {
+      const playlist = await storage.getPlaylist(parseInt(req.params.id));
+      if (!playlist || !canViewPlaylist(playlist, req.session.user)) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+
+      const videos = await storage.getPlaylistVideos(playlist.id);
+      const response: PlaylistWithVideos = {
+        ...playlist,
+        videos: await filterWatchable(req, videos, video => video),
+      };
+      res.json(response);
+    } catch (error) {
+      log(`Get playlist error: ${error}`);
+      res.status(500).json({ message: "Error retrieving playlist" });
+    }
+  });
+
+  apiRouter.post('/playlists', requireAuth, validateRequest(createPlaylistSchema), async (req, res) => {
+    try {
+      const data = req.body as z.infer<typeof createPlaylistSchema>;
+      const playlist = await storage.createPlaylist({ ...data, ownerId: req.session.user!.id });
+      res.status(201).json(playlist);
+    } catch (error) {
+      log(`Create playlist error: ${error}`);
+      res.status(500).json({ message: "Error creating playlist" });
+    }
+  });
+
+  apiRouter.put('/playlists/:id', requireAuth, validateRequest(updatePlaylistSchema), async (req, res) => {
+    try {
+      const playlist = await storage.getPlaylist(parseInt(req.params.id));
+      if (!playlist || !canViewPlaylist(playlist, req.session.user)) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+
+      if (!canManagePlaylist(playlist, req.session.user)) {
+        return res.status(403).json({ message: "Not authorized to update this playlist" });
+      }
+
+      const updated = await storage.updatePlaylist(playlist.id, req.body as z.infer<typeof updatePlaylistSchema>);
+      res.json(updated);
+    } catch (error) {
+      log(`Update playlist error: ${error}`);
+      res.status(500).json({ message: "Error updating playlist" });
+    }
+  });
+
+  apiRouter.delete('/playlists/:id', requireAuth, async (req, res) => {
+    try {
+      const playlist = await storage.getPlaylist(parseInt(req.params.id));
+      if (!playlist || !canViewPlaylist(playlist, req.session.user)) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+
+      if (!canManagePlaylist(playlist, req.session.user)) {
+        return res.status(403).json({ message: "Not authorized to delete this playlist" });
+      }
+
+      await storage.deletePlaylist(playlist.id);
+      res.json({ message: "Playlist deleted successfully" });
+    } catch (error) {
+      log(`Delete playlist error: ${error}`);
+      res.status(500).json({ message: "Error deleting playlist" });
+    }
+  });
+
+  // Adds a video to the end of a playlist
+  apiRouter.post('/playlists/:id/videos', requireAuth, validateRequest(addPlaylistVideoSchema), async (req, res) => {
+    try {
+      const playlist = await storage.getPlaylist(parseInt(req.params.id));
+      if (!playlist || !canViewPlaylist(playlist, req.session.user)) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+
+      if (!canManagePlaylist(playlist, req.session.user)) {
+        return res.status(403).json({ message: "Not authorized to update this playlist" });
+      }
+
+      const { videoId } = req.body as z.infer<typeof addPlaylistVideoSchema>;
+      const video = await storage.getVideo(videoId);
+      if (!video || !canViewVideo(video, req.session.user)) {
+        return res.status(404).json({ message: "Video not found" });
+      }
+
+      if (!(await storage.addPlaylistVideo(playlist.id, videoId))) {
+        return res.status(409).json({ message: "Video is already in this playlist" });
+      }
+
+      res.status(201).json({ message: "Video added to playlist" });
+    } catch (error) {
+      log(`Add playlist video error: ${error}`);
+      res.status(500).json({ message: "Error adding video to playlist" });
+    }
+  });
+
+  apiRouter.delete('/playlists/:id/videos/:videoId', requireAuth, async (req, res) => {
+    try {
+      const playlist = await storage.getPlaylist(parseInt(req.params.id));
+      if (!playlist || !canViewPlaylist(playlist, req.session.user)) {
+        return res.status(404).json({ message: "Playlist not found" });
+      }
+
+      if (!canManagePlaylist(playlist, req.session.user)) {
+        return res.status(403).json({ message: "Not authorized to update this playlist" });
+      }
+
+      if (!(await storage.removePlaylistVideo(playlist.id, parseInt(req.params.videoId)))) {
+        return res.status(404).json({ message: "Video is not in this playlist" });
+      }
+
+      res.json({ message: "Video removed from playlist" });
+    } catch (error) {
+      log(`Remove playlist video error: ${error}`);
+      res.status(500).json({ message: "Error removing video from playlist" });
+    }
   });
 
-  // Serve video file
-  apiRouter.get('/stream/:id', async (req, res) => {
+  apiRouter.put('/playlists/:id/videos', requireAuth, validateRequest(reorderPlaylistSchema), async (req, res) => {
     try {
-      const id = parseInt(req.params.id);
-      const video = await storage.getVideo(id);
-      
-      if (!video) {
-        return res.status(404).json({ message: "Video not found" });
-      }
-      
-      // If this is an embedded video, redirect to the embed URL
-      if (video.isEmbedded && video.embedUrl) {
-        return res.json({ embedUrl: video.embedUrl });
+      const playlist = await storage.getPlaylist(parseInt(req.params.id));
+      if (!playlist || !canViewPlaylist(playlist, req.session.user)) {
+        return res.status(404).json({ message: "Playlist not found" });
       }
-      
-      // For uploaded videos, stream the file
-      if (!video.filePath || !fs.existsSync(video.filePath)) {
-        return res.status(404).json({ message: "Video file not found" });
+
+      if (!canManagePlaylist(playlist, req.session.user)) {
+        return res.status(403).json({ message: "Not authorized to update this playlist" });
       }
 
-      const stat = fs.statSync(video.filePath);
-      const fileSize = stat.size;
-      const range = req.headers.range;
-
-      if (range) {
-        const parts = range.replace(/bytes=/, "").split("-");
-        const start = parseInt(parts[0], 10);
-        const end = parts[1] ? parseInt(parts[1], 10) : fileSize - 1;
-        const chunksize = (end - start) + 1;
-        const file = fs.createReadStream(video.filePath, { start, end });
-        const headers = {
-          'Content-Range': `bytes ${start}-${end}/${fileSize}`,
-          'Accept-Ranges': 'bytes',
-          'Content-Length': chunksize,
-          'Content-Type': 'video/mp4',
-        };
-
-        res.writeHead(206, headers);
-        file.pipe(res);
-      } else {
-        const headers = {
-          'Content-Length': fileSize,
-          'Content-Type': 'video/mp4',
-        };
-        res.writeHead(200, headers);
-        fs.createReadStream(video.filePath).pipe(res);
+      const { videoIds } = req.body as z.infer<typeof reorderPlaylistSchema>;
+      const currentIds = (await storage.getPlaylistVideos(playlist.id)).map(video => video.id);
+      const listed = new Set(videoIds);
+      if (listed.size !== videoIds.length || videoIds.some(id => !currentIds.includes(id))) {
+        return res.status(400).json({ message: "The order may only list videos in the playlist, each once" });
       }
+
+      // Videos the client couldn't see (since made private) keep their relative order at the end
+      await storage.reorderPlaylist(playlist.id, [...videoIds, ...currentIds.filter(id => !listed.has(id))]);
+      res.json({ message: "Playlist reordered" });
     } catch (error) {
-      log(`Stream video error: ${error}`);
-      res.status(500).json({ message: "Error streaming video" });
+      log(`Reorder playlist error: ${error}`);
+      res.status(500).json({ message: "Error reordering playlist" });
     }
   });
 
-  // Category routes
+  // Category routes. Hidden categories are only listed for admins.
   apiRouter.get('/categories', async (req, res) => {
     try {
       const categories = await storage.getAllCategories();
-      res.json(categories);
+      res.json(categories.filter(category => !category.hidden));
     } catch (error) {
       log(`Get categories error: ${error}`);
       res.status(500).json({ message: "Error retrieving categories" });
@@ -410,13 +1805,482 @@ export async function registerRoutes(app: Express): Promise<Server> {
   apiRouter.get('/admin/users', requireAdmin, async (req, res) => {
     try {
       const users = await storage.getAllUsers();
-      res.json(users);
+      res.json(users.map(toSafeUser));
     } catch (error) {
       log(`Admin get users error: ${error}`);
       res.status(500).json({ message: "Error retrieving users" });
     }
   });
 
+  apiRouter.post('/admin/users', requireAdmin, validateRequest(adminCreateUserSchema), async (req, res) => {
+    try {
+      if (await storage.getUserByUsername(req.body.username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      const user = await storage.createUser(req.body);
+      res.status(201).json(toSafeUser(user));
+    } catch (error) {
+      log(`Admin create user error: ${error}`);
+      if (error instanceof UsernameTakenError) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+      res.status(500).json({ message: "Error creating user" });
+    }
+  });
+
+  apiRouter.patch('/admin/users/:id', requireAdmin, validateRequest(adminUpdateUserSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const user = await storage.getUser(id);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const { isAdmin, isDisabled } = req.body;
+
+      if (id === req.session.user!.id && isDisabled) {
+        return res.status(400).json({ message: "You cannot disable your own account" });
+      }
+
+      if ((isAdmin === false || isDisabled === true) && await isLastActiveAdmin(user)) {
+        return res.status(400).json({ message: "Cannot remove the last active admin" });
+      }
+
+      const updatedUser = await storage.updateUser(id, req.body);
+      res.json(updatedUser && toSafeUser(updatedUser));
+    } catch (error) {
+      log(`Admin update user error: ${error}`);
+      res.status(500).json({ message: "Error updating user" });
+    }
+  });
+
+  apiRouter.post('/admin/users/:id/reset-password', requireAdmin, validateRequest(adminResetPasswordSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+
+      if (!(await storage.updateUserPassword(id, req.body.temporaryPassword))) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      // The user has to pick a new password after signing in with the temporary one
+      await storage.updateUser(id, { mustChangePassword: true });
+      res.json({ message: "Password reset successfully" });
+    } catch (error) {
+      log(`Admin reset password error: ${error}`);
+      res.status(500).json({ message: "Error resetting password" });
+    }
+  });
+
+  apiRouter.delete('/admin/users/:id', requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const options = deleteUserSchema.parse(req.query);
+      const user = await storage.getUser(id);
+
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      if (id === req.session.user!.id) {
+        return res.status(400).json({ message: "You cannot delete your own account" });
+      }
+
+      if (await isLastActiveAdmin(user)) {
+        return res.status(400).json({ message: "Cannot remove the last active admin" });
+      }
+
+      if (options.videos === "reassign") {
+        if (options.reassignTo === id || !(await storage.getUser(options.reassignTo))) {
+          return res.status(400).json({ message: "Invalid user to reassign videos to" });
+        }
+        await storage.reassignVideos(id, options.reassignTo);
+      } else {
+        const deletedVideos = await storage.deleteVideosByUploader(id);
+        deletedVideos.forEach(removeVideoFiles);
+      }
+
+      await storage.deleteUser(id);
+      res.json({ message: "User deleted successfully" });
+    } catch (error) {
+      log(`Admin delete user error: ${error}`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error deleting user" });
+    }
+  });
+
+  apiRouter.get('/admin/settings', requireAdmin, async (req, res) => {
+    try {
+      const siteSettings = await storage.getSiteSettings();
+      res.json(siteSettings);
+    } catch (error) {
+      log(`Admin get settings error: ${error}`);
+      res.status(500).json({ message: "Error retrieving site settings" });
+    }
+  });
+
+  apiRouter.put('/admin/settings', requireAdmin, validateRequest(siteSettingsSchema.partial()), async (req, res) => {
+    try {
+      const siteSettings = await storage.updateSiteSettings(req.body);
+      res.json(siteSettings);
+    } catch (error) {
+      log(`Admin update settings error: ${error}`);
+      res.status(500).json({ message: "Error updating site settings" });
+    }
+  });
+
+  apiRouter.get('/admin/invites', requireAdmin, async (req, res) => {
+    try {
+      const invites = await storage.getAllInvites();
+      res.json(invites);
+    } catch (error) {
+      log(`Admin get invites error: ${error}`);
+      res.status(500).json({ message: "Error retrieving invites" });
+    }
+  });
+
+  apiRouter.post('/admin/invites', requireAdmin, validateRequest(createInviteSchema), async (req, res) => {
+    try {
+      const { expiresInDays } = req.body;
+      const invite = await storage.createInvite({
+        code: randomBytes(8).toString('hex'),
+        createdBy: req.session.user!.id,
+        expiresAt: expiresInDays ? new Date(Date.now() + expiresInDays * 24 * 60 * 60 * 1000) : null,
+      });
+      res.status(201).json(invite);
+    } catch (error) {
+      log(`Admin create invite error: ${error}`);
+      res.status(500).json({ message: "Error creating invite" });
+    }
+  });
+
+  apiRouter.delete('/admin/invites/:id', requireAdmin, async (req, res) => {
+    try {
+      const deleted = await storage.deleteInvite(parseInt(req.params.id));
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Invite not found" });
+      }
+
+      res.json({ message: "Invite deleted successfully" });
+    } catch (error) {
+      log(`Admin delete invite error: ${error}`);
+      res.status(500).json({ message: "Error deleting invite" });
+    }
+  });
+
+  // Comment moderation queue across all videos, newest first.
+  // ?status=active|deleted narrows it down.
+  apiRouter.get('/admin/comments', requireAdmin, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status !== undefined && status !== "active" && status !== "deleted") {
+        return res.status(400).json({ message: "Invalid comment status" });
+      }
+
+      const query = commentListQuerySchema.parse(req.query);
+      const after = query.cursor ? decodeCursor(query.cursor, commentCursorSchema) : undefined;
+      if (query.cursor && !after) {
+        return res.status(400).json({ message: "Invalid cursor" });
+      }
+
+      const { page, nextCursor } = await paginateComments({
+        deleted: status === undefined ? undefined : status === "deleted",
+        sort: "newest",
+        after,
+        limit: query.limit,
+      });
+
+      const videoIds = Array.from(new Set(page.map(comment => comment.videoId)));
+      const titles = new Map<number, string>();
+      for (const video of await Promise.all(videoIds.map(id => storage.getVideo(id)))) {
+        if (video) titles.set(video.id, video.title);
+      }
+
+      const views = await toCommentViews(page, true);
+      const response: ModeratedCommentPage = {
+        comments: views.map(view => ({ ...view, videoTitle: titles.get(view.videoId) ?? null })),
+        nextCursor,
+      };
+      res.json(response);
+    } catch (error) {
+      log(`Admin get comments error: ${error}`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error retrieving comments" });
+    }
+  });
+
+  apiRouter.post('/admin/comments/:id/restore', requireAdmin, async (req, res) => {
+    try {
+      const comment = await storage.getComment(parseInt(req.params.id));
+
+      if (!comment) {
+        return res.status(404).json({ message: "Comment not found" });
+      }
+
+      if (!comment.deletedAt) {
+        return res.status(409).json({ message: "Comment is not deleted" });
+      }
+
+      await storage.updateComment(comment.id, { deletedAt: null });
+      res.json({ message: "Comment restored successfully" });
+    } catch (error) {
+      log(`Admin restore comment error: ${error}`);
+      res.status(500).json({ message: "Error restoring comment" });
+    }
+  });
+
+  apiRouter.get('/admin/categories', requireAdmin, async (req, res) => {
+    try {
+      const categories = await storage.getAllCategories();
+      res.json(categories);
+    } catch (error) {
+      log(`Admin get categories error: ${error}`);
+      res.status(500).json({ message: "Error retrieving categories" });
+    }
+  });
+
+  apiRouter.post('/admin/categories', requireAdmin, validateRequest(createCategorySchema), async (req, res) => {
+    try {
+      const { name, description, hidden, ...rest } = req.body as z.infer<typeof createCategorySchema>;
+      const slug = rest.slug ?? categorySlug(name);
+      if (!slug) {
+        return res.status(400).json({ message: "Enter a slug for this category" });
+      }
+
+      const conflict = await findCategoryConflict(undefined, name, slug);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+
+      const category = await storage.createCategory({ name, slug, description, hidden });
+      res.status(201).json(category);
+    } catch (error) {
+      log(`Admin create category error: ${error}`);
+      res.status(500).json({ message: "Error creating category" });
+    }
+  });
+
+  // Every category's id in the new tab order
+  apiRouter.put('/admin/categories/order', requireAdmin, validateRequest(reorderCategoriesSchema), async (req, res) => {
+    try {
+      const { ids } = req.body as z.infer<typeof reorderCategoriesSchema>;
+      const categories = await storage.getAllCategories();
+      const listed = new Set(ids);
+      if (listed.size !== ids.length || ids.length !== categories.length || categories.some(c => !listed.has(c.id))) {
+        return res.status(400).json({ message: "The order must list every category exactly once" });
+      }
+
+      res.json(await storage.reorderCategories(ids));
+    } catch (error) {
+      log(`Admin reorder categories error: ${error}`);
+      res.status(500).json({ message: "Error reordering categories" });
+    }
+  });
+
+  apiRouter.patch('/admin/categories/:id', requireAdmin, validateRequest(updateCategorySchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const updates = req.body as z.infer<typeof updateCategorySchema>;
+
+      const conflict = await findCategoryConflict(id, updates.name, updates.slug);
+      if (conflict) {
+        return res.status(409).json({ message: conflict });
+      }
+
+      const category = await storage.updateCategory(id, updates);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      res.json(category);
+    } catch (error) {
+      log(`Admin update category error: ${error}`);
+      res.status(500).json({ message: "Error updating category" });
+    }
+  });
+
+  // ?reassignTo= moves the category's videos to another category; otherwise they become uncategorized
+  apiRouter.delete('/admin/categories/:id', requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { reassignTo } = deleteCategorySchema.parse(req.query);
+
+      let target: string | null = null;
+      if (reassignTo !== undefined) {
+        const category = reassignTo === id ? undefined : await storage.getCategory(reassignTo);
+        if (!category) {
+          return res.status(400).json({ message: "Invalid category to reassign videos to" });
+        }
+        target = category.name;
+      }
+
+      const deleted = await storage.deleteCategory(id, target);
+      if (!deleted) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+
+      res.json({ message: "Category deleted successfully" });
+    } catch (error) {
+      log(`Admin delete category error: ${error}`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error deleting category" });
+    }
+  });
+
+  // Tags with how many videos carry each
+  apiRouter.get('/admin/tags', requireAdmin, async (req, res) => {
+    try {
+      const tags = await storage.getAllTags();
+      res.json(tags);
+    } catch (error) {
+      log(`Admin get tags error: ${error}`);
+      res.status(500).json({ message: "Error retrieving tags" });
+    }
+  });
+
+  apiRouter.patch('/admin/tags/:id', requireAdmin, validateRequest(renameTagSchema), async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { name } = req.body as z.infer<typeof renameTagSchema>;
+
+      const existing = await storage.getTagByName(name);
+      if (existing && existing.id !== id) {
+        return res.status(409).json({ message: `A tag named "${name}" already exists; merge the tags instead` });
+      }
+
+      const tag = await storage.renameTag(id, name);
+      if (!tag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+
+      res.json(tag);
+    } catch (error) {
+      log(`Admin rename tag error: ${error}`);
+      res.status(500).json({ message: "Error renaming tag" });
+    }
+  });
+
+  // Folds one tag into another: its videos are retagged and it is deleted
+  apiRouter.post('/admin/tags/:id/merge', requireAdmin, validateRequest(mergeTagSchema), async (req, res) => {
+    try {
+      const sourceId = parseInt(req.params.id);
+      const { targetId } = req.body as z.infer<typeof mergeTagSchema>;
+
+      if (sourceId === targetId) {
+        return res.status(400).json({ message: "Cannot merge a tag into itself" });
+      }
+
+      const tag = await storage.mergeTags(sourceId, targetId);
+      if (!tag) {
+        return res.status(404).json({ message: "Tag not found" });
+      }
+
+      res.json(tag);
+    } catch (error) {
+      log(`Admin merge tags error: ${error}`);
+      res.status(500).json({ message: "Error merging tags" });
+    }
+  });
+
+  // Site-wide view analytics over the last ?days=, with the most viewed videos
+  apiRouter.get('/admin/analytics', requireAdmin, async (req, res) => {
+    try {
+      const { days } = analyticsQuerySchema.parse(req.query);
+      const since = analyticsSince(days);
+      const stats = await storage.getViewStats(since);
+      const analytics: SiteAnalytics = {
+        ...stats,
+        viewsByDay: fillViewsByDay(since, days, stats.viewsByDay),
+        days,
+        topVideos: await storage.getTopViewedVideos(since, 10),
+      };
+      res.json(analytics);
+    } catch (error) {
+      log(`Get site analytics error: ${error}`);
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Validation error", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error fetching site analytics" });
+    }
+  });
+
+  // Rebuilds every video's view count from its stored view events
+  apiRouter.post('/admin/views/recount', requireAdmin, async (req, res) => {
+    try {
+      await storage.recountViews();
+      res.json({ message: "View counts recomputed successfully" });
+    } catch (error) {
+      log(`Recount views error: ${error}`);
+      res.status(500).json({ message: "Error recomputing view counts" });
+    }
+  });
+
+  // Background jobs, optionally filtered by ?status=
+  apiRouter.get('/admin/jobs', requireAdmin, async (req, res) => {
+    try {
+      const status = req.query.status as string | undefined;
+      if (status !== undefined && !(JOB_STATUSES as readonly string[]).includes(status)) {
+        return res.status(400).json({ message: "Invalid job status" });
+      }
+
+      const jobs = await storage.getJobs(status as JobStatus | undefined);
+      res.json(jobs);
+    } catch (error) {
+      log(`Admin get jobs error: ${error}`);
+      res.status(500).json({ message: "Error retrieving jobs" });
+    }
+  });
+
+  apiRouter.post('/admin/jobs/:id/retry', requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.getJob(id);
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const retried = await jobQueue.retry(id);
+      if (!retried) {
+        return res.status(409).json({ message: "Only failed or cancelled jobs can be retried" });
+      }
+
+      res.json(retried);
+    } catch (error) {
+      log(`Admin retry job error: ${error}`);
+      res.status(500).json({ message: "Error retrying job" });
+    }
+  });
+
+  apiRouter.post('/admin/jobs/:id/cancel', requireAdmin, async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.getJob(id);
+
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+
+      const cancelled = await jobQueue.cancel(id);
+      if (!cancelled) {
+        return res.status(409).json({ message: "Only queued or running jobs can be cancelled" });
+      }
+
+      res.json(cancelled);
+    } catch (error) {
+      log(`Admin cancel job error: ${error}`);
+      res.status(500).json({ message: "Error cancelling job" });
+    }
+  });
+
   // Theme customization routes
   apiRouter.get('/theme', async (req, res) => {
     try {
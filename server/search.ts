@@ -0,0 +1,411 @@
+import { HighlightedText, Suggestion, VideoVisibility } from "@shared/schema";
+
+// Full-text search: tokenizing and stemming, query parsing, highlighting, the
+// inverted index behind MemStorage.searchVideos and the prefix index behind
+// search suggestions. Postgres does its own
+// matching with tsvector, but results are highlighted here either way.
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "has", "in",
+  "is", "it", "its", "of", "on", "or", "that", "the", "to", "was", "were", "with",
+]);
+
+export type Token = {
+  term: string;
+  // Offsets of the original word, for highlighting
+  start: number;
+  end: number;
+};
+
+const WORD_PATTERN = new RegExp("[\\p{L}\\p{N}]+", "gu");
+const COMBINING_MARKS = new RegExp("\\p{M}", "gu");
+
+// Lowercase and strip accents so "Café" matches "cafe"
+const fold = (word: string) => word.normalize("NFKD").replace(COMBINING_MARKS, "").toLowerCase();
+
+// Split text into stemmed terms, dropping stopwords
+export function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of Array.from(text.matchAll(WORD_PATTERN))) {
+    const word = fold(match[0]);
+    if (STOPWORDS.has(word)) continue;
+    tokens.push({ term: stem(word), start: match.index!, end: match.index! + match[0].length });
+  }
+  return tokens;
+}
+
+const terms = (text: string) => tokenize(text).map(token => token.term);
+
+// A compact Porter stemmer (steps 1 to 3). It only has to be consistent
+// between documents and queries, not linguistically perfect.
+const isConsonant = (word: string, i: number): boolean => {
+  const c = word[i];
+  if ("aeiou".includes(c)) return false;
+  if (c === "y") return i === 0 || !isConsonant(word, i - 1);
+  return true;
+};
+
+// Number of vowel-consonant sequences, Porter's "m"
+const measure = (word: string) => {
+  let m = 0;
+  let i = 0;
+  while (i < word.length && isConsonant(word, i)) i++;
+  while (i < word.length) {
+    while (i < word.length && !isConsonant(word, i)) i++;
+    if (i >= word.length) break;
+    while (i < word.length && isConsonant(word, i)) i++;
+    m++;
+  }
+  return m;
+};
+
+const hasVowel = (word: string) => Array.from(word).some((_, i) => !isConsonant(word, i));
+
+const endsWithDoubleConsonant = (word: string) => {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+};
+
+const endsWithCvc = (word: string) => {
+  const n = word.length;
+  return n >= 3 && isConsonant(word, n - 3) && !isConsonant(word, n - 2) &&
+    isConsonant(word, n - 1) && !"wxy".includes(word[n - 1]);
+};
+
+const DERIVATIONAL_SUFFIXES: [string, string][] = ([
+  ["ational", "ate"], ["tional", "tion"], ["enci", "ence"], ["anci", "ance"],
+  ["izer", "ize"], ["abli", "able"], ["alli", "al"], ["entli", "ent"],
+  ["eli", "e"], ["ousli", "ous"], ["ization", "ize"], ["ation", "ate"],
+  ["ator", "ate"], ["alism", "al"], ["iveness", "ive"], ["fulness", "ful"],
+  ["ousness", "ous"], ["aliti", "al"], ["iviti", "ive"], ["biliti", "ble"],
+  ["icate", "ic"], ["ative", ""], ["alize", "al"], ["iciti", "ic"],
+  ["ical", "ic"], ["ful", ""], ["ness", ""],
+] as [string, string][]).sort((a, b) => b[0].length - a[0].length);
+
+export function stem(word: string): string {
+  if (word.length <= 2 || /\d/.test(word)) return word;
+
+  let w = word;
+
+  // Plurals
+  if (w.endsWith("sses") || w.endsWith("ies")) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith("s") && !w.endsWith("ss")) {
+    w = w.slice(0, -1);
+  }
+
+  // Past tense and gerunds
+  if (w.endsWith("eed")) {
+    if (measure(w.slice(0, -3)) > 0) w = w.slice(0, -1);
+  } else {
+    const suffix = w.endsWith("ed") ? "ed" : w.endsWith("ing") ? "ing" : null;
+    if (suffix && hasVowel(w.slice(0, -suffix.length))) {
+      w = w.slice(0, -suffix.length);
+      if (w.endsWith("at") || w.endsWith("bl") || w.endsWith("iz")) {
+        w += "e";
+      } else if (endsWithDoubleConsonant(w) && !/[lsz]$/.test(w)) {
+        w = w.slice(0, -1);
+      } else if (measure(w) === 1 && endsWithCvc(w)) {
+        w += "e";
+      }
+    }
+  }
+
+  if (w.endsWith("y") && hasVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + "i";
+  }
+
+  for (const [suffix, replacement] of DERIVATIONAL_SUFFIXES) {
+    if (w.endsWith(suffix)) {
+      const base = w.slice(0, -suffix.length);
+      if (measure(base) > 0) w = base + replacement;
+      break;
+    }
+  }
+
+  return w;
+}
+
+// A query split into stemmed parts. Every term and phrase must match; any
+// excluded term or phrase rules a document out.
+export type ParsedQuery = {
+  terms: string[];
+  phrases: string[][];
+  excluded: string[][];
+};
+
+// Understands bare words, "quoted phrases" and -exclusions (including -"phrases")
+export function parseSearchQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], phrases: [], excluded: [] };
+
+  for (const match of Array.from(query.matchAll(/(-?)"([^"]*)"?|(-?)(\S+)/g))) {
+    const negated = (match[1] ?? match[3]) === "-";
+    const sequence = terms(match[2] ?? match[4]);
+    if (sequence.length === 0) continue;
+
+    if (negated) {
+      parsed.excluded.push(sequence);
+    } else if (sequence.length > 1) {
+      parsed.phrases.push(sequence);
+    } else if (!parsed.terms.includes(sequence[0])) {
+      parsed.terms.push(sequence[0]);
+    }
+  }
+
+  return parsed;
+}
+
+// Every stemmed term a result should have highlighted
+export function getHighlightTerms(query: ParsedQuery): Set<string> {
+  return new Set([...query.terms, ...query.phrases.flat()]);
+}
+
+// Mark matching words in text. With maxLength, returns a snippet around the first match.
+export function highlight(text: string, highlightTerms: Set<string>, maxLength?: number): HighlightedText {
+  const matches = tokenize(text)
+    .filter(token => highlightTerms.has(token.term))
+    .map((token): [number, number] => [token.start, token.end]);
+
+  if (!maxLength || text.length <= maxLength) {
+    return { text, matches };
+  }
+
+  // Start a little before the first match, on a word boundary
+  const first = matches[0]?.[0] ?? 0;
+  let start = Math.max(0, first - Math.floor(maxLength / 3));
+  if (start > 0) {
+    const space = text.indexOf(" ", start);
+    start = space !== -1 && space < first ? space + 1 : start;
+  }
+  let end = Math.min(text.length, start + maxLength);
+  if (end < text.length) {
+    const space = text.lastIndexOf(" ", end);
+    end = space > Math.max(start, first) ? space : end;
+  }
+
+  const prefix = start > 0 ? "…" : "";
+  const suffix = end < text.length ? "…" : "";
+  const shift = prefix.length - start;
+  return {
+    text: `${prefix}${text.slice(start, end)}${suffix}`,
+    matches: matches
+      .filter(([from, to]) => from >= start && to <= end)
+      .map(([from, to]): [number, number] => [from + shift, to + shift]),
+  };
+}
+
+export type SearchDocument = {
+  id: number;
+  title: string;
+  description: string | null;
+  tags: string[];
+  uploader: string;
+  // Cue text of every caption track
+  captions: string;
+};
+
+// Matches in the title count four times as much as matches in the description.
+// Captions are long transcripts, so each match in them counts for little.
+const FIELD_WEIGHTS = { title: 4, tags: 2, uploader: 1.5, description: 1, captions: 0.5 } as const;
+type Field = keyof typeof FIELD_WEIGHTS;
+const FIELDS = Object.keys(FIELD_WEIGHTS) as Field[];
+
+// BM25 tuning
+const K1 = 1.2;
+const B = 0.75;
+
+type IndexedDocument = {
+  fields: Record<Field, string[]>;
+  // Weighted term count, for length normalisation
+  length: number;
+};
+
+const containsSequence = (tokens: string[], sequence: string[]) => {
+  for (let i = 0; i + sequence.length <= tokens.length; i++) {
+    if (sequence.every((term, j) => tokens[i + j] === term)) return true;
+  }
+  return false;
+};
+
+// In-memory inverted index ranked with BM25 over weighted fields
+export class SearchIndex {
+  private documents = new Map<number, IndexedDocument>();
+  private postings = new Map<string, Set<number>>();
+  private totalLength = 0;
+
+  add(document: SearchDocument) {
+    this.remove(document.id);
+
+    const fields: Record<Field, string[]> = {
+      title: terms(document.title),
+      tags: document.tags.flatMap(terms),
+      uploader: terms(document.uploader),
+      description: terms(document.description ?? ""),
+      captions: terms(document.captions),
+    };
+    const length = FIELDS.reduce((sum, field) => sum + fields[field].length * FIELD_WEIGHTS[field], 0);
+
+    this.documents.set(document.id, { fields, length });
+    this.totalLength += length;
+    for (const term of Array.from(new Set(FIELDS.flatMap(field => fields[field])))) {
+      let ids = this.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(term, ids);
+      }
+      ids.add(document.id);
+    }
+  }
+
+  remove(id: number) {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    for (const term of Array.from(new Set(FIELDS.flatMap(field => document.fields[field])))) {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids?.size === 0) this.postings.delete(term);
+    }
+    this.totalLength -= document.length;
+    this.documents.delete(id);
+  }
+
+  // Matching document ids, best first
+  search(query: ParsedQuery): { id: number; score: number }[] {
+    const required = Array.from(new Set([...query.terms, ...query.phrases.flat()]));
+    if (required.length === 0) return [];
+
+    const lists = required.map(term => this.postings.get(term));
+    if (lists.some(ids => !ids)) return [];
+    const [rarest, ...rest] = (lists as Set<number>[]).sort((a, b) => a.size - b.size);
+
+    const count = this.documents.size;
+    const averageLength = this.totalLength / count || 1;
+    const results: { id: number; score: number }[] = [];
+
+    for (const id of Array.from(rarest)) {
+      if (!rest.every(ids => ids.has(id))) continue;
+
+      const document = this.documents.get(id)!;
+      const sequences = FIELDS.map(field => document.fields[field]);
+      if (!query.phrases.every(phrase => sequences.some(tokens => containsSequence(tokens, phrase)))) continue;
+      if (query.excluded.some(excluded => sequences.some(tokens => containsSequence(tokens, excluded)))) continue;
+
+      let score = 0;
+      for (const term of required) {
+        const frequency = this.postings.get(term)!.size;
+        const idf = Math.log(1 + (count - frequency + 0.5) / (frequency + 0.5));
+        const tf = FIELDS.reduce(
+          (sum, field) => sum + document.fields[field].filter(t => t === term).length * FIELD_WEIGHTS[field],
+          0,
+        );
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * document.length / averageLength));
+      }
+      results.push({ id, score });
+    }
+
+    return results.sort((a, b) => b.score - a.score || b.id - a.id);
+  }
+}
+
+// What the suggestion index knows about a video: the phrases it completes to,
+// and enough to decide who may see them
+export type SuggestionSource = {
+  id: number;
+  title: string;
+  tags: string[];
+  uploaderId: number;
+  uploaderName: string;
+  visibility: VideoVisibility;
+};
+
+type SuggestionEntry = {
+  key: string;
+  // The whole phrase, folded, for telling duplicates apart
+  phrase: string;
+  // Whether the key starts at the phrase's first word
+  fromStart: boolean;
+  suggestion: Suggestion;
+  source: SuggestionSource;
+};
+
+// Folded words, without punctuation
+const words = (text: string) => Array.from(fold(text).matchAll(WORD_PATTERN), match => match[0]);
+
+const SUGGESTION_ORDER: Record<Suggestion["type"], number> = { title: 0, tag: 1, channel: 2 };
+
+// In-memory prefix index of video titles, tags and channel names. Phrases are
+// keyed from every word, so "data" completes "Relational databases" too.
+export class SuggestionIndex {
+  // Sorted by key, so the completions of a prefix form one contiguous run
+  private entries: SuggestionEntry[] = [];
+  private sources = new Map<number, SuggestionSource>();
+
+  add(source: SuggestionSource) {
+    this.remove(source.id);
+    this.sources.set(source.id, source);
+
+    const suggestions: Suggestion[] = [
+      { type: "title", text: source.title, channelId: null },
+      ...source.tags.map((tag): Suggestion => ({ type: "tag", text: tag, channelId: null })),
+      { type: "channel", text: source.uploaderName, channelId: source.uploaderId },
+    ];
+    for (const suggestion of suggestions) {
+      const phraseWords = words(suggestion.text);
+      const phrase = phraseWords.join(" ");
+      phraseWords.forEach((_, i) => {
+        const key = phraseWords.slice(i).join(" ");
+        this.entries.splice(this.lowerBound(key), 0, { key, phrase, fromStart: i === 0, suggestion, source });
+      });
+    }
+  }
+
+  remove(id: number) {
+    if (!this.sources.delete(id)) return;
+    this.entries = this.entries.filter(entry => entry.source.id !== id);
+  }
+
+  // Completions of prefix from the sources accept lets through, best first
+  suggest(prefix: string, limit: number, accept: (source: SuggestionSource) => boolean): Suggestion[] {
+    const key = words(prefix).join(" ");
+    if (!key) return [];
+
+    const matches: SuggestionEntry[] = [];
+    for (let i = this.lowerBound(key); i < this.entries.length && this.entries[i].key.startsWith(key); i++) {
+      if (accept(this.entries[i].source)) matches.push(this.entries[i]);
+    }
+
+    // Phrases that start with the prefix first, then the shortest
+    matches.sort((a, b) =>
+      Number(b.fromStart) - Number(a.fromStart) ||
+      a.phrase.length - b.phrase.length ||
+      SUGGESTION_ORDER[a.suggestion.type] - SUGGESTION_ORDER[b.suggestion.type]
+    );
+
+    const seen = new Set<string>();
+    const suggestions: Suggestion[] = [];
+    for (const { phrase, suggestion } of matches) {
+      const identity = `${suggestion.type}:${suggestion.channelId ?? phrase}`;
+      if (seen.has(identity)) continue;
+      seen.add(identity);
+      suggestions.push(suggestion);
+      if (suggestions.length === limit) break;
+    }
+    return suggestions;
+  }
+
+  // Index of the first entry whose key is not less than key
+  private lowerBound(key: string): number {
+    let low = 0;
+    let high = this.entries.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (this.entries[middle].key < key) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+}
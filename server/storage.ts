@@ -1,55 +1,331 @@
 import { 
   User, InsertUser, 
-  Video, InsertVideo, 
+  Video, InsertVideo, VideoStatus, VideoSort, Suggestion,
   Category, InsertCategory,
+  Tag, TagWithCount, TagMatch,
+  Invite, InsertInvite,
+  Share, InsertShare,
+  Reaction, ReactionType,
+  Comment, InsertComment, CommentSort,
+  Playlist, InsertPlaylist, PlaylistItem, PlaylistSummary,
+  WatchHistoryEntry, HistoryItem,
+  ViewEvent, InsertViewEvent, ViewStats, TRAFFIC_SOURCES, DEVICE_CLASSES,
+  Caption, CaptionTrack, InsertCaption,
+  Job, InsertJob, JobKind, JobStatus,
+  Upload, InsertUpload,
   ThemeSettings, themeSchema,
-  DEFAULT_CATEGORIES 
+  SiteSettings, siteSettingsSchema,
+  DEFAULT_CATEGORIES, categorySlug
 } from "@shared/schema";
+import { hashPassword } from "./passwords";
+import { createDatabase } from "./db";
+import { DrizzleStorage } from "./drizzleStorage";
+import { SearchIndex, SuggestionIndex, parseSearchQuery } from "./search";
+
+export class UsernameTakenError extends Error {}
+
+// Which videos to list and in what order. `after` is the sort value and id of
+// the last video already returned; ties are broken by id.
+export type VideoFilter = {
+  category?: string;
+  tags?: string[];
+  // Defaults to "all"
+  tagMatch?: TagMatch;
+  search?: string;
+  uploaderId?: number;
+  // Listings show public videos plus, for a signed-in viewer, their own
+  // (admins see everything)
+  viewer?: { id: number; isAdmin: boolean };
+  sort: VideoSort;
+  after?: { value: string | number; id: number };
+  limit: number;
+};
+
+// Narrows full-text search results. Ranking decides the order, so pages are
+// addressed by offset.
+export type SearchFilter = {
+  category?: string;
+  // Bounds in seconds; videos whose duration isn't known yet are left out
+  minDuration?: number;
+  maxDuration?: number;
+  uploadedAfter?: Date;
+  uploadedBefore?: Date;
+  viewer?: VideoFilter["viewer"];
+  offset: number;
+  limit: number;
+};
+
+export type SearchHit = { video: Video; score: number };
+
+// Which comments to list and in what order. `after` is the position of the
+// last comment already returned; "top" ranks by replies, newest first on ties.
+export type CommentFilter = {
+  videoId?: number;
+  // null restricts the list to top-level comments
+  parentId?: number | null;
+  pinned?: boolean;
+  deleted?: boolean;
+  sort: CommentSort | "oldest";
+  after?: { id: number; replyCount: number };
+  limit: number;
+};
+
+// The value a video is ordered by under each sort. Ids stand in for upload
+// dates since they are assigned in upload order.
+export function getVideoSortValue(video: Video, sort: VideoSort): string | number {
+  switch (sort) {
+    case "views":
+      return video.views;
+    case "duration":
+      return video.duration ?? 0;
+    case "title":
+      return video.title.toLowerCase();
+    default:
+      return video.id;
+  }
+}
 
 export interface IStorage {
   // User operations
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
+  // Passwords are passed in plaintext and hashed by the storage layer.
+  // Throws UsernameTakenError if the name belongs to another user.
   createUser(user: InsertUser): Promise<User>;
+  // Creates the user and redeems the invite for them together. Returns
+  // undefined, creating nobody, when the invite is used or expired.
+  createInvitedUser(user: InsertUser, inviteCode: string): Promise<User | undefined>;
   getAllUsers(): Promise<User[]>;
   updateUserPassword(id: number, newPassword: string): Promise<User | undefined>;
+  // Passwords cannot be changed here; use updateUserPassword so they get hashed
+  updateUser(id: number, updates: Partial<Omit<User, "id" | "password">>): Promise<User | undefined>;
+  // Also removes the user's playlists, history, reactions and comments. Replies
+  // go with the threads they belong to, and like counts are brought up to date.
+  deleteUser(id: number): Promise<boolean>;
   
   // Video operations
   getVideo(id: number): Promise<Video | undefined>;
   getAllVideos(): Promise<Video[]>;
-  getVideosByCategory(category: string): Promise<Video[]>;
+  listVideos(filter: VideoFilter): Promise<Video[]>;
+  // Matches title, description, tags and uploader name, best match first.
+  // Supports "quoted phrases" and -exclusions.
+  searchVideos(query: string, filter: SearchFilter): Promise<SearchHit[]>;
+  // Titles, tags and channel names completing prefix, from videos listed for the viewer
+  suggest(prefix: string, viewer: VideoFilter["viewer"], limit: number): Promise<Suggestion[]>;
+  getVideosByUploader(uploaderId: number): Promise<Video[]>;
+  // Shown on public profiles, so only public videos that are ready count
+  getUploaderStats(uploaderId: number): Promise<{ videoCount: number; totalViews: number }>;
   createVideo(video: InsertVideo): Promise<Video>;
   createEmbeddedVideo(video: InsertVideo): Promise<Video>;
   updateVideo(id: number, updates: Partial<InsertVideo>): Promise<Video | undefined>;
+  setVideoStatus(id: number, status: VideoStatus): Promise<Video | undefined>;
   deleteVideo(id: number): Promise<boolean>;
-  incrementViews(id: number): Promise<Video | undefined>;
-  searchVideos(query: string): Promise<Video[]>;
+  // Moves every video from one uploader to another, returning how many moved
+  reassignVideos(fromUploaderId: number, toUploaderId: number): Promise<number>;
+  deleteVideosByUploader(uploaderId: number): Promise<Video[]>;
   
-  // Category operations
+  // Category operations. Categories come back in tab order, hidden ones included.
   getAllCategories(): Promise<Category[]>;
+  getCategory(id: number): Promise<Category | undefined>;
+  // Added after the last category unless a position is given
   createCategory(category: InsertCategory): Promise<Category>;
+  // Renaming a category renames it on its videos too
+  updateCategory(id: number, data: Partial<InsertCategory>): Promise<Category | undefined>;
+  // Positions follow the order of ids
+  reorderCategories(ids: number[]): Promise<Category[]>;
+  // Moves the category's videos to another category, or leaves them uncategorized when null
+  deleteCategory(id: number, reassignTo: string | null): Promise<boolean>;
+
+  // Tag operations. Videos gain tags through their `tags` field on create and update.
+  getAllTags(): Promise<TagWithCount[]>;
+  getTag(id: number): Promise<Tag | undefined>;
+  getTagByName(name: string): Promise<Tag | undefined>;
+  // The new name must not belong to another tag; merge them instead
+  renameTag(id: number, name: string): Promise<Tag | undefined>;
+  // Moves every video tagged with the source onto the target and deletes the source
+  mergeTags(sourceId: number, targetId: number): Promise<Tag | undefined>;
+
+  // Invite operations
+  getAllInvites(): Promise<Invite[]>;
+  getInviteByCode(code: string): Promise<Invite | undefined>;
+  createInvite(invite: InsertInvite): Promise<Invite>;
+  // Marks an unused, unexpired invite as used; returns undefined if it can't be redeemed
+  redeemInvite(code: string, userId: number): Promise<Invite | undefined>;
+  deleteInvite(id: number): Promise<boolean>;
+
+  // Share link operations
+  createShare(share: InsertShare): Promise<Share>;
+  getShareByToken(token: string): Promise<Share | undefined>;
+  getSharesByVideo(videoId: number): Promise<Share[]>;
+  revokeShare(id: number): Promise<Share | undefined>;
+  // Counts a view unless the link's view cap is reached; returns undefined if it was
+  recordShareView(id: number): Promise<Share | undefined>;
+
+  // Reaction methods
+  getReaction(userId: number, videoId: number): Promise<Reaction | undefined>;
+  // Both return the video with its like and dislike counts brought up to date
+  setReaction(userId: number, videoId: number, type: ReactionType): Promise<Video | undefined>;
+  removeReaction(userId: number, videoId: number): Promise<Video | undefined>;
+  // Most recently liked first
+  getLikedVideos(userId: number): Promise<Video[]>;
+
+  // Comment methods
+  getComment(id: number): Promise<Comment | undefined>;
+  listComments(filter: CommentFilter): Promise<Comment[]>;
+  // Replies also bump their parent's reply count
+  createComment(comment: InsertComment): Promise<Comment>;
+  updateComment(id: number, updates: Partial<Pick<Comment, "body" | "editedAt" | "deletedAt">>): Promise<Comment | undefined>;
+  // A video has at most one pinned comment; pinning one unpins the rest
+  setCommentPinned(id: number, pinned: boolean): Promise<Comment | undefined>;
+
+  // Playlist methods. Deleting a video or user takes it out of every playlist.
+  getPlaylist(id: number): Promise<Playlist | undefined>;
+  // Most recently updated first
+  getPlaylistsByOwner(ownerId: number, containingVideoId?: number): Promise<PlaylistSummary[]>;
+  // In playlist order
+  getPlaylistVideos(playlistId: number): Promise<Video[]>;
+  createPlaylist(playlist: InsertPlaylist): Promise<Playlist>;
+  updatePlaylist(id: number, updates: Partial<Omit<InsertPlaylist, "ownerId">>): Promise<Playlist | undefined>;
+  deletePlaylist(id: number): Promise<boolean>;
+  // Appends the video; false if it was already in the playlist
+  addPlaylistVideo(playlistId: number, videoId: number): Promise<boolean>;
+  removePlaylistVideo(playlistId: number, videoId: number): Promise<boolean>;
+  // Positions follow the order of videoIds
+  reorderPlaylist(playlistId: number, videoIds: number[]): Promise<void>;
+
+  // Watch history methods
+  getWatchProgress(userId: number, videoId: number): Promise<WatchHistoryEntry | undefined>;
+  // Most recently watched first
+  getAllWatchProgress(userId: number): Promise<WatchHistoryEntry[]>;
+  // Most recently watched first; `after` is the last entry already returned, ties broken by video id
+  listWatchHistory(userId: number, after: { watchedAt: Date; videoId: number } | undefined, limit: number): Promise<HistoryItem[]>;
+  // Records the position and moves the video to the top of the history
+  saveWatchProgress(userId: number, videoId: number, progress: Pick<WatchHistoryEntry, "position" | "duration">): Promise<WatchHistoryEntry>;
+  removeWatchProgress(userId: number, videoId: number): Promise<boolean>;
+  clearWatchHistory(userId: number): Promise<void>;
+
+  // View events. Whether a play qualifies as a view is decided in server/views.ts.
+  createViewEvent(event: InsertViewEvent): Promise<ViewEvent>;
+  getViewEvent(id: number): Promise<ViewEvent | undefined>;
+  // Records a heartbeat. Watched time only ever grows.
+  recordViewHeartbeat(id: number, watchedSeconds: number): Promise<ViewEvent | undefined>;
+  // Whether the viewer has added a view to the video since the given time
+  hasCountedView(videoId: number, viewerKey: string, since: Date): Promise<boolean>;
+  // Marks the event counted and adds one to the video's views. Returns
+  // undefined if the event was already counted or the video is gone.
+  countView(id: number): Promise<Video | undefined>;
+  // Resets every video's view count to its number of counted events
+  recountViews(): Promise<void>;
+  // Aggregates view events since the given time for one video, or the whole
+  // site without a videoId. viewsByDay only lists days that had views.
+  getViewStats(since: Date, videoId?: number): Promise<ViewStats>;
+  // How many plays since the given time lasted at least i / buckets of the
+  // video, for i from 0 to buckets
+  getViewRetention(videoId: number, since: Date, duration: number, buckets: number): Promise<number[]>;
+  // Videos with the most views since the given time, most first
+  getTopViewedVideos(since: Date, limit: number): Promise<{ video: Video; views: number }[]>;
+
+  // Caption tracks, at most one per language. Their text is searched along with the video.
+  // Sorted by label
+  getCaptionTracks(videoId: number): Promise<CaptionTrack[]>;
+  getCaption(videoId: number, language: string): Promise<Caption | undefined>;
+  // Replaces the video's track in the same language if there is one
+  saveCaption(caption: InsertCaption): Promise<{ caption: Caption; created: boolean }>;
+  deleteCaption(videoId: number, language: string): Promise<boolean>;
+
+  // Job operations
+  createJob(job: InsertJob): Promise<Job>;
+  getJob(id: number): Promise<Job | undefined>;
+  getJobs(status?: JobStatus): Promise<Job[]>;
+  updateJob(id: number, updates: Partial<Omit<Job, "id" | "createdAt" | "updatedAt">>): Promise<Job | undefined>;
+  // Atomically moves the oldest due job of one of the given kinds to "running"
+  claimNextJob(kinds: JobKind[]): Promise<Job | undefined>;
+  // Puts jobs left "running" by a crashed process back in the queue
+  requeueRunningJobs(): Promise<number>;
+
+  // Resumable upload operations
+  createUpload(upload: InsertUpload): Promise<Upload>;
+  getUpload(id: string): Promise<Upload | undefined>;
+  updateUploadOffset(id: string, offset: number): Promise<Upload | undefined>;
+  deleteUpload(id: string): Promise<boolean>;
+  // Removes sessions past their expiry and returns them so their files can be cleaned up
+  deleteExpiredUploads(): Promise<Upload[]>;
 
   // Theme operations
   getThemeSettings(): Promise<ThemeSettings>;
   updateThemeSettings(settings: Partial<ThemeSettings>): Promise<ThemeSettings>;
+
+  // Site settings operations
+  getSiteSettings(): Promise<SiteSettings>;
+  updateSiteSettings(settings: Partial<SiteSettings>): Promise<SiteSettings>;
 }
 
+const isListedFor = (video: Pick<Video, "visibility" | "uploaderId">, viewer: VideoFilter["viewer"]) => {
+  return video.visibility === "public" || (!!viewer && (viewer.isAdmin || video.uploaderId === viewer.id));
+};
+
 export class MemStorage implements IStorage {
   private users: Map<number, User>;
   private videos: Map<number, Video>;
   private categories: Map<number, Category>;
+  private tags: Map<number, Tag>;
+  private invites: Map<number, Invite>;
+  private shares: Map<number, Share>;
+  private reactions: Map<string, Reaction>;
+  private comments: Map<number, Comment>;
+  private jobs: Map<number, Job>;
+  private playlists: Map<number, Playlist>;
+  private playlistItems: Map<string, PlaylistItem>;
+  private watchHistory: Map<string, WatchHistoryEntry>;
+  private viewEvents: Map<number, ViewEvent>;
+  private captions: Map<string, Caption>;
+  private uploads: Map<string, Upload>;
+  private searchIndex: SearchIndex;
+  private suggestionIndex: SuggestionIndex;
   private themeSettings: ThemeSettings;
+  private siteSettings: SiteSettings;
   private nextUserId: number;
   private nextVideoId: number;
   private nextCategoryId: number;
+  private nextTagId: number;
+  private nextInviteId: number;
+  private nextShareId: number;
+  private nextCommentId: number;
+  private nextJobId: number;
+  private nextPlaylistId: number;
+  private nextViewEventId: number;
+  private nextCaptionId: number;
 
   constructor() {
     this.users = new Map();
     this.videos = new Map();
     this.categories = new Map();
+    this.tags = new Map();
+    this.invites = new Map();
+    this.shares = new Map();
+    this.reactions = new Map();
+    this.comments = new Map();
+    this.jobs = new Map();
+    this.playlists = new Map();
+    this.playlistItems = new Map();
+    this.watchHistory = new Map();
+    this.viewEvents = new Map();
+    this.captions = new Map();
+    this.uploads = new Map();
+    this.searchIndex = new SearchIndex();
+    this.suggestionIndex = new SuggestionIndex();
     this.nextUserId = 1;
     this.nextVideoId = 1;
     this.nextCategoryId = 1;
+    this.nextTagId = 1;
+    this.nextInviteId = 1;
+    this.nextShareId = 1;
+    this.nextCommentId = 1;
+    this.nextJobId = 1;
+    this.nextPlaylistId = 1;
+    this.nextViewEventId = 1;
+    this.nextCaptionId = 1;
+    this.siteSettings = siteSettingsSchema.parse({});
     
     // Initialize theme settings with defaults
     this.themeSettings = themeSchema.parse({
@@ -66,13 +342,13 @@ export class MemStorage implements IStorage {
     // Create admin user
     this.createUser({
       username: "admin",
-      password: "admin123", // In a real app, this would be hashed
+      password: "admin123",
       isAdmin: true,
     });
 
     // Initialize default categories
     DEFAULT_CATEGORIES.forEach(name => {
-      this.createCategory({ name });
+      this.createCategory({ name, slug: categorySlug(name) });
     });
   }
   
@@ -86,6 +362,16 @@ export class MemStorage implements IStorage {
     return { ...this.themeSettings }; 
   }
 
+  // Site settings methods
+  async getSiteSettings(): Promise<SiteSettings> {
+    return { ...this.siteSettings };
+  }
+
+  async updateSiteSettings(settings: Partial<SiteSettings>): Promise<SiteSettings> {
+    this.siteSettings = { ...this.siteSettings, ...settings };
+    return { ...this.siteSettings };
+  }
+
   // User methods
   async getUser(id: number): Promise<User | undefined> {
     return this.users.get(id);
@@ -98,8 +384,42 @@ export class MemStorage implements IStorage {
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new UsernameTakenError(`Username "${insertUser.username}" already exists`);
+    }
+    return this.addUser(insertUser, await hashPassword(insertUser.password));
+  }
+
+  async createInvitedUser(insertUser: InsertUser, inviteCode: string): Promise<User | undefined> {
+    const password = await hashPassword(insertUser.password);
+    // Nothing below awaits, so no other signup can take the invite in between
+    const invite = this.findRedeemableInvite(inviteCode);
+    if (!invite) return undefined;
+
+    const user = this.addUser(insertUser, password);
+    this.invites.set(invite.id, { ...invite, usedBy: user.id, usedAt: new Date() });
+    return user;
+  }
+
+  private addUser(insertUser: InsertUser, password: string): User {
+    // Another registration may have taken the name while the password was hashing
+    if (Array.from(this.users.values()).some(user => user.username === insertUser.username)) {
+      throw new UsernameTakenError(`Username "${insertUser.username}" already exists`);
+    }
+
     const id = this.nextUserId++;
-    const user: User = { ...insertUser, id };
+    const user: User = {
+      ...insertUser,
+      id,
+      password,
+      isAdmin: insertUser.isAdmin ?? false,
+      isDisabled: false,
+      mustChangePassword: false,
+      displayName: null,
+      avatarUrl: null,
+      bio: null,
+      createdAt: new Date(),
+    };
     this.users.set(id, user);
     return user;
   }
@@ -112,11 +432,35 @@ export class MemStorage implements IStorage {
     const user = this.users.get(id);
     if (!user) return undefined;
 
-    const updatedUser = { ...user, password: newPassword };
+    const updatedUser = { ...user, password: await hashPassword(newPassword) };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async updateUser(id: number, updates: Partial<Omit<User, "id" | "password">>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, ...updates };
     this.users.set(id, updatedUser);
+
+    // Uploader names are searchable
+    this.videos.forEach(video => {
+      if (video.uploaderId === id) this.indexVideo(video);
+    });
     return updatedUser;
   }
 
+  async deleteUser(id: number): Promise<boolean> {
+    this.playlists.forEach(playlist => {
+      if (playlist.ownerId === id) this.deletePlaylist(playlist.id);
+    });
+    this.clearWatchHistory(id);
+    this.deleteReactionsByUser(id);
+    this.deleteCommentsByUser(id);
+    return this.users.delete(id);
+  }
+
   // Video methods
   async getVideo(id: number): Promise<Video | undefined> {
     return this.videos.get(id);
@@ -127,15 +471,99 @@ export class MemStorage implements IStorage {
       .sort((a, b) => new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime());
   }
 
-  async getVideosByCategory(category: string): Promise<Video[]> {
-    if (category === "All") {
-      return this.getAllVideos();
-    }
+  async listVideos(filter: VideoFilter): Promise<Video[]> {
+    const { viewer, after } = filter;
+    const search = filter.search?.toLowerCase();
+    const ascending = filter.sort === "oldest" || filter.sort === "title";
+    const compare = (a: { value: string | number; id: number }, b: { value: string | number; id: number }) => {
+      const order = a.value < b.value ? -1 : a.value > b.value ? 1 : a.id - b.id;
+      return ascending ? order : -order;
+    };
+    const position = (video: Video) => ({ value: getVideoSortValue(video, filter.sort), id: video.id });
+
+    return Array.from(this.videos.values())
+      .filter(video =>
+        (!filter.category || filter.category === "All" || video.category === filter.category) &&
+        (!filter.tags?.length || (filter.tagMatch === "any"
+          ? filter.tags.some(tag => video.tags.includes(tag))
+          : filter.tags.every(tag => video.tags.includes(tag)))) &&
+        (filter.uploaderId === undefined || video.uploaderId === filter.uploaderId) &&
+        (!search ||
+          video.title.toLowerCase().includes(search) ||
+          (video.description && video.description.toLowerCase().includes(search))) &&
+        isListedFor(video, viewer)
+      )
+      .filter(video => !after || compare(position(video), after) > 0)
+      .sort((a, b) => compare(position(a), position(b)))
+      .slice(0, filter.limit);
+  }
+
+  async searchVideos(query: string, filter: SearchFilter): Promise<SearchHit[]> {
+    const { minDuration, maxDuration, uploadedAfter, uploadedBefore } = filter;
+    const hasDurationFilter = minDuration !== undefined || maxDuration !== undefined;
+
+    return this.searchIndex.search(parseSearchQuery(query))
+      .map(({ id, score }) => ({ video: this.videos.get(id)!, score }))
+      .filter(({ video }) =>
+        !!video &&
+        (!filter.category || filter.category === "All" || video.category === filter.category) &&
+        (!hasDurationFilter || (video.duration !== null &&
+          (minDuration === undefined || video.duration >= minDuration) &&
+          (maxDuration === undefined || video.duration <= maxDuration))) &&
+        (!uploadedAfter || video.uploadDate >= uploadedAfter) &&
+        (!uploadedBefore || video.uploadDate <= uploadedBefore) &&
+        isListedFor(video, filter.viewer)
+      )
+      .slice(filter.offset, filter.offset + filter.limit);
+  }
+
+  async suggest(prefix: string, viewer: VideoFilter["viewer"], limit: number): Promise<Suggestion[]> {
+    return this.suggestionIndex.suggest(prefix, limit, source => isListedFor(source, viewer));
+  }
+
+  private indexVideo(video: Video) {
+    const uploader = this.users.get(video.uploaderId);
+    this.searchIndex.add({
+      id: video.id,
+      title: video.title,
+      description: video.description,
+      tags: video.tags,
+      uploader: uploader ? `${uploader.displayName ?? ""} ${uploader.username}` : "",
+      captions: Array.from(this.captions.values())
+        .filter(caption => caption.videoId === video.id)
+        .map(caption => caption.text)
+        .join(" "),
+    });
+    this.suggestionIndex.add({
+      id: video.id,
+      title: video.title,
+      tags: video.tags,
+      uploaderId: video.uploaderId,
+      uploaderName: uploader ? uploader.displayName || uploader.username : "",
+      visibility: video.visibility,
+    });
+  }
+
+  private unindexVideo(id: number) {
+    this.searchIndex.remove(id);
+    this.suggestionIndex.remove(id);
+  }
+
+  async getVideosByUploader(uploaderId: number): Promise<Video[]> {
     return Array.from(this.videos.values())
-      .filter(video => video.category === category)
+      .filter(video => video.uploaderId === uploaderId)
       .sort((a, b) => new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime());
   }
 
+  async getUploaderStats(uploaderId: number): Promise<{ videoCount: number; totalViews: number }> {
+    const uploads = (await this.getVideosByUploader(uploaderId))
+      .filter(video => video.visibility === "public" && video.status === "ready");
+    return {
+      videoCount: uploads.length,
+      totalViews: uploads.reduce((sum, video) => sum + video.views, 0),
+    };
+  }
+
   async createVideo(insertVideo: InsertVideo): Promise<Video> {
     const id = this.nextVideoId++;
     const now = new Date();
@@ -144,9 +572,15 @@ export class MemStorage implements IStorage {
       id, 
       views: 0,
       uploadDate: now,
-      isEmbedded: false
+      isEmbedded: false,
+      status: "processing",
+      visibility: insertVideo.visibility ?? "public",
+      tags: this.ensureTags(insertVideo.tags ?? []),
+      likes: 0,
+      dislikes: 0
     };
     this.videos.set(id, video);
+    this.indexVideo(video);
     return video;
   }
   
@@ -160,9 +594,15 @@ export class MemStorage implements IStorage {
       uploadDate: now,
       isEmbedded: true,
       fileName: null,
-      filePath: null
+      filePath: null,
+      status: "ready",
+      visibility: insertVideo.visibility ?? "public",
+      tags: this.ensureTags(insertVideo.tags ?? []),
+      likes: 0,
+      dislikes: 0
     };
     this.videos.set(id, video);
+    this.indexVideo(video);
     return video;
   }
 
@@ -170,45 +610,871 @@ export class MemStorage implements IStorage {
     const existingVideo = this.videos.get(id);
     if (!existingVideo) return undefined;
 
-    const updatedVideo = { ...existingVideo, ...updates };
+    const updatedVideo = {
+      ...existingVideo,
+      ...updates,
+      tags: updates.tags ? this.ensureTags(updates.tags) : existingVideo.tags,
+    };
     this.videos.set(id, updatedVideo);
+    this.indexVideo(updatedVideo);
     return updatedVideo;
   }
 
-  async deleteVideo(id: number): Promise<boolean> {
-    return this.videos.delete(id);
-  }
-
-  async incrementViews(id: number): Promise<Video | undefined> {
+  async setVideoStatus(id: number, status: VideoStatus): Promise<Video | undefined> {
     const video = this.videos.get(id);
     if (!video) return undefined;
 
-    const updatedVideo = { ...video, views: video.views + 1 };
+    const updatedVideo = { ...video, status };
     this.videos.set(id, updatedVideo);
     return updatedVideo;
   }
 
-  async searchVideos(query: string): Promise<Video[]> {
-    const lowerQuery = query.toLowerCase();
-    return Array.from(this.videos.values())
-      .filter(video => 
-        video.title.toLowerCase().includes(lowerQuery) || 
-        (video.description && video.description.toLowerCase().includes(lowerQuery))
-      )
-      .sort((a, b) => new Date(b.uploadDate).getTime() - new Date(a.uploadDate).getTime());
+  async deleteVideo(id: number): Promise<boolean> {
+    this.deleteReactionsForVideo(id);
+    this.deleteCommentsForVideo(id);
+    this.deletePlaylistItemsForVideo(id);
+    this.deleteWatchHistoryForVideo(id);
+    this.deleteViewEventsForVideo(id);
+    this.deleteCaptionsForVideo(id);
+    this.deleteSharesForVideo(id);
+    this.unindexVideo(id);
+    return this.videos.delete(id);
+  }
+
+  async reassignVideos(fromUploaderId: number, toUploaderId: number): Promise<number> {
+    let moved = 0;
+    this.videos.forEach((video, id) => {
+      if (video.uploaderId === fromUploaderId) {
+        const movedVideo = { ...video, uploaderId: toUploaderId };
+        this.videos.set(id, movedVideo);
+        this.indexVideo(movedVideo);
+        moved++;
+      }
+    });
+    return moved;
+  }
+
+  async deleteVideosByUploader(uploaderId: number): Promise<Video[]> {
+    const deleted = Array.from(this.videos.values()).filter(video => video.uploaderId === uploaderId);
+    deleted.forEach(video => {
+      this.deleteReactionsForVideo(video.id);
+      this.deleteCommentsForVideo(video.id);
+      this.deletePlaylistItemsForVideo(video.id);
+      this.deleteWatchHistoryForVideo(video.id);
+      this.deleteViewEventsForVideo(video.id);
+      this.deleteCaptionsForVideo(video.id);
+      this.deleteSharesForVideo(video.id);
+      this.unindexVideo(video.id);
+      this.videos.delete(video.id);
+    });
+    return deleted;
   }
 
   // Category methods
   async getAllCategories(): Promise<Category[]> {
-    return Array.from(this.categories.values());
+    return Array.from(this.categories.values())
+      .sort((a, b) => a.position - b.position || a.id - b.id);
+  }
+
+  async getCategory(id: number): Promise<Category | undefined> {
+    return this.categories.get(id);
   }
 
   async createCategory(insertCategory: InsertCategory): Promise<Category> {
     const id = this.nextCategoryId++;
-    const category: Category = { ...insertCategory, id };
+    const positions = Array.from(this.categories.values()).map(category => category.position);
+    const category: Category = {
+      ...insertCategory,
+      description: insertCategory.description ?? null,
+      hidden: insertCategory.hidden ?? false,
+      position: insertCategory.position ?? (positions.length > 0 ? Math.max(...positions) + 1 : 0),
+      id,
+    };
     this.categories.set(id, category);
     return category;
   }
+
+  async updateCategory(id: number, data: Partial<InsertCategory>): Promise<Category | undefined> {
+    const category = this.categories.get(id);
+    if (!category) return undefined;
+
+    const updatedCategory = { ...category, ...data };
+    this.categories.set(id, updatedCategory);
+    if (updatedCategory.name !== category.name) {
+      this.recategorizeVideos(category.name, updatedCategory.name);
+    }
+    return updatedCategory;
+  }
+
+  async reorderCategories(ids: number[]): Promise<Category[]> {
+    ids.forEach((id, position) => {
+      const category = this.categories.get(id);
+      if (category) {
+        this.categories.set(id, { ...category, position });
+      }
+    });
+    return this.getAllCategories();
+  }
+
+  async deleteCategory(id: number, reassignTo: string | null): Promise<boolean> {
+    const category = this.categories.get(id);
+    if (!category) return false;
+
+    this.recategorizeVideos(category.name, reassignTo);
+    return this.categories.delete(id);
+  }
+
+  private recategorizeVideos(from: string, to: string | null) {
+    this.videos.forEach((video, id) => {
+      if (video.category === from) {
+        this.videos.set(id, { ...video, category: to });
+      }
+    });
+  }
+
+  // Tag methods
+  async getAllTags(): Promise<TagWithCount[]> {
+    const videos = Array.from(this.videos.values());
+    return Array.from(this.tags.values())
+      .map(tag => ({ ...tag, videoCount: videos.filter(video => video.tags.includes(tag.name)).length }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async getTag(id: number): Promise<Tag | undefined> {
+    return this.tags.get(id);
+  }
+
+  async getTagByName(name: string): Promise<Tag | undefined> {
+    return Array.from(this.tags.values()).find(tag => tag.name === name);
+  }
+
+  async renameTag(id: number, name: string): Promise<Tag | undefined> {
+    const tag = this.tags.get(id);
+    if (!tag) return undefined;
+
+    const renamed = { ...tag, name };
+    this.tags.set(id, renamed);
+    this.replaceVideoTag(tag.name, name);
+    return renamed;
+  }
+
+  async mergeTags(sourceId: number, targetId: number): Promise<Tag | undefined> {
+    const source = this.tags.get(sourceId);
+    const target = this.tags.get(targetId);
+    if (!source || !target) return undefined;
+
+    this.replaceVideoTag(source.name, target.name);
+    this.tags.delete(sourceId);
+    return target;
+  }
+
+  // Creates any tags that don't exist yet and returns the names sorted
+  private ensureTags(names: string[]): string[] {
+    const existing = new Set(Array.from(this.tags.values()).map(tag => tag.name));
+    names.forEach(name => {
+      if (existing.has(name)) return;
+      const id = this.nextTagId++;
+      this.tags.set(id, { id, name, createdAt: new Date() });
+      existing.add(name);
+    });
+    return Array.from(new Set(names)).sort();
+  }
+
+  private replaceVideoTag(from: string, to: string) {
+    this.videos.forEach((video, id) => {
+      if (!video.tags.includes(from)) return;
+      const tags = Array.from(new Set(video.tags.map(tag => tag === from ? to : tag))).sort();
+      const updatedVideo = { ...video, tags };
+      this.videos.set(id, updatedVideo);
+      this.indexVideo(updatedVideo);
+    });
+  }
+
+  // Invite methods
+  async getAllInvites(): Promise<Invite[]> {
+    return Array.from(this.invites.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getInviteByCode(code: string): Promise<Invite | undefined> {
+    return Array.from(this.invites.values()).find(invite => invite.code === code);
+  }
+
+  async createInvite(insertInvite: InsertInvite): Promise<Invite> {
+    const id = this.nextInviteId++;
+    const invite: Invite = {
+      ...insertInvite,
+      id,
+      expiresAt: insertInvite.expiresAt ?? null,
+      usedBy: null,
+      usedAt: null,
+      createdAt: new Date(),
+    };
+    this.invites.set(id, invite);
+    return invite;
+  }
+
+  async redeemInvite(code: string, userId: number): Promise<Invite | undefined> {
+    const invite = this.findRedeemableInvite(code);
+    if (!invite) return undefined;
+
+    const redeemed = { ...invite, usedBy: userId, usedAt: new Date() };
+    this.invites.set(invite.id, redeemed);
+    return redeemed;
+  }
+
+  async deleteInvite(id: number): Promise<boolean> {
+    return this.invites.delete(id);
+  }
+
+  // An unused, unexpired invite with this code
+  private findRedeemableInvite(code: string): Invite | undefined {
+    const invite = Array.from(this.invites.values()).find(invite => invite.code === code);
+    if (!invite || invite.usedBy !== null || (invite.expiresAt && invite.expiresAt <= new Date())) {
+      return undefined;
+    }
+    return invite;
+  }
+
+  // Share link methods
+  async createShare(insertShare: InsertShare): Promise<Share> {
+    const id = this.nextShareId++;
+    const share: Share = {
+      id,
+      videoId: insertShare.videoId,
+      token: insertShare.token,
+      createdBy: insertShare.createdBy,
+      passwordHash: insertShare.passwordHash ?? null,
+      expiresAt: insertShare.expiresAt ?? null,
+      maxViews: insertShare.maxViews ?? null,
+      views: 0,
+      revokedAt: null,
+      createdAt: new Date(),
+    };
+    this.shares.set(id, share);
+    return share;
+  }
+
+  async getShareByToken(token: string): Promise<Share | undefined> {
+    return Array.from(this.shares.values()).find(share => share.token === token);
+  }
+
+  async getSharesByVideo(videoId: number): Promise<Share[]> {
+    return Array.from(this.shares.values())
+      .filter(share => share.videoId === videoId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async revokeShare(id: number): Promise<Share | undefined> {
+    const share = this.shares.get(id);
+    if (!share) return undefined;
+
+    const revoked = { ...share, revokedAt: share.revokedAt ?? new Date() };
+    this.shares.set(id, revoked);
+    return revoked;
+  }
+
+  async recordShareView(id: number): Promise<Share | undefined> {
+    const share = this.shares.get(id);
+    if (!share || (share.maxViews !== null && share.views >= share.maxViews)) {
+      return undefined;
+    }
+
+    const updated = { ...share, views: share.views + 1 };
+    this.shares.set(id, updated);
+    return updated;
+  }
+
+  private deleteSharesForVideo(videoId: number) {
+    this.shares.forEach((share, id) => {
+      if (share.videoId === videoId) {
+        this.shares.delete(id);
+      }
+    });
+  }
+
+  // Reaction methods
+  async getReaction(userId: number, videoId: number): Promise<Reaction | undefined> {
+    return this.reactions.get(`${userId}:${videoId}`);
+  }
+
+  async setReaction(userId: number, videoId: number, type: ReactionType): Promise<Video | undefined> {
+    if (!this.videos.has(videoId)) return undefined;
+
+    const key = `${userId}:${videoId}`;
+    const existing = this.reactions.get(key);
+    if (existing?.type !== type) {
+      this.reactions.set(key, { userId, videoId, type, createdAt: new Date() });
+    }
+    return this.recountReactions(videoId);
+  }
+
+  async removeReaction(userId: number, videoId: number): Promise<Video | undefined> {
+    this.reactions.delete(`${userId}:${videoId}`);
+    return this.recountReactions(videoId);
+  }
+
+  async getLikedVideos(userId: number): Promise<Video[]> {
+    return Array.from(this.reactions.values())
+      .filter(reaction => reaction.userId === userId && reaction.type === "like")
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .map(reaction => this.videos.get(reaction.videoId))
+      .filter((video): video is Video => !!video);
+  }
+
+  private recountReactions(videoId: number): Video | undefined {
+    const video = this.videos.get(videoId);
+    if (!video) return undefined;
+
+    const reactions = Array.from(this.reactions.values()).filter(reaction => reaction.videoId === videoId);
+    const updatedVideo = {
+      ...video,
+      likes: reactions.filter(reaction => reaction.type === "like").length,
+      dislikes: reactions.filter(reaction => reaction.type === "dislike").length,
+    };
+    this.videos.set(videoId, updatedVideo);
+    return updatedVideo;
+  }
+
+  private deleteReactionsForVideo(videoId: number) {
+    this.reactions.forEach((reaction, key) => {
+      if (reaction.videoId === videoId) {
+        this.reactions.delete(key);
+      }
+    });
+  }
+
+  private deleteReactionsByUser(userId: number) {
+    const videoIds = new Set<number>();
+    this.reactions.forEach((reaction, key) => {
+      if (reaction.userId === userId) {
+        this.reactions.delete(key);
+        videoIds.add(reaction.videoId);
+      }
+    });
+    videoIds.forEach(videoId => this.recountReactions(videoId));
+  }
+
+  // Comment methods
+  async getComment(id: number): Promise<Comment | undefined> {
+    return this.comments.get(id);
+  }
+
+  async listComments(filter: CommentFilter): Promise<Comment[]> {
+    const { after } = filter;
+    const compare = (a: Comment, b: Comment) => {
+      if (filter.sort === "oldest") return a.id - b.id;
+      if (filter.sort === "top" && a.replyCount !== b.replyCount) return b.replyCount - a.replyCount;
+      return b.id - a.id;
+    };
+
+    return Array.from(this.comments.values())
+      .filter(comment =>
+        (filter.videoId === undefined || comment.videoId === filter.videoId) &&
+        (filter.parentId === undefined || comment.parentId === filter.parentId) &&
+        (filter.pinned === undefined || comment.pinned === filter.pinned) &&
+        (filter.deleted === undefined || (comment.deletedAt !== null) === filter.deleted)
+      )
+      .filter(comment => !after || compare(comment, { ...comment, ...after }) > 0)
+      .sort(compare)
+      .slice(0, filter.limit);
+  }
+
+  async createComment(insertComment: InsertComment): Promise<Comment> {
+    const id = this.nextCommentId++;
+    const comment: Comment = {
+      ...insertComment,
+      id,
+      parentId: insertComment.parentId ?? null,
+      pinned: false,
+      replyCount: 0,
+      editedAt: null,
+      deletedAt: null,
+      createdAt: new Date(),
+    };
+    this.comments.set(id, comment);
+
+    const parent = comment.parentId !== null ? this.comments.get(comment.parentId) : undefined;
+    if (parent) {
+      this.comments.set(parent.id, { ...parent, replyCount: parent.replyCount + 1 });
+    }
+    return comment;
+  }
+
+  async updateComment(id: number, updates: Partial<Pick<Comment, "body" | "editedAt" | "deletedAt">>): Promise<Comment | undefined> {
+    const comment = this.comments.get(id);
+    if (!comment) return undefined;
+
+    const updatedComment = { ...comment, ...updates };
+    this.comments.set(id, updatedComment);
+    return updatedComment;
+  }
+
+  async setCommentPinned(id: number, pinned: boolean): Promise<Comment | undefined> {
+    const comment = this.comments.get(id);
+    if (!comment) return undefined;
+
+    if (pinned) {
+      this.comments.forEach((other, otherId) => {
+        if (other.videoId === comment.videoId && other.pinned) {
+          this.comments.set(otherId, { ...other, pinned: false });
+        }
+      });
+    }
+
+    const updatedComment = { ...comment, pinned };
+    this.comments.set(id, updatedComment);
+    return updatedComment;
+  }
+
+  private deleteCommentsByUser(userId: number) {
+    const removed = Array.from(this.comments.values()).filter(comment => comment.userId === userId);
+    const removedIds = new Set(removed.map(comment => comment.id));
+    // Replies go with the thread they belong to
+    this.comments.forEach(comment => {
+      if (comment.parentId !== null && removedIds.has(comment.parentId) && !removedIds.has(comment.id)) {
+        removedIds.add(comment.id);
+      }
+    });
+
+    removedIds.forEach(id => this.comments.delete(id));
+    // Threads that stay lose the user's replies
+    removed.forEach(comment => {
+      const parent = comment.parentId !== null ? this.comments.get(comment.parentId) : undefined;
+      if (parent) {
+        this.comments.set(parent.id, { ...parent, replyCount: parent.replyCount - 1 });
+      }
+    });
+  }
+
+  private deleteCommentsForVideo(videoId: number) {
+    this.comments.forEach((comment, id) => {
+      if (comment.videoId === videoId) {
+        this.comments.delete(id);
+      }
+    });
+  }
+
+  // Playlist methods
+  async getPlaylist(id: number): Promise<Playlist | undefined> {
+    return this.playlists.get(id);
+  }
+
+  async getPlaylistsByOwner(ownerId: number, containingVideoId?: number): Promise<PlaylistSummary[]> {
+    const items = Array.from(this.playlistItems.values());
+    return Array.from(this.playlists.values())
+      .filter(playlist => playlist.ownerId === ownerId)
+      .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+      .map(playlist => ({
+        ...playlist,
+        videoCount: items.filter(item => item.playlistId === playlist.id).length,
+        containsVideo: this.playlistItems.has(`${playlist.id}:${containingVideoId}`),
+      }));
+  }
+
+  async getPlaylistVideos(playlistId: number): Promise<Video[]> {
+    return this.getPlaylistItems(playlistId)
+      .map(item => this.videos.get(item.videoId))
+      .filter((video): video is Video => !!video);
+  }
+
+  async createPlaylist(insertPlaylist: InsertPlaylist): Promise<Playlist> {
+    const id = this.nextPlaylistId++;
+    const now = new Date();
+    const playlist: Playlist = {
+      ...insertPlaylist,
+      id,
+      description: insertPlaylist.description ?? null,
+      visibility: insertPlaylist.visibility ?? "public",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.playlists.set(id, playlist);
+    return playlist;
+  }
+
+  async updatePlaylist(id: number, updates: Partial<Omit<InsertPlaylist, "ownerId">>): Promise<Playlist | undefined> {
+    const playlist = this.playlists.get(id);
+    if (!playlist) return undefined;
+
+    const updatedPlaylist = { ...playlist, ...updates, updatedAt: new Date() };
+    this.playlists.set(id, updatedPlaylist);
+    return updatedPlaylist;
+  }
+
+  async deletePlaylist(id: number): Promise<boolean> {
+    this.getPlaylistItems(id).forEach(item => this.playlistItems.delete(`${id}:${item.videoId}`));
+    return this.playlists.delete(id);
+  }
+
+  async addPlaylistVideo(playlistId: number, videoId: number): Promise<boolean> {
+    const key = `${playlistId}:${videoId}`;
+    if (this.playlistItems.has(key)) return false;
+
+    const positions = this.getPlaylistItems(playlistId).map(item => item.position);
+    this.playlistItems.set(key, {
+      playlistId,
+      videoId,
+      position: positions.length > 0 ? Math.max(...positions) + 1 : 0,
+      addedAt: new Date(),
+    });
+    this.touchPlaylist(playlistId);
+    return true;
+  }
+
+  async removePlaylistVideo(playlistId: number, videoId: number): Promise<boolean> {
+    const removed = this.playlistItems.delete(`${playlistId}:${videoId}`);
+    if (removed) this.touchPlaylist(playlistId);
+    return removed;
+  }
+
+  async reorderPlaylist(playlistId: number, videoIds: number[]): Promise<void> {
+    videoIds.forEach((videoId, position) => {
+      const key = `${playlistId}:${videoId}`;
+      const item = this.playlistItems.get(key);
+      if (item) {
+        this.playlistItems.set(key, { ...item, position });
+      }
+    });
+    this.touchPlaylist(playlistId);
+  }
+
+  private getPlaylistItems(playlistId: number): PlaylistItem[] {
+    return Array.from(this.playlistItems.values())
+      .filter(item => item.playlistId === playlistId)
+      .sort((a, b) => a.position - b.position);
+  }
+
+  private touchPlaylist(playlistId: number) {
+    const playlist = this.playlists.get(playlistId);
+    if (playlist) {
+      this.playlists.set(playlistId, { ...playlist, updatedAt: new Date() });
+    }
+  }
+
+  private deletePlaylistItemsForVideo(videoId: number) {
+    this.playlistItems.forEach((item, key) => {
+      if (item.videoId === videoId) {
+        this.playlistItems.delete(key);
+      }
+    });
+  }
+
+  // Watch history methods
+  async getWatchProgress(userId: number, videoId: number): Promise<WatchHistoryEntry | undefined> {
+    return this.watchHistory.get(`${userId}:${videoId}`);
+  }
+
+  async getAllWatchProgress(userId: number): Promise<WatchHistoryEntry[]> {
+    return Array.from(this.watchHistory.values())
+      .filter(entry => entry.userId === userId)
+      .sort((a, b) => b.watchedAt.getTime() - a.watchedAt.getTime() || b.videoId - a.videoId);
+  }
+
+  async listWatchHistory(userId: number, after: { watchedAt: Date; videoId: number } | undefined, limit: number): Promise<HistoryItem[]> {
+    const entries = (await this.getAllWatchProgress(userId)).filter(entry =>
+      !after ||
+      entry.watchedAt.getTime() < after.watchedAt.getTime() ||
+      (entry.watchedAt.getTime() === after.watchedAt.getTime() && entry.videoId < after.videoId)
+    );
+
+    const items: HistoryItem[] = [];
+    for (const { userId: _, ...entry } of entries) {
+      const video = this.videos.get(entry.videoId);
+      if (video) items.push({ ...entry, video });
+      if (items.length === limit) break;
+    }
+    return items;
+  }
+
+  async saveWatchProgress(userId: number, videoId: number, progress: Pick<WatchHistoryEntry, "position" | "duration">): Promise<WatchHistoryEntry> {
+    const entry: WatchHistoryEntry = { userId, videoId, ...progress, watchedAt: new Date() };
+    this.watchHistory.set(`${userId}:${videoId}`, entry);
+    return entry;
+  }
+
+  async removeWatchProgress(userId: number, videoId: number): Promise<boolean> {
+    return this.watchHistory.delete(`${userId}:${videoId}`);
+  }
+
+  async clearWatchHistory(userId: number): Promise<void> {
+    this.watchHistory.forEach((entry, key) => {
+      if (entry.userId === userId) {
+        this.watchHistory.delete(key);
+      }
+    });
+  }
+
+  private deleteWatchHistoryForVideo(videoId: number) {
+    this.watchHistory.forEach((entry, key) => {
+      if (entry.videoId === videoId) {
+        this.watchHistory.delete(key);
+      }
+    });
+  }
+
+  // View event methods
+  async createViewEvent(insertEvent: InsertViewEvent): Promise<ViewEvent> {
+    const id = this.nextViewEventId++;
+    const now = new Date();
+    const event: ViewEvent = {
+      ...insertEvent,
+      id,
+      watchedSeconds: 0,
+      counted: false,
+      startedAt: now,
+      lastHeartbeatAt: now,
+    };
+    this.viewEvents.set(id, event);
+    return event;
+  }
+
+  async getViewEvent(id: number): Promise<ViewEvent | undefined> {
+    return this.viewEvents.get(id);
+  }
+
+  async recordViewHeartbeat(id: number, watchedSeconds: number): Promise<ViewEvent | undefined> {
+    const event = this.viewEvents.get(id);
+    if (!event) return undefined;
+
+    const updated = {
+      ...event,
+      watchedSeconds: Math.max(event.watchedSeconds, watchedSeconds),
+      lastHeartbeatAt: new Date(),
+    };
+    this.viewEvents.set(id, updated);
+    return updated;
+  }
+
+  async hasCountedView(videoId: number, viewerKey: string, since: Date): Promise<boolean> {
+    return Array.from(this.viewEvents.values()).some(event =>
+      event.counted && event.videoId === videoId && event.viewerKey === viewerKey && event.startedAt >= since
+    );
+  }
+
+  async countView(id: number): Promise<Video | undefined> {
+    const event = this.viewEvents.get(id);
+    const video = event && this.videos.get(event.videoId);
+    if (!event || event.counted || !video) return undefined;
+
+    this.viewEvents.set(id, { ...event, counted: true });
+    const updatedVideo = { ...video, views: video.views + 1 };
+    this.videos.set(video.id, updatedVideo);
+    return updatedVideo;
+  }
+
+  async recountViews(): Promise<void> {
+    const counts = new Map<number, number>();
+    this.viewEvents.forEach(event => {
+      if (event.counted) {
+        counts.set(event.videoId, (counts.get(event.videoId) ?? 0) + 1);
+      }
+    });
+    this.videos.forEach((video, id) => {
+      this.videos.set(id, { ...video, views: counts.get(id) ?? 0 });
+    });
+  }
+
+  async getViewStats(since: Date, videoId?: number): Promise<ViewStats> {
+    const plays = Array.from(this.viewEvents.values()).filter(event =>
+      !event.isBot && event.startedAt >= since && (videoId === undefined || event.videoId === videoId)
+    );
+    const views = plays.filter(event => event.counted);
+
+    const viewsByDay = new Map<string, number>();
+    const trafficSources = Object.fromEntries(TRAFFIC_SOURCES.map(source => [source, 0])) as ViewStats["trafficSources"];
+    const devices = Object.fromEntries(DEVICE_CLASSES.map(device => [device, 0])) as ViewStats["devices"];
+    views.forEach(event => {
+      const date = event.startedAt.toISOString().slice(0, 10);
+      viewsByDay.set(date, (viewsByDay.get(date) ?? 0) + 1);
+      trafficSources[event.source]++;
+      devices[event.device]++;
+    });
+
+    return {
+      views: views.length,
+      plays: plays.length,
+      uniqueViewers: new Set(plays.map(event => event.viewerKey)).size,
+      averageWatchSeconds: plays.length > 0
+        ? plays.reduce((total, event) => total + event.watchedSeconds, 0) / plays.length
+        : 0,
+      viewsByDay: Array.from(viewsByDay, ([date, count]) => ({ date, views: count }))
+        .sort((a, b) => a.date.localeCompare(b.date)),
+      trafficSources,
+      devices,
+    };
+  }
+
+  async getViewRetention(videoId: number, since: Date, duration: number, buckets: number): Promise<number[]> {
+    const reached = new Array<number>(buckets + 1).fill(0);
+    this.viewEvents.forEach(event => {
+      if (event.isBot || event.videoId !== videoId || event.startedAt < since) return;
+      const last = Math.min(Math.floor((event.watchedSeconds / duration) * buckets), buckets);
+      for (let i = 0; i <= last; i++) {
+        reached[i]++;
+      }
+    });
+    return reached;
+  }
+
+  async getTopViewedVideos(since: Date, limit: number): Promise<{ video: Video; views: number }[]> {
+    const counts = new Map<number, number>();
+    this.viewEvents.forEach(event => {
+      if (event.counted && event.startedAt >= since) {
+        counts.set(event.videoId, (counts.get(event.videoId) ?? 0) + 1);
+      }
+    });
+
+    return Array.from(counts, ([id, views]) => ({ video: this.videos.get(id), views }))
+      .filter((entry): entry is { video: Video; views: number } => !!entry.video)
+      .sort((a, b) => b.views - a.views || a.video.id - b.video.id)
+      .slice(0, limit);
+  }
+
+  private deleteViewEventsForVideo(videoId: number) {
+    this.viewEvents.forEach((event, id) => {
+      if (event.videoId === videoId) {
+        this.viewEvents.delete(id);
+      }
+    });
+  }
+
+  // Caption methods
+  async getCaptionTracks(videoId: number): Promise<CaptionTrack[]> {
+    return Array.from(this.captions.values())
+      .filter(caption => caption.videoId === videoId)
+      .sort((a, b) => a.label.localeCompare(b.label))
+      .map(({ content: _content, text: _text, ...track }) => track);
+  }
+
+  async getCaption(videoId: number, language: string): Promise<Caption | undefined> {
+    return this.captions.get(`${videoId}:${language}`);
+  }
+
+  async saveCaption(insertCaption: InsertCaption): Promise<{ caption: Caption; created: boolean }> {
+    const key = `${insertCaption.videoId}:${insertCaption.language}`;
+    const existing = this.captions.get(key);
+    const caption: Caption = existing
+      ? { ...existing, ...insertCaption }
+      : { ...insertCaption, id: this.nextCaptionId++, createdAt: new Date() };
+    this.captions.set(key, caption);
+
+    const video = this.videos.get(caption.videoId);
+    if (video) this.indexVideo(video);
+    return { caption, created: !existing };
+  }
+
+  async deleteCaption(videoId: number, language: string): Promise<boolean> {
+    if (!this.captions.delete(`${videoId}:${language}`)) return false;
+
+    const video = this.videos.get(videoId);
+    if (video) this.indexVideo(video);
+    return true;
+  }
+
+  private deleteCaptionsForVideo(videoId: number) {
+    this.captions.forEach((caption, key) => {
+      if (caption.videoId === videoId) {
+        this.captions.delete(key);
+      }
+    });
+  }
+
+  // Job methods
+  async createJob(insertJob: InsertJob): Promise<Job> {
+    const id = this.nextJobId++;
+    const now = new Date();
+    const job: Job = {
+      ...insertJob,
+      id,
+      status: "queued",
+      attempts: 0,
+      maxAttempts: insertJob.maxAttempts ?? 3,
+      runAt: insertJob.runAt ?? now,
+      lastError: null,
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async getJobs(status?: JobStatus): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => !status || job.status === status)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async updateJob(id: number, updates: Partial<Omit<Job, "id" | "createdAt" | "updatedAt">>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...updates, updatedAt: new Date() };
+    this.jobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async claimNextJob(kinds: JobKind[]): Promise<Job | undefined> {
+    const now = Date.now();
+    const next = Array.from(this.jobs.values())
+      .filter(job => job.status === "queued" && kinds.includes(job.kind) && job.runAt.getTime() <= now)
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id)[0];
+    if (!next) return undefined;
+
+    return this.updateJob(next.id, { status: "running", attempts: next.attempts + 1 });
+  }
+
+  async requeueRunningJobs(): Promise<number> {
+    const running = Array.from(this.jobs.values()).filter(job => job.status === "running");
+    for (const job of running) {
+      await this.updateJob(job.id, { status: "queued" });
+    }
+    return running.length;
+  }
+
+  // Upload methods
+  async createUpload(insertUpload: InsertUpload): Promise<Upload> {
+    const upload: Upload = {
+      ...insertUpload,
+      offset: 0,
+      createdAt: new Date(),
+    };
+    this.uploads.set(upload.id, upload);
+    return upload;
+  }
+
+  async getUpload(id: string): Promise<Upload | undefined> {
+    return this.uploads.get(id);
+  }
+
+  async updateUploadOffset(id: string, offset: number): Promise<Upload | undefined> {
+    const upload = this.uploads.get(id);
+    if (!upload) return undefined;
+
+    const updatedUpload = { ...upload, offset };
+    this.uploads.set(id, updatedUpload);
+    return updatedUpload;
+  }
+
+  async deleteUpload(id: string): Promise<boolean> {
+    return this.uploads.delete(id);
+  }
+
+  async deleteExpiredUploads(): Promise<Upload[]> {
+    const now = Date.now();
+    const expired = Array.from(this.uploads.values()).filter(upload => upload.expiresAt.getTime() <= now);
+    for (const upload of expired) {
+      this.uploads.delete(upload.id);
+    }
+    return expired;
+  }
 }
 
-export const storage = new MemStorage();
+// Persist to Postgres when a database is provisioned, otherwise keep everything in memory
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DrizzleStorage(createDatabase(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -0,0 +1,65 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { Video, StreamSource } from "@shared/schema";
+
+// How long a minted stream URL stays valid. Players refresh well before this.
+export const STREAM_TOKEN_TTL_MS = 30 * 60 * 1000;
+
+// Without a configured secret, tokens are only valid until the server restarts
+const STREAM_TOKEN_SECRET = process.env.STREAM_TOKEN_SECRET || randomBytes(32).toString("hex");
+
+function sign(videoId: number, expiresAt: number): string {
+  return createHmac("sha256", STREAM_TOKEN_SECRET)
+    .update(`${videoId}.${expiresAt}`)
+    .digest("base64url");
+}
+
+// Tokens look like "<expiry in ms>.<signature>" and are bound to one video
+export function createStreamToken(videoId: number, expiresAt: number): string {
+  return `${expiresAt}.${sign(videoId, expiresAt)}`;
+}
+
+export function verifyStreamToken(videoId: number, token: unknown): boolean {
+  if (typeof token !== "string") return false;
+
+  const [expiry, signature] = token.split(".");
+  const expiresAt = Number(expiry);
+  if (!signature || !Number.isSafeInteger(expiresAt) || expiresAt < Date.now()) {
+    return false;
+  }
+
+  const expected = Buffer.from(sign(videoId, expiresAt));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// Mint fresh signed URLs for an uploaded video; embedded videos have none
+export function createStreamSource(video: Video): StreamSource | null {
+  if (video.isEmbedded) return null;
+
+  const expiresAt = Date.now() + STREAM_TOKEN_TTL_MS;
+  const token = encodeURIComponent(createStreamToken(video.id, expiresAt));
+  return {
+    url: `/api/stream/${video.id}?token=${token}`,
+    hlsUrl: video.status === "ready" ? `/api/hls/${video.id}/master.m3u8?token=${token}` : null,
+    expiresAt: new Date(expiresAt),
+  };
+}
+
+// Carry the token onto every URI in an HLS playlist so players that fetch
+// renditions and segments themselves stay authorised
+export function signPlaylist(playlist: string, token: string): string {
+  const query = `token=${encodeURIComponent(token)}`;
+  const withToken = (uri: string) => `${uri}${uri.includes("?") ? "&" : "?"}${query}`;
+
+  return playlist
+    .split("\n")
+    .map((line) => {
+      const trimmed = line.trim();
+      if (trimmed === "") return line;
+      if (trimmed.startsWith("#")) {
+        return line.replace(/URI="([^"]*)"/g, (_match, uri) => `URI="${withToken(uri)}"`);
+      }
+      return withToken(trimmed);
+    })
+    .join("\n");
+}
@@ -0,0 +1,107 @@
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+import { v4 as uuidv4 } from "uuid";
+import { Upload } from "@shared/schema";
+import { storage } from "./storage";
+import { uploadsDir, getPartialUploadPath } from "./paths";
+import { log } from "./vite";
+
+// Unfinished uploads can be resumed for a day before they are discarded
+export const UPLOAD_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Largest chunk accepted in a single PATCH request
+export const MAX_CHUNK_SIZE = 16 * 1024 * 1024;
+
+// Uploads with a chunk currently being written; a second writer would race the first
+const busyUploads = new Set<string>();
+
+export class UploadConflictError extends Error {}
+
+// Parse a tus-style "Upload-Checksum: sha256 <base64 digest>" header
+export function parseChecksumHeader(header: string | undefined): { algorithm: string; digest: string } | null {
+  const [algorithm, digest] = header?.trim().split(/\s+/) ?? [];
+  if (!algorithm || !digest) return null;
+  return { algorithm: algorithm.toLowerCase(), digest };
+}
+
+export function sha256Base64(data: Buffer): string {
+  return createHash("sha256").update(data).digest("base64");
+}
+
+export async function createUploadSession(
+  userId: number,
+  file: Pick<Upload, "fileName" | "mimeType" | "size" | "videoData">,
+): Promise<Upload> {
+  const upload = await storage.createUpload({
+    ...file,
+    id: uuidv4(),
+    userId,
+    expiresAt: new Date(Date.now() + UPLOAD_TTL_MS),
+  });
+  await fs.promises.writeFile(getPartialUploadPath(upload.id), "");
+  return upload;
+}
+
+// Append a chunk at the upload's current offset. Anything past the recorded
+// offset (left by a write that failed midway) is truncated first, so a
+// retried chunk never duplicates bytes.
+export async function appendChunk(upload: Upload, chunk: Buffer): Promise<Upload> {
+  if (busyUploads.has(upload.id)) {
+    throw new UploadConflictError("Another chunk is already being written");
+  }
+  busyUploads.add(upload.id);
+
+  try {
+    const partialPath = getPartialUploadPath(upload.id);
+    await fs.promises.truncate(partialPath, upload.offset);
+    await fs.promises.appendFile(partialPath, chunk);
+
+    const updated = await storage.updateUploadOffset(upload.id, upload.offset + chunk.length);
+    if (!updated) {
+      throw new UploadConflictError("Upload was cancelled");
+    }
+    return updated;
+  } finally {
+    busyUploads.delete(upload.id);
+  }
+}
+
+// Move a fully received upload into uploadsDir and forget the session
+export async function finalizeUpload(upload: Upload): Promise<string> {
+  if (busyUploads.has(upload.id)) {
+    throw new UploadConflictError("A chunk is still being written");
+  }
+
+  const filePath = path.join(uploadsDir, `${uuidv4()}-${path.basename(upload.fileName)}`);
+  await fs.promises.rename(getPartialUploadPath(upload.id), filePath);
+  await storage.deleteUpload(upload.id);
+  return filePath;
+}
+
+export async function discardUpload(upload: Upload): Promise<void> {
+  await storage.deleteUpload(upload.id);
+  await fs.promises.rm(getPartialUploadPath(upload.id), { force: true });
+}
+
+async function purgeExpiredUploads(): Promise<void> {
+  const expired = await storage.deleteExpiredUploads();
+  for (const upload of expired) {
+    await fs.promises.rm(getPartialUploadPath(upload.id), { force: true });
+  }
+  if (expired.length > 0) {
+    log(`Discarded ${expired.length} expired upload(s)`, "uploads");
+  }
+}
+
+// Periodically remove abandoned uploads and their partial files
+export function startUploadCleanup(intervalMs = 60 * 60 * 1000): void {
+  const purge = () => {
+    purgeExpiredUploads().catch((error) => {
+      log(`Upload cleanup error: ${error}`, "uploads");
+    });
+  };
+
+  purge();
+  setInterval(purge, intervalMs).unref();
+}
@@ -0,0 +1,68 @@
+import { createHmac, randomBytes } from "crypto";
+import type { Request } from "express";
+import { Video, DeviceClass } from "@shared/schema";
+import { createRateLimiter } from "./rateLimit";
+
+// A play counts as a view once this much of it has been watched, or half
+// the video if it's shorter than twice this
+export const MIN_VIEW_SECONDS = 30;
+
+// A viewer adds at most one view per video in this window
+export const VIEW_DEDUPE_WINDOW_MS = 30 * 60 * 1000;
+
+// Heartbeats can't claim more watch time than has passed since the play
+// started, give or take this much for network delay
+const HEARTBEAT_SLACK_SECONDS = 5;
+
+// Each IP may start this many plays per window before getting 429s
+const VIEW_START_LIMIT = 20;
+const VIEW_START_WINDOW_MS = 60 * 1000;
+
+// Without a configured secret, anonymous viewer keys change when the server
+// restarts, which only weakens deduplication across the restart
+const VIEWER_KEY_SECRET = process.env.VIEWER_KEY_SECRET || randomBytes(32).toString("hex");
+
+// Crawlers, link previewers and command-line clients. A missing user agent is treated as a bot too.
+const BOT_USER_AGENT = /bot|crawl|spider|slurp|preview|facebookexternalhit|headless|phantom|lighthouse|curl|wget|python|httpclient|okhttp|go-http|java\//i;
+
+export function isBotUserAgent(userAgent: string | undefined): boolean {
+  return !userAgent || BOT_USER_AGENT.test(userAgent);
+}
+
+// Android tablets leave "Mobile" out of their user agent
+export function getDeviceClass(userAgent: string | undefined): DeviceClass {
+  if (!userAgent) return "desktop";
+  if (/ipad|tablet|kindle|silk|playbook/i.test(userAgent) || (/android/i.test(userAgent) && !/mobile/i.test(userAgent))) {
+    return "tablet";
+  }
+  if (/mobi|iphone|ipod|android|blackberry|opera mini|iemobile/i.test(userAgent)) {
+    return "mobile";
+  }
+  return "desktop";
+}
+
+// Identifies the viewer for deduplication without storing anonymous viewers' IPs.
+// Behind a proxy, req.ip is only the client's address when TRUST_PROXY is set (see index.ts).
+export function getViewerKey(req: Request): string {
+  if (req.session.user) {
+    return `user:${req.session.user.id}`;
+  }
+  const hash = createHmac("sha256", VIEWER_KEY_SECRET)
+    .update(`${req.ip}|${req.get("user-agent") ?? ""}`)
+    .digest("base64url");
+  return `anon:${hash}`;
+}
+
+export function requiredWatchSeconds(video: Video): number {
+  return video.duration ? Math.min(MIN_VIEW_SECONDS, video.duration / 2) : MIN_VIEW_SECONDS;
+}
+
+// What a heartbeat's claimed watch time is worth: never more than the time
+// that has actually passed since the play started
+export function creditedWatchSeconds(claimed: number, startedAt: Date): number {
+  const elapsed = (Date.now() - startedAt.getTime()) / 1000;
+  return Math.min(claimed, elapsed + HEARTBEAT_SLACK_SECONDS);
+}
+
+// Plays started per client IP
+export const allowViewStart = createRateLimiter(VIEW_START_LIMIT, VIEW_START_WINDOW_MS);
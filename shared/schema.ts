@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, real, primaryKey, index, uniqueIndex, customType } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,6 +8,12 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   isAdmin: boolean("is_admin").notNull().default(false),
+  isDisabled: boolean("is_disabled").notNull().default(false),
+  mustChangePassword: boolean("must_change_password").notNull().default(false),
+  displayName: text("display_name"),
+  avatarUrl: text("avatar_url"),
+  bio: text("bio"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -16,6 +22,18 @@ export const insertUserSchema = createInsertSchema(users).pick({
   isAdmin: true,
 });
 
+export const VIDEO_STATUSES = ["processing", "ready", "failed"] as const;
+export type VideoStatus = typeof VIDEO_STATUSES[number];
+
+// Orders GET /api/videos can return: newest, oldest, most viewed, longest, title A-Z
+export const VIDEO_SORTS = ["newest", "oldest", "views", "duration", "title"] as const;
+export type VideoSort = typeof VIDEO_SORTS[number];
+
+// Unlisted videos are playable by anyone with the link but kept out of
+// listings; private videos are only available to their uploader and admins
+export const VIDEO_VISIBILITIES = ["public", "unlisted", "private"] as const;
+export type VideoVisibility = typeof VIDEO_VISIBILITIES[number];
+
 // Videos table
 export const videos = pgTable("videos", {
   id: serial("id").primaryKey(),
@@ -31,40 +49,692 @@ export const videos = pgTable("videos", {
   views: integer("views").notNull().default(0),
   uploadDate: timestamp("upload_date").notNull().defaultNow(),
   duration: integer("duration"),
+  // Media metadata probed from the uploaded file
+  width: integer("width"),
+  height: integer("height"),
+  videoCodec: text("video_codec"),
+  audioCodec: text("audio_codec"),
+  bitrate: integer("bitrate"),
+  frameRate: real("frame_rate"),
+  container: text("container"),
+  // HLS transcoding state; the original upload stays streamable meanwhile
+  status: text("status").$type<VideoStatus>().notNull().default("ready"),
+  visibility: text("visibility").$type<VideoVisibility>().notNull().default("public"),
+  // Denormalised from the reactions table so listings don't need to aggregate
+  likes: integer("likes").notNull().default(0),
+  dislikes: integer("dislikes").notNull().default(0),
 });
 
+// Tags are many-to-many with videos. Names are stored lowercase with single
+// spaces, and can't contain commas so a list of them fits in one form field.
+export const tags = pgTable("tags", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const videoTags = pgTable("video_tags", {
+  videoId: integer("video_id").notNull(),
+  tagId: integer("tag_id").notNull(),
+}, (table) => [
+  primaryKey({ columns: [table.videoId, table.tagId] }),
+  index("video_tags_tag_id_idx").on(table.tagId),
+]);
+
+export const MAX_TAGS_PER_VIDEO = 10;
+const TAG_NAME_PATTERN = new RegExp("^[\\p{L}\\p{N}][\\p{L}\\p{N} _-]*$", "u");
+
+export const tagNameSchema = z.string()
+  .trim()
+  .toLowerCase()
+  .min(1, { message: "Tag cannot be empty" })
+  .max(30, { message: "Tags must be at most 30 characters" })
+  .regex(TAG_NAME_PATTERN, { message: "Tags may only contain letters, numbers, spaces, hyphens and underscores" })
+  .transform(name => name.replace(/\s+/g, " "));
+
+// Accepts an array or a comma-separated string (multipart forms, query strings)
+export const videoTagsSchema = z.preprocess(
+  value => typeof value === "string" ? value.split(",").filter(name => name.trim()) : value,
+  z.array(tagNameSchema).max(MAX_TAGS_PER_VIDEO, { message: `A video can have at most ${MAX_TAGS_PER_VIDEO} tags` }),
+).transform(names => Array.from(new Set(names)));
+
 export const insertVideoSchema = createInsertSchema(videos).omit({
   id: true,
   views: true,
   uploadDate: true,
+  status: true,
+  likes: true,
+  dislikes: true,
+}).extend({
+  visibility: z.enum(VIDEO_VISIBILITIES).optional(),
+  tags: videoTagsSchema.optional(),
 });
 
-// Categories for videos
+// Weighted full-text documents for Postgres search, one per video. Kept apart
+// from videos so the tsvector never ends up in API responses.
+const tsvector = customType<{ data: string }>({
+  dataType() {
+    return "tsvector";
+  },
+});
+
+export const videoSearch = pgTable("video_search", {
+  videoId: integer("video_id").primaryKey(),
+  document: tsvector("document").notNull(),
+}, (table) => [
+  index("video_search_document_idx").using("gin", table.document),
+]);
+
+// Categories for videos. Videos refer to them by name. Hidden categories are
+// left out of the public list, and position orders the category tabs.
 export const categories = pgTable("categories", {
   id: serial("id").primaryKey(),
   name: text("name").notNull().unique(),
+  slug: text("slug").notNull().unique(),
+  description: text("description"),
+  position: integer("position").notNull().default(0),
+  hidden: boolean("hidden").notNull().default(false),
 });
 
 export const insertCategorySchema = createInsertSchema(categories).omit({
   id: true,
 });
 
+// Site-wide settings stored as JSON documents keyed by name (e.g. "theme")
+export const settings = pgTable("settings", {
+  key: text("key").primaryKey(),
+  value: jsonb("value").notNull(),
+});
+
+// Invite codes for invite-only registration
+export const invites = pgTable("invites", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  createdBy: integer("created_by").notNull(),
+  usedBy: integer("used_by"),
+  usedAt: timestamp("used_at"),
+  expiresAt: timestamp("expires_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertInviteSchema = createInsertSchema(invites).pick({
+  code: true,
+  createdBy: true,
+  expiresAt: true,
+});
+
+// Share links give access to a single video, including unlisted and private
+// ones, until they expire, run out of views or are revoked
+export const shares = pgTable("shares", {
+  id: serial("id").primaryKey(),
+  videoId: integer("video_id").notNull(),
+  token: text("token").notNull().unique(),
+  createdBy: integer("created_by").notNull(),
+  passwordHash: text("password_hash"),
+  expiresAt: timestamp("expires_at"),
+  maxViews: integer("max_views"),
+  views: integer("views").notNull().default(0),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertShareSchema = createInsertSchema(shares).pick({
+  videoId: true,
+  token: true,
+  createdBy: true,
+  passwordHash: true,
+  expiresAt: true,
+  maxViews: true,
+});
+
+// A signed-in user's like or dislike of a video; at most one per user and video
+export const REACTION_TYPES = ["like", "dislike"] as const;
+export type ReactionType = typeof REACTION_TYPES[number];
+
+export const reactions = pgTable("reactions", {
+  userId: integer("user_id").notNull(),
+  videoId: integer("video_id").notNull(),
+  type: text("type").$type<ReactionType>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.videoId] }),
+]);
+
+// Comments on videos. Replies hang off a top-level comment (parentId), deleted
+// comments keep their place in the thread and uploaders can pin one per video.
+export const COMMENT_SORTS = ["newest", "top"] as const;
+export type CommentSort = typeof COMMENT_SORTS[number];
+
+export const comments = pgTable("comments", {
+  id: serial("id").primaryKey(),
+  videoId: integer("video_id").notNull(),
+  userId: integer("user_id").notNull(),
+  parentId: integer("parent_id"),
+  body: text("body").notNull(),
+  pinned: boolean("pinned").notNull().default(false),
+  replyCount: integer("reply_count").notNull().default(0),
+  editedAt: timestamp("edited_at"),
+  deletedAt: timestamp("deleted_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertCommentSchema = createInsertSchema(comments).pick({
+  videoId: true,
+  userId: true,
+  parentId: true,
+  body: true,
+});
+
+// User-curated lists of videos, played in position order. Visibility works as
+// it does for videos: unlisted playlists open for anyone with the link.
+export const playlists = pgTable("playlists", {
+  id: serial("id").primaryKey(),
+  ownerId: integer("owner_id").notNull(),
+  title: text("title").notNull(),
+  description: text("description"),
+  visibility: text("visibility").$type<VideoVisibility>().notNull().default("public"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+}, (table) => [
+  index("playlists_owner_id_idx").on(table.ownerId),
+]);
+
+export const playlistItems = pgTable("playlist_items", {
+  playlistId: integer("playlist_id").notNull(),
+  videoId: integer("video_id").notNull(),
+  position: integer("position").notNull(),
+  addedAt: timestamp("added_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.playlistId, table.videoId] }),
+  index("playlist_items_video_id_idx").on(table.videoId),
+]);
+
+// How far each signed-in user got in each video they opened, in seconds.
+// Anonymous viewers keep the same records in their browser instead.
+export const watchHistory = pgTable("watch_history", {
+  userId: integer("user_id").notNull(),
+  videoId: integer("video_id").notNull(),
+  position: real("position").notNull(),
+  // As reported by the player; 0 for embedded videos, whose position can't be read
+  duration: real("duration").notNull(),
+  watchedAt: timestamp("watched_at").notNull().defaultNow(),
+}, (table) => [
+  primaryKey({ columns: [table.userId, table.videoId] }),
+  index("watch_history_user_id_watched_at_idx").on(table.userId, table.watchedAt),
+]);
+
+// How a viewer arrived at a video. "embed" means the player was framed by another site.
+export const TRAFFIC_SOURCES = ["direct", "share", "embed", "search"] as const;
+export type TrafficSource = typeof TRAFFIC_SOURCES[number];
+
+export const DEVICE_CLASSES = ["desktop", "mobile", "tablet"] as const;
+export type DeviceClass = typeof DEVICE_CLASSES[number];
+
+// Every play the player reports, kept raw so view counts can be recomputed.
+// An event adds to the video's view count once it qualifies (see server/views.ts).
+export const viewEvents = pgTable("view_events", {
+  id: serial("id").primaryKey(),
+  videoId: integer("video_id").notNull(),
+  // "user:<id>" for signed-in viewers, otherwise a salted hash of IP and user agent
+  viewerKey: text("viewer_key").notNull(),
+  userAgent: text("user_agent"),
+  isBot: boolean("is_bot").notNull().default(false),
+  source: text("source").$type<TrafficSource>().notNull().default("direct"),
+  device: text("device").$type<DeviceClass>().notNull().default("desktop"),
+  watchedSeconds: real("watched_seconds").notNull().default(0),
+  counted: boolean("counted").notNull().default(false),
+  startedAt: timestamp("started_at").notNull().defaultNow(),
+  lastHeartbeatAt: timestamp("last_heartbeat_at").notNull().defaultNow(),
+}, (table) => [
+  index("view_events_video_id_viewer_key_idx").on(table.videoId, table.viewerKey),
+  index("view_events_video_id_started_at_idx").on(table.videoId, table.startedAt),
+]);
+
+// Subtitle and caption tracks, one per language per video. SRT uploads are
+// converted, so content is always WebVTT; text is the cue text alone, for search.
+export const captions = pgTable("captions", {
+  id: serial("id").primaryKey(),
+  videoId: integer("video_id").notNull(),
+  // BCP 47 language tag, e.g. "en" or "pt-BR"
+  language: text("language").notNull(),
+  label: text("label").notNull(),
+  content: text("content").notNull(),
+  text: text("text").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => [
+  uniqueIndex("captions_video_id_language_idx").on(table.videoId, table.language),
+]);
+
+// Background jobs for media processing. Persisted so queued work survives restarts.
+export const JOB_KINDS = ["probe", "thumbnail", "transcode"] as const;
+export const JOB_STATUSES = ["queued", "running", "completed", "failed", "cancelled"] as const;
+export type JobKind = typeof JOB_KINDS[number];
+export type JobStatus = typeof JOB_STATUSES[number];
+
+// Payload carried by each kind of job
+export type JobPayloads = {
+  probe: { videoId: number };
+  thumbnail: { videoId: number; atSeconds?: number };
+  transcode: { videoId: number };
+};
+export type JobPayload = JobPayloads[JobKind];
+
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").$type<JobKind>().notNull(),
+  payload: jsonb("payload").$type<JobPayload>().notNull(),
+  status: text("status").$type<JobStatus>().notNull().default("queued"),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(3),
+  runAt: timestamp("run_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = Pick<typeof jobs.$inferInsert, "kind" | "payload" | "maxAttempts" | "runAt">;
+
+// Resumable upload sessions. Chunks are appended to a partial file until
+// `offset` reaches `size`, then the upload is completed into a video.
+export const MAX_UPLOAD_SIZE = 500 * 1024 * 1024;
+
+export type UploadVideoData = Pick<InsertVideo, "title" | "description" | "category" | "visibility" | "tags">;
+
+export const uploads = pgTable("uploads", {
+  id: text("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  fileName: text("file_name").notNull(),
+  mimeType: text("mime_type").notNull(),
+  size: integer("size").notNull(),
+  offset: integer("offset").notNull().default(0),
+  videoData: jsonb("video_data").$type<UploadVideoData>().notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+});
+
+export type Upload = typeof uploads.$inferSelect;
+export type InsertUpload = Omit<typeof uploads.$inferInsert, "offset" | "createdAt">;
+
 // Type definitions
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type SafeUser = Omit<User, "password">;
+
+// What anyone can see about an uploader on their channel page
+export type PublicProfile = {
+  id: number;
+  username: string;
+  displayName: string | null;
+  avatarUrl: string | null;
+  bio: string | null;
+  joinedAt: Date;
+  videoCount: number;
+  totalViews: number;
+};
 
-export type Video = typeof videos.$inferSelect;
+// Storage attaches the names of a video's tags, sorted
+export type Video = typeof videos.$inferSelect & { tags: string[] };
 export type InsertVideo = z.infer<typeof insertVideoSchema>;
 
+export type Tag = typeof tags.$inferSelect;
+export type TagWithCount = Tag & { videoCount: number };
+
+// Signed, short-lived URLs for playing an uploaded video. hlsUrl is set once
+// transcoding has finished.
+export type StreamSource = {
+  url: string;
+  hlsUrl: string | null;
+  expiresAt: Date;
+};
+
+// One page of GET /api/videos; pass nextCursor back as ?cursor= to continue
+export type VideoListPage = { videos: Video[]; nextCursor: string | null };
+
+// Text with the character ranges that matched a search query
+export type HighlightedText = { text: string; matches: [number, number][] };
+
+export type SearchResult = {
+  video: Video;
+  score: number;
+  title: HighlightedText;
+  // A stretch of the description around the first match
+  snippet: HighlightedText | null;
+};
+
+export type SearchResultPage = { results: SearchResult[]; nextCursor: string | null };
+
+export const SUGGESTION_TYPES = ["title", "tag", "channel"] as const;
+export type SuggestionType = typeof SUGGESTION_TYPES[number];
+
+// A completion for the search box. Channel suggestions carry the channel's user id.
+export type Suggestion = { type: SuggestionType; text: string; channelId: number | null };
+
+// Returned by GET /api/videos/:id, along with the viewer's own reaction
+export type VideoWithStream = Video & { stream: StreamSource | null; reaction: ReactionType | null };
+
+export type WatchHistoryEntry = typeof watchHistory.$inferSelect;
+export type WatchProgress = Omit<WatchHistoryEntry, "userId">;
+export type HistoryItem = WatchProgress & { video: Video };
+// Most recently watched first
+export type HistoryPage = { items: HistoryItem[]; nextCursor: string | null };
+
+export type ViewEvent = typeof viewEvents.$inferSelect;
+export type InsertViewEvent = Pick<ViewEvent, "videoId" | "viewerKey" | "userAgent" | "isBot" | "source" | "device">;
+// Returned by each view heartbeat; pass viewId back with the next one
+export type ViewHeartbeat = { viewId: number; counted: boolean; views: number };
+
+// Aggregated view events over a period, bots excluded. "Plays" are all
+// reported plays; "views" only those that qualified. Traffic sources and
+// devices break down views.
+export type ViewStats = {
+  views: number;
+  plays: number;
+  uniqueViewers: number;
+  averageWatchSeconds: number;
+  // One entry per UTC day, oldest first; dates are YYYY-MM-DD
+  viewsByDay: { date: string; views: number }[];
+  trafficSources: Record<TrafficSource, number>;
+  devices: Record<DeviceClass, number>;
+};
+
+// Share of plays still watching at each percent of the video
+export type RetentionPoint = { percent: number; viewers: number };
+
+export type VideoAnalytics = ViewStats & {
+  videoId: number;
+  days: number;
+  // Includes views counted before view events were recorded
+  lifetimeViews: number;
+  // Null when the video's length isn't known, as for embedded videos
+  retention: RetentionPoint[] | null;
+};
+
+export type SiteAnalytics = ViewStats & {
+  days: number;
+  topVideos: { video: Video; views: number }[];
+};
+
+export type Caption = typeof captions.$inferSelect;
+// What the player lists; the file itself is fetched by the <track> element
+export type CaptionTrack = Omit<Caption, "content" | "text">;
+export type InsertCaption = Pick<Caption, "videoId" | "language" | "label" | "content" | "text">;
+
+export type Reaction = typeof reactions.$inferSelect;
+
+export type Comment = typeof comments.$inferSelect;
+export type InsertComment = z.infer<typeof insertCommentSchema>;
+
+// A comment as shown in a thread. Deleted comments lose their body and author.
+export type CommentView = Omit<Comment, "deletedAt"> & {
+  deleted: boolean;
+  author: Pick<PublicProfile, "id" | "username" | "displayName" | "avatarUrl"> | null;
+};
+
+// One page of comments; pass nextCursor back as ?cursor= to continue
+export type CommentPage = { comments: CommentView[]; nextCursor: string | null };
+
+// Comments in the admin moderation queue keep their body even when deleted
+export type ModeratedComment = CommentView & { videoTitle: string | null };
+export type ModeratedCommentPage = { comments: ModeratedComment[]; nextCursor: string | null };
+
+// Returned after a reaction changes so clients can reconcile optimistic counts
+export type ReactionSummary = Pick<Video, "likes" | "dislikes"> & { reaction: ReactionType | null };
+
+export type Playlist = typeof playlists.$inferSelect;
+export type PlaylistItem = typeof playlistItems.$inferSelect;
+export type InsertPlaylist = Pick<typeof playlists.$inferInsert, "ownerId" | "title" | "description" | "visibility">;
+// containsVideo answers "is this video already in it?" for the add-to-playlist menu
+export type PlaylistSummary = Playlist & { videoCount: number; containsVideo: boolean };
+export type PlaylistWithVideos = Playlist & { videos: Video[] };
+
 export type Category = typeof categories.$inferSelect;
 export type InsertCategory = z.infer<typeof insertCategorySchema>;
 
+export type Invite = typeof invites.$inferSelect;
+export type InsertInvite = z.infer<typeof insertInviteSchema>;
+
+export type Share = typeof shares.$inferSelect;
+export type InsertShare = z.infer<typeof insertShareSchema>;
+
+// What uploaders see about their share links; the password hash stays on the server
+export type ShareLink = Omit<Share, "passwordHash"> & { hasPassword: boolean };
+
 // Extended schemas with validation
 export const loginSchema = z.object({
   username: z.string().min(3, { message: "Username must be at least 3 characters" }),
   password: z.string().min(6, { message: "Password must be at least 6 characters" }),
 });
 
+const usernameSchema = z.string()
+  .min(3, { message: "Username must be at least 3 characters" })
+  .max(32, { message: "Username must be at most 32 characters" })
+  .regex(/^[a-zA-Z0-9_.-]+$/, { message: "Username may only contain letters, numbers, dots, dashes and underscores" });
+
+// Public sign-up never accepts isAdmin from the client
+export const registerSchema = insertUserSchema.pick({
+  username: true,
+  password: true,
+}).extend({
+  username: usernameSchema,
+  password: z.string().min(6, { message: "Password must be at least 6 characters" }),
+  confirmPassword: z.string().min(6, { message: "Confirm password must be at least 6 characters" }),
+  inviteCode: z.string().optional(),
+}).refine((data) => data.password === data.confirmPassword, {
+  message: "Passwords don't match",
+  path: ["confirmPassword"],
+});
+
+export const createUploadSchema = z.object({
+  fileName: z.string().min(1).max(255),
+  mimeType: z.string().startsWith("video/", { message: "Only video files are allowed" }),
+  size: z.number().int().positive().max(MAX_UPLOAD_SIZE, { message: "File size must be less than 500MB" }),
+  video: insertVideoSchema.pick({ title: true, description: true, category: true, visibility: true, tags: true }),
+});
+
+export const updateProfileSchema = z.object({
+  displayName: z.string().trim().max(50, { message: "Display name must be at most 50 characters" }).nullable().optional(),
+  avatarUrl: z.string().url({ message: "Please enter a valid URL" }).nullable().optional().or(z.literal("").transform(() => null)),
+  bio: z.string().max(500, { message: "Bio must be at most 500 characters" }).nullable().optional(),
+});
+
+// Admin user management
+export const adminCreateUserSchema = insertUserSchema.extend({
+  username: usernameSchema,
+  password: z.string().min(6, { message: "Password must be at least 6 characters" }),
+  isAdmin: z.boolean().default(false),
+});
+
+export const adminUpdateUserSchema = z.object({
+  isAdmin: z.boolean().optional(),
+  isDisabled: z.boolean().optional(),
+});
+
+export const adminResetPasswordSchema = z.object({
+  temporaryPassword: z.string().min(6, { message: "Temporary password must be at least 6 characters" }),
+});
+
+// What happens to a deleted user's videos
+export const deleteUserSchema = z.discriminatedUnion("videos", [
+  z.object({ videos: z.literal("reassign"), reassignTo: z.coerce.number().int().positive() }),
+  z.object({ videos: z.literal("delete") }),
+]);
+
+export const createInviteSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+});
+
+export const createShareSchema = z.object({
+  expiresInDays: z.number().int().min(1).max(365).optional(),
+  password: z.string().min(4, { message: "Password must be at least 4 characters" }).optional(),
+  maxViews: z.number().int().min(1).optional(),
+});
+
+export const unlockShareSchema = z.object({
+  password: z.string().min(1, { message: "Password is required" }),
+});
+
+export const reactionSchema = z.object({
+  type: z.enum(REACTION_TYPES),
+});
+
+// With several tags, "all" matches videos having every one and "any" videos having at least one
+export const TAG_MATCH_MODES = ["all", "any"] as const;
+export type TagMatch = typeof TAG_MATCH_MODES[number];
+
+export const videoListQuerySchema = z.object({
+  category: z.string().optional(),
+  tag: videoTagsSchema.optional(),
+  tagMatch: z.enum(TAG_MATCH_MODES).default("all"),
+  search: z.string().trim().optional(),
+  uploader: z.coerce.number().int().positive().optional(),
+  sort: z.enum(VIDEO_SORTS).default("newest"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const searchQuerySchema = z.object({
+  q: z.string().trim().min(1, { message: "Search query is required" }).max(200),
+  category: z.string().optional(),
+  // Duration bounds in seconds
+  minDuration: z.coerce.number().int().min(0).optional(),
+  maxDuration: z.coerce.number().int().min(0).optional(),
+  uploadedAfter: z.coerce.date().optional(),
+  uploadedBefore: z.coerce.date().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// "All" is the client's tab for every category, so no category may take its name
+export const ALL_CATEGORIES = "All";
+export const CATEGORY_SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+// "Science & Nature" -> "science-nature"
+export function categorySlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+}
+
+export const createCategorySchema = z.object({
+  name: z.string().trim()
+    .min(1, { message: "Name is required" })
+    .max(50, { message: "Name must be at most 50 characters" })
+    .refine(name => name.toLowerCase() !== ALL_CATEGORIES.toLowerCase(), { message: `"${ALL_CATEGORIES}" is reserved` }),
+  // Derived from the name when left out
+  slug: z.string().trim().toLowerCase()
+    .max(50, { message: "Slug must be at most 50 characters" })
+    .regex(CATEGORY_SLUG_PATTERN, { message: "Slug may only contain letters, numbers and single hyphens" })
+    .optional(),
+  description: z.string().trim().max(500, { message: "Description must be at most 500 characters" }).optional(),
+  hidden: z.boolean().optional(),
+});
+
+export const updateCategorySchema = createCategorySchema.partial().extend({
+  description: z.string().trim().max(500, { message: "Description must be at most 500 characters" }).nullable().optional(),
+});
+
+// Every category id, in the new order
+export const reorderCategoriesSchema = z.object({
+  ids: z.array(z.number().int().positive()).min(1),
+});
+
+// Where a deleted category's videos go; without reassignTo they become uncategorized
+export const deleteCategorySchema = z.object({
+  reassignTo: z.coerce.number().int().positive().optional(),
+});
+
+export const renameTagSchema = z.object({
+  name: tagNameSchema,
+});
+
+export const mergeTagSchema = z.object({
+  targetId: z.number().int().positive(),
+});
+
+export const suggestQuerySchema = z.object({
+  q: z.string().trim().min(1, { message: "Search query is required" }).max(100),
+  limit: z.coerce.number().int().min(1).max(20).default(8),
+});
+
+const commentBodySchema = z.string().trim()
+  .min(1, { message: "Comment cannot be empty" })
+  .max(2000, { message: "Comment must be at most 2000 characters" });
+
+export const createCommentSchema = z.object({
+  body: commentBodySchema,
+  parentId: z.number().int().positive().optional(),
+});
+
+export const updateCommentSchema = z.object({
+  body: commentBodySchema,
+});
+
+export const pinCommentSchema = z.object({
+  pinned: z.boolean(),
+});
+
+export const commentListQuerySchema = z.object({
+  sort: z.enum(COMMENT_SORTS).default("newest"),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+export const createPlaylistSchema = z.object({
+  title: z.string().trim()
+    .min(1, { message: "Title is required" })
+    .max(100, { message: "Title must be at most 100 characters" }),
+  description: z.string().trim().max(1000, { message: "Description must be at most 1000 characters" }).optional(),
+  visibility: z.enum(VIDEO_VISIBILITIES).default("public"),
+});
+
+export const updatePlaylistSchema = createPlaylistSchema.extend({
+  description: z.string().trim().max(1000, { message: "Description must be at most 1000 characters" }).nullable().optional(),
+  visibility: z.enum(VIDEO_VISIBILITIES).optional(),
+}).partial();
+
+export const addPlaylistVideoSchema = z.object({
+  videoId: z.number().int().positive(),
+});
+
+// Video ids in their new order; videos left out follow them
+export const reorderPlaylistSchema = z.object({
+  videoIds: z.array(z.number().int().positive()).min(1),
+});
+
+// ?videoId= marks the playlists that already hold that video
+export const playlistListQuerySchema = z.object({
+  videoId: z.coerce.number().int().positive().optional(),
+});
+
+export const watchProgressSchema = z.object({
+  position: z.number().finite().min(0),
+  duration: z.number().finite().min(0),
+});
+
+export const historyQuerySchema = z.object({
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(50).default(20),
+});
+
+// The first heartbeat of a play omits viewId; later ones send it back
+export const viewHeartbeatSchema = z.object({
+  viewId: z.number().int().positive().optional(),
+  watchedSeconds: z.number().finite().min(0).max(24 * 60 * 60),
+  // Only read from the first heartbeat
+  source: z.enum(TRAFFIC_SOURCES).default("direct"),
+});
+
+export const analyticsQuerySchema = z.object({
+  days: z.coerce.number().int().min(1).max(365).default(28),
+});
+
+export const captionLanguageSchema = z.string()
+  .regex(/^[a-z]{2,3}(-[A-Za-z0-9]{2,8})*$/, { message: "Language must be a code such as \"en\" or \"pt-BR\"" });
+
+// Sent as multipart form fields alongside the caption file
+export const uploadCaptionSchema = z.object({
+  label: z.string().trim().min(1, { message: "Label is required" }).max(50, { message: "Label must be at most 50 characters" }),
+});
+
 export const passwordChangeSchema = z.object({
   currentPassword: z.string().min(1, { message: "Current password is required" }),
   newPassword: z.string().min(6, { message: "New password must be at least 6 characters" }),
@@ -80,11 +750,26 @@ export const videoUploadSchema = insertVideoSchema.extend({
   }).optional(),
 });
 
+// Fields an uploader may change after publishing. thumbnailTime re-extracts
+// the poster frame at that many seconds into the video.
+export const updateVideoSchema = insertVideoSchema.pick({
+  title: true,
+  description: true,
+  category: true,
+  visibility: true,
+  tags: true,
+}).partial().extend({
+  title: z.string().min(1, { message: "Title is required" }).optional(),
+  thumbnailTime: z.coerce.number().min(0).optional(),
+});
+
 export const embedVideoSchema = z.object({
   title: z.string().min(1, { message: "Title is required" }),
   description: z.string().optional(),
   embedUrl: z.string().url({ message: "Please enter a valid URL" }),
   category: z.string().optional(),
+  visibility: z.enum(VIDEO_VISIBILITIES).optional(),
+  tags: videoTagsSchema.optional(),
   isEmbedded: z.literal(true),
 });
 
@@ -102,9 +787,18 @@ export const themeSchema = z.object({
 
 export type ThemeSettings = z.infer<typeof themeSchema>;
 
-// Default categories
+// Site-wide settings managed from the admin panel
+export const SIGNUP_POLICIES = ["open", "invite", "closed"] as const;
+
+export const siteSettingsSchema = z.object({
+  signupPolicy: z.enum(SIGNUP_POLICIES).default("open"),
+});
+
+export type SignupPolicy = typeof SIGNUP_POLICIES[number];
+export type SiteSettings = z.infer<typeof siteSettingsSchema>;
+
+// Categories seeded into a new site
 export const DEFAULT_CATEGORIES = [
-  "All",
   "Travel",
   "Sports",
   "Education",